@@ -1,8 +1,46 @@
 // ABOUTME: Anthropic API client for generating writing prompts using Claude
 // ABOUTME: Handles API requests, error handling, and response parsing
 
-import { requestUrl } from 'obsidian';
-import { AnthropicRequest, AnthropicResponse, ModelInfo, ModelsListResponse } from '../types';
+import { requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import {
+    AnthropicRequest,
+    AnthropicResponse,
+    AnthropicStreamEvent,
+    AnthropicTextBlock,
+    AnthropicToolUseBlock,
+    ConnectionTestResult,
+    ModelInfo,
+    ModelsListResponse,
+    PromptItem,
+    PromptRequest
+} from '../types';
+import {
+    isRetryableStreamError,
+    PromptItemCallback,
+    PromptProvider,
+    UsageListener,
+    buildSystemPrompt,
+    createUserMessage,
+    getMaxTokens,
+    isPingReply,
+    parsePromptLines,
+    parseTestError,
+    reportUsage,
+    toPromptItems,
+    TEST_SYSTEM_PROMPT,
+    TEST_USER_MESSAGE
+} from './promptProvider';
+import { NumberedListStreamParser, readServerSentEvents } from './streaming';
+import { createApiError, createStreamError, ParseError, toNetworkError } from './errors';
+import {
+    DEFAULT_RETRY_POLICY,
+    NO_RETRY_POLICY,
+    parseRetryAfter,
+    RetryListener,
+    RetryPolicy,
+    withRetry
+} from './retry';
+import { JsonPromptStreamParser, PROMPTS_SCHEMA, PROMPTS_TOOL_NAME, validatePromptPayload } from './structuredOutput';
 
 /**
  * Client for interacting with the Anthropic API to generate writing prompts.
@@ -12,10 +50,17 @@ import { AnthropicRequest, AnthropicResponse, ModelInfo, ModelsListResponse } fr
  * 1. Generating writing prompts using the Messages API
  * 2. Fetching available Claude models using the Models API
  *
- * It includes type-specific prompt modifiers to ensure timed prompts are short
- * and immediate while note prompts can be more elaborate and creative.
+ * Prompt instructions and line parsing are shared with other providers via
+ * the PromptProvider helpers so every backend produces the same prompt style.
+ * When structured output is enabled, Claude is forced to call a tool whose
+ * input schema describes the prompts array, so no text scraping is needed.
+ *
+ * Transient failures (429 rate limits, 529 overload, 5xx, network errors) are
+ * retried with jittered exponential backoff, honoring Retry-After headers.
  */
-export class AnthropicClient {
+export class AnthropicClient implements PromptProvider {
+    readonly id = 'anthropic' as const;
+    readonly displayName = 'Anthropic';
     private apiKey: string;
     /** Anthropic API base URL - centralized to avoid drift */
     private readonly API_BASE = 'https://api.anthropic.com/v1';
@@ -25,20 +70,12 @@ export class AnthropicClient {
     private messagesUrl = `${this.API_BASE}/messages`;
     /** Base URL for the Anthropic Models API endpoint */
     private modelsUrl = `${this.API_BASE}/models`;
-
-    /**
-     * Suffix appended to all system prompts to enforce consistent output format.
-     * Ensures Claude returns only numbered prompts without additional commentary,
-     * which simplifies parsing and provides a predictable user experience.
-     */
-    private readonly SYSTEM_PROMPT_SUFFIX = '\n\nIMPORTANT OUTPUT REQUIREMENTS:\n- Return ONLY the numbered writing prompts, nothing else\n- Do not include any explanations, questions, or additional commentary\n- Do not ask if the user wants more prompts or different styles\n- Format: numbered list with one prompt per line (1. [prompt], 2. [prompt], etc.)';
-
-    /**
-     * Additional instructions for timed prompts to make them extremely brief.
-     * Timed prompts appear as notifications and need to be answerable quickly,
-     * so we enforce a short, concrete style optimized for rapid freewriting.
-     */
-    private readonly TIMED_PROMPT_MODIFIER = '\n\nFOR TIMED PROMPTS - MAKE THEM EXTREMELY SHORT AND DIRECT:\n- Each prompt should be answerable in 1-5 words or a single sentence\n- Focus on immediate, concrete observations or quick thoughts\n- Avoid complex scenarios or deep philosophical questions\n- Examples: "What color is closest to you?", "Your favorite word today:", "First sound you hear:", "Describe your mood in one word", "Name something soft"\n- Keep prompts simple, immediate, and concrete';
+    /** How transient failures are retried */
+    private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+    /** Listener notified before every retry */
+    private onRetry?: RetryListener;
+    /** Listener receiving the token usage of generation requests */
+    private onUsage?: UsageListener;
 
     /**
      * Creates a new Anthropic API client.
@@ -54,60 +91,150 @@ export class AnthropicClient {
      * Generates writing prompts using the Claude API.
      *
      * This method constructs an appropriate prompt based on the type (timed vs note),
-     * applies relevant system instructions, and parses the response into an array
-     * of clean prompt strings.
+     * applies relevant system instructions, and returns validated prompt items.
      *
-     * Timed prompts use fewer tokens (256) for faster generation and lower cost,
-     * while note prompts use more tokens (1000) for richer, more elaborate prompts.
+     * With structured output, prompts come from a forced tool call and are
+     * validated against the schema. Otherwise, or for models without tool
+     * support, the numbered list in the text response is parsed.
      *
-     * @param count - Number of prompts to generate
-     * @param model - Claude model ID to use (e.g., 'claude-3-5-haiku-latest')
-     * @param systemPrompt - Base system instructions for the AI
-     * @param examplePrompt - Example prompt to guide the style
-     * @param type - Whether this is for 'timed' notifications or 'note' insertion
-     * @returns Array of generated prompt strings
-     * @throws Error if API key is missing or API request fails
+     * @param request - Count, model, instructions, example, prompt type, and output mode
+     * @returns Array of generated prompt items
+     * @throws Error if API key is missing, API request fails, or the response is invalid
      */
-    async generatePrompts(
-        count: number,
-        model: string,
-        systemPrompt: string,
-        examplePrompt: string,
-        type: 'timed' | 'note'
-    ): Promise<string[]> {
+    async generatePrompts(request: PromptRequest): Promise<PromptItem[]> {
         if (!this.apiKey) {
             throw new Error('API key is required');
         }
 
         try {
-            const userMessage = this.createUserMessage(count, examplePrompt);
+            const structured = this.useStructuredOutput(request);
+            const response = await this.makeRequest(this.buildMessagesRequest(request, structured));
+            reportUsage(this.onUsage, request.model, response.usage?.input_tokens, response.usage?.output_tokens);
+            return structured
+                ? this.parseToolResponse(response)
+                : toPromptItems(this.parsePromptsFromResponse(response));
+        } catch (error) {
+            console.error('Error generating prompts:', error);
+            if (error instanceof Error) {
+                throw error;
+            }
+            throw new Error('Unknown error occurred while generating prompts');
+        }
+    }
+
+    /**
+     * Generates writing prompts using the streaming Messages API.
+     *
+     * Text deltas are fed through an incremental numbered-list parser, and tool
+     * input deltas through an incremental JSON parser, so each prompt reaches
+     * onPrompt as soon as it's complete. Uses fetch because requestUrl can't
+     * expose a response body before it finishes.
+     *
+     * @param request - Count, model, instructions, example, prompt type, and output mode
+     * @param onPrompt - Called with each prompt as soon as it's complete
+     * @returns Array of all generated prompt items
+     * @throws Error if API key is missing, the request fails, or the stream reports an error
+     */
+    async streamPrompts(request: PromptRequest, onPrompt: PromptItemCallback): Promise<PromptItem[]> {
+        if (!this.apiKey) {
+            throw new Error('API key is required');
+        }
 
-            // Build system prompt with type-specific modifiers
-            let finalSystemPrompt = systemPrompt;
-            if (type === 'timed') {
-                finalSystemPrompt += this.TIMED_PROMPT_MODIFIER;
+        const structured = this.useStructuredOutput(request);
+        const apiRequest: AnthropicRequest = { ...this.buildMessagesRequest(request, structured), stream: true };
+        // Only opening the stream is retried; once prompts flow, a failure is final
+        const response = await withRetry(async () => {
+            let opened: Response;
+            try {
+                opened = await fetch(this.messagesUrl, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'x-api-key': this.apiKey,
+                        'anthropic-version': this.API_VERSION,
+                        // Required for CORS when calling the API from a browser context
+                        'anthropic-dangerous-direct-browser-access': 'true'
+                    },
+                    body: JSON.stringify(apiRequest)
+                });
+            } catch (error) {
+                throw toNetworkError(error);
+            }
+            if (!opened.ok) {
+                throw createApiError(opened.status, await opened.text(), parseRetryAfter(opened.headers));
             }
-            finalSystemPrompt += this.SYSTEM_PROMPT_SUFFIX;
+            return opened;
+        }, this.retryPolicy, this.onRetry, isRetryableStreamError);
 
-            // Use smaller max_tokens for timed prompts to reduce latency/cost
-            const maxTokens = type === 'timed' ? 256 : 1000;
+        if (!response.body) {
+            throw new ParseError('No content received from API');
+        }
 
-            const request: AnthropicRequest = {
-                model,
-                max_tokens: maxTokens,
-                messages: [{ role: 'user', content: userMessage }],
-                system: finalSystemPrompt
-            };
+        const listParser = new NumberedListStreamParser();
+        const jsonParser = new JsonPromptStreamParser();
+        const prompts: PromptItem[] = [];
+        const emit = (completed: PromptItem[]) => {
+            for (const item of completed) {
+                prompts.push(item);
+                onPrompt(item);
+            }
+        };
+        let streamError: AnthropicStreamEvent['error'] | undefined;
+        let inputTokens: number | undefined;
+        let outputTokens: number | undefined;
+
+        const events = readServerSentEvents(response.body, (event) => {
+            let data: AnthropicStreamEvent;
+            try {
+                data = JSON.parse(event.data) as AnthropicStreamEvent;
+            } catch {
+                return; // Ignore malformed or non-JSON events (e.g., pings from proxies)
+            }
 
-            const response = await this.makeRequest(request);
-            return this.parsePromptsFromResponse(response);
+            if (data.type === 'content_block_delta' && data.delta) {
+                if (!structured && data.delta.type === 'text_delta' && data.delta.text) {
+                    emit(toPromptItems(listParser.push(data.delta.text)));
+                } else if (structured && data.delta.type === 'input_json_delta' && data.delta.partial_json) {
+                    emit(jsonParser.push(data.delta.partial_json));
+                }
+            } else if (data.type === 'message_start') {
+                inputTokens = data.message?.usage?.input_tokens;
+                outputTokens = data.message?.usage?.output_tokens;
+            } else if (data.type === 'message_delta') {
+                // Output tokens are cumulative
+                outputTokens = data.usage?.output_tokens ?? outputTokens;
+            } else if (data.type === 'error') {
+                streamError = data.error ?? { type: 'api_error', message: 'Unknown streaming error' };
+            }
+        });
+        try {
+            await events;
         } catch (error) {
-            console.error('Error generating prompts:', error);
-            if (error instanceof Error) {
-                throw error;
+            // The connection dropped mid-stream
+            throw toNetworkError(error);
+        } finally {
+            // Tokens are billed even when the stream fails
+            reportUsage(this.onUsage, request.model, inputTokens, outputTokens);
+        }
+
+        if (streamError) {
+            throw createStreamError(streamError.type, streamError.message);
+        }
+
+        if (structured) {
+            // Validate the complete payload so schema violations surface as errors
+            if (prompts.length === 0) {
+                validatePromptPayload(this.parseJson(jsonParser.getText()));
             }
-            throw new Error('Unknown error occurred while generating prompts');
+        } else {
+            emit(toPromptItems(listParser.flush()));
+        }
+
+        if (prompts.length === 0) {
+            throw new ParseError('No valid prompts found in API response');
         }
+
+        return prompts;
     }
 
     /**
@@ -157,23 +284,19 @@ export class AnthropicClient {
                 }
                 const url = `${this.modelsUrl}?${params.toString()}`;
 
-                const response = await requestUrl({
+                const response = await withRetry(() => this.send({
                     url,
                     method: 'GET',
                     headers: {
                         'x-api-key': this.apiKey,
                         'anthropic-version': this.API_VERSION
                     }
-                });
-
-                if (response.status < 200 || response.status >= 300) {
-                    throw new Error(`Models API request failed: ${response.status}\n${response.text}`);
-                }
+                }, 'Models API request failed'), this.retryPolicy, this.onRetry);
 
                 // Validate basic response structure
                 const data = response.json as unknown;
                 if (!data || typeof data !== 'object' || !('data' in data) || !Array.isArray((data as { data: unknown }).data)) {
-                    throw new Error('Invalid models API response structure');
+                    throw new ParseError('Invalid models API response structure');
                 }
 
                 // Validate that each model has required fields
@@ -181,7 +304,7 @@ export class AnthropicClient {
                 if (!modelsData.every((model: unknown) =>
                     model && typeof model === 'object' && 'id' in model && typeof (model as { id: unknown }).id === 'string'
                 )) {
-                    throw new Error('Invalid model structure in API response');
+                    throw new ParseError('Invalid model structure in API response');
                 }
 
                 const pageResponse = data as ModelsListResponse;
@@ -238,45 +361,88 @@ export class AnthropicClient {
             if (error instanceof Error) {
                 throw error;
             }
-            throw new Error(`Network request failed: ${String(error)}`);
+            throw toNetworkError(error);
         }
     }
 
     // MARK: - Private Methods
 
     /**
-     * Constructs the user message for prompt generation requests.
+     * Builds the Messages API payload for a prompt generation request.
      *
-     * If an example prompt is provided, it's included to guide the AI's style.
-     * The message emphasizes the exact output format needed for reliable parsing.
+     * Structured requests force a call to the submit_prompts tool so the
+     * response contains the prompts array as validated tool input.
      *
-     * @param count - Number of prompts requested
-     * @param examplePrompt - Optional example to demonstrate desired style
-     * @returns Formatted user message string
+     * @param request - Count, model, instructions, example, and prompt type
+     * @param structured - Whether to request prompts via tool use
+     * @returns Messages API request payload
      */
-    private createUserMessage(count: number, examplePrompt: string): string {
-        const baseMessage = `Generate exactly ${count} creative writing prompts. Return ONLY the numbered prompts with no additional text or commentary.`;
+    private buildMessagesRequest(request: PromptRequest, structured: boolean): AnthropicRequest {
+        const { count, model, systemPrompt, examplePrompt, type, favoriteExamples, avoidPrompts, context, vaultReferences } = request;
+
+        const apiRequest: AnthropicRequest = {
+            model,
+            max_tokens: getMaxTokens(type, structured, request.maxTokens),
+            messages: [{ role: 'user', content: createUserMessage(count, examplePrompt, structured, favoriteExamples, avoidPrompts, context, vaultReferences) }],
+            system: buildSystemPrompt(systemPrompt, type, structured)
+        };
+
+        // Unset parameters are left out so the model's defaults apply
+        if (request.temperature !== undefined) {
+            apiRequest.temperature = request.temperature;
+        }
+        if (request.topP !== undefined) {
+            apiRequest.top_p = request.topP;
+        }
 
-        if (examplePrompt.trim()) {
-            return `${baseMessage}\n\nExample style: "${examplePrompt}"\n\nProvide ${count} similar prompts in this exact format:\n1. [prompt]\n2. [prompt]\n(etc.)`;
+        if (structured) {
+            apiRequest.tools = [{
+                name: PROMPTS_TOOL_NAME,
+                description: 'Submit the generated writing prompts.',
+                input_schema: PROMPTS_SCHEMA
+            }];
+            apiRequest.tool_choice = { type: 'tool', name: PROMPTS_TOOL_NAME };
         }
 
-        return `${baseMessage}\n\nProvide ${count} diverse writing prompts in this exact format:\n1. [prompt]\n2. [prompt]\n(etc.)`;
+        return apiRequest;
+    }
+
+    /**
+     * Decides whether a request should use tool-based structured output.
+     *
+     * Tool use is available on Claude 3 and later. Legacy Claude 2 and Instant
+     * models fall back to numbered-list parsing.
+     *
+     * @param request - Generation request including the structured output preference
+     * @returns true if the prompts should be requested via tool use
+     */
+    private useStructuredOutput(request: PromptRequest): boolean {
+        return request.structuredOutput && this.supportsStructuredOutput(request.model);
+    }
+
+    /**
+     * Checks whether a Claude model supports tool use.
+     *
+     * @param model - Claude model ID
+     * @returns false for legacy Claude 2 / Instant models, true otherwise
+     */
+    supportsStructuredOutput(model: string): boolean {
+        return !/^claude-(?:2|instant)/.test(model);
     }
 
     /**
      * Makes an HTTP request to the Anthropic Messages API.
      *
      * Handles authentication headers, request serialization, and basic error checking.
-     * Uses Obsidian's requestUrl for compatibility with the plugin environment.
      *
      * @param request - Structured request payload for the API
+     * @param policy - Retry policy, defaults to the configured one
      * @returns Parsed API response
-     * @throws Error if request fails or returns non-2xx status
+     * @throws ApiError subclass if the request fails after all retries
      */
-    private async makeRequest(request: AnthropicRequest): Promise<AnthropicResponse> {
+    private async makeRequest(request: AnthropicRequest, policy: RetryPolicy = this.retryPolicy): Promise<AnthropicResponse> {
         try {
-            const response = await requestUrl({
+            const response = await withRetry(() => this.send({
                 url: this.messagesUrl,
                 method: 'POST',
                 headers: {
@@ -285,63 +451,107 @@ export class AnthropicClient {
                     'anthropic-version': this.API_VERSION
                 },
                 body: JSON.stringify(request)
-            });
-
-            if (response.status < 200 || response.status >= 300) {
-                throw new Error(`API request failed: ${response.status}\n${response.text}`);
-            }
+            }), policy, this.onRetry);
 
             return response.json as AnthropicResponse;
         } catch (error) {
             if (error instanceof Error) {
                 throw error;
             }
-            throw new Error(`Network request failed: ${String(error)}`);
+            throw toNetworkError(error);
         }
     }
 
     /**
-     * Parses writing prompts from the API response.
+     * Sends a single request, converting every failure into a typed API error.
      *
-     * Extracts text content, splits by newlines, removes numbering prefixes,
-     * and cleans whitespace to produce an array of ready-to-use prompt strings.
+     * Uses Obsidian's requestUrl for compatibility with the plugin environment, with
+     * throw disabled so status codes, error bodies, and Retry-After headers are
+     * available for classification and the retry logic.
+     *
+     * @param params - Request parameters
+     * @param prefix - Message prefix identifying the API in error messages
+     * @returns Successful (2xx) response
+     * @throws NetworkError if the server can't be reached, another ApiError subclass for non-2xx responses
+     */
+    private async send(params: RequestUrlParam, prefix?: string): Promise<RequestUrlResponse> {
+        let response: RequestUrlResponse;
+        try {
+            response = await requestUrl({ ...params, throw: false });
+        } catch (error) {
+            throw toNetworkError(error);
+        }
+
+        if (response.status < 200 || response.status >= 300) {
+            throw createApiError(response.status, response.text, parseRetryAfter(response.headers), prefix);
+        }
+        return response;
+    }
+
+    /**
+     * Parses writing prompts from the API response.
      *
-     * This parsing assumes the AI follows the format specified in SYSTEM_PROMPT_SUFFIX.
+     * Joins all text blocks and delegates to the shared numbered-list parser.
      *
      * @param response - API response containing generated content
      * @returns Array of cleaned prompt strings
-     * @throws Error if response is empty or contains no valid prompts
+     * @throws ParseError if response is empty or contains no valid prompts
      */
     private parsePromptsFromResponse(response: AnthropicResponse): string[] {
         if (!response.content || response.content.length === 0) {
-            throw new Error('No content received from API');
+            throw new ParseError('No content received from API');
         }
 
-        // Parse all text blocks, not just the first one
-        // Anthropic API can return multiple content blocks
-        const text = response.content
-            .filter(c => c && c.type === 'text' && typeof c.text === 'string')
-            .map(c => c.text)
-            .join('\n');
-        const lines = text.split('\n')
-            .map(line => line.trim())
-            .filter(line => line.length > 0);
-
-        const prompts: string[] = [];
-
-        for (const line of lines) {
-            // Remove list prefixes: numbered (1., 1)), bullets (-, *, •)
-            const cleaned = line.replace(/^\s*(?:\d+[.)]|[-*•])\s*/, '').trim();
-            if (cleaned.length > 0) {
-                prompts.push(cleaned);
-            }
-        }
+        return parsePromptLines(this.extractText(response, '\n'));
+    }
 
-        if (prompts.length === 0) {
-            throw new Error('No valid prompts found in API response');
+    /**
+     * Extracts and validates prompts from the forced submit_prompts tool call.
+     *
+     * @param response - API response containing a tool_use block
+     * @returns Array of validated prompt items
+     * @throws ParseError if the tool wasn't called or its input doesn't match the schema
+     */
+    private parseToolResponse(response: AnthropicResponse): PromptItem[] {
+        const toolUse = (response.content || []).find(
+            (block): block is AnthropicToolUseBlock => block?.type === 'tool_use' && block.name === PROMPTS_TOOL_NAME
+        );
+        if (!toolUse) {
+            throw new ParseError('No structured prompts received from API');
         }
+        return validatePromptPayload(toolUse.input);
+    }
 
-        return prompts;
+    /**
+     * Joins all text blocks of a response.
+     *
+     * Anthropic API can return multiple content blocks, so all text blocks are
+     * used rather than just the first one.
+     *
+     * @param response - API response
+     * @param separator - String placed between blocks
+     * @returns Combined text of all text blocks
+     */
+    private extractText(response: AnthropicResponse, separator: string): string {
+        return (response.content || [])
+            .filter((block): block is AnthropicTextBlock => block?.type === 'text' && typeof block.text === 'string')
+            .map(block => block.text)
+            .join(separator);
+    }
+
+    /**
+     * Parses JSON text, converting syntax errors into a descriptive error.
+     *
+     * @param text - JSON text
+     * @returns Parsed value
+     * @throws ParseError if the text isn't valid JSON
+     */
+    private parseJson(text: string): unknown {
+        try {
+            return JSON.parse(text) as unknown;
+        } catch {
+            throw new ParseError('Structured response was not valid JSON');
+        }
     }
 
     // MARK: - Configuration Methods
@@ -356,6 +566,26 @@ export class AnthropicClient {
         this.apiKey = apiKey;
     }
 
+    /**
+     * Sets how transient failures are retried for prompts and model fetching.
+     *
+     * @param policy - Retry attempts and backoff bounds
+     * @param onRetry - Optional listener notified before every retry
+     */
+    configureRetries(policy: RetryPolicy, onRetry?: RetryListener): void {
+        this.retryPolicy = policy;
+        this.onRetry = onRetry;
+    }
+
+    /**
+     * Sets the listener that receives the token usage of generation requests.
+     *
+     * @param onUsage - Listener notified after every completed request
+     */
+    setUsageListener(onUsage?: UsageListener): void {
+        this.onUsage = onUsage;
+    }
+
     /**
      * Validates that an API key is configured and non-empty.
      *
@@ -365,6 +595,16 @@ export class AnthropicClient {
         return !!(this.apiKey && this.apiKey.trim().length > 0);
     }
 
+    /**
+     * Checks whether the client can make requests.
+     * Anthropic requires an API key, so this mirrors validateApiKey.
+     *
+     * @returns true if an API key is configured
+     */
+    isConfigured(): boolean {
+        return this.validateApiKey();
+    }
+
     /**
      * Tests the configured API key by making a minimal request to Claude.
      *
@@ -374,22 +614,13 @@ export class AnthropicClient {
      * - The selected model is available
      *
      * It uses minimal tokens (max_tokens: 10) to keep costs negligible while
-     * still exercising the full authentication and request pipeline.
+     * still exercising the full authentication and request pipeline. Retries
+     * are disabled so the result reflects the connection as it is right now.
      *
      * @param model - Claude model ID to test with
      * @returns Detailed test result including success status, timing, and error details
      */
-    async testApiKey(model: string): Promise<{
-        success: boolean;
-        message: string;
-        details?: {
-            model?: string;
-            responseTime: number;
-            inputTokens?: number;
-            outputTokens?: number;
-        };
-        error?: string;
-    }> {
+    async testConnection(model: string): Promise<ConnectionTestResult> {
         if (!this.validateApiKey()) {
             return {
                 success: false,
@@ -404,25 +635,18 @@ export class AnthropicClient {
             const testRequest: AnthropicRequest = {
                 model,
                 max_tokens: 10,
-                messages: [{ role: 'user', content: 'Please respond with just the word "ping"' }],
-                system: 'You are a test assistant. Respond only with the exact word requested.'
+                messages: [{ role: 'user', content: TEST_USER_MESSAGE }],
+                system: TEST_SYSTEM_PROMPT
             };
 
-            const response = await this.makeRequest(testRequest);
+            const response = await this.makeRequest(testRequest, NO_RETRY_POLICY);
             const responseTime = Date.now() - startTime;
 
             // Validate that the assistant actually returned "ping"
             // This ensures the API is working correctly, not just returning a 2xx status
             // Check all content blocks (not just first) in case of multiple text blocks
-            // Normalize to tolerate punctuation and quotes (e.g., "ping.", ""ping"")
-            const returnedText = (response.content || [])
-                .filter(c => c && c.type === 'text' && typeof c.text === 'string')
-                .map(c => c.text)
-                .join(' ')
-                .trim()
-                .toLowerCase();
-            const normalized = returnedText.replace(/^[^a-z]+|[^a-z]+$/g, '').replace(/\s+/g, '');
-            const isValid = normalized === 'ping';
+            const returnedText = this.extractText(response, ' ');
+            const isValid = isPingReply(returnedText);
 
             return {
                 success: isValid,
@@ -439,101 +663,7 @@ export class AnthropicClient {
 
         } catch (error) {
             const responseTime = Date.now() - startTime;
-            return this.parseTestError(error, responseTime);
-        }
-    }
-
-    /**
-     * Parses errors from API test attempts into user-friendly messages.
-     *
-     * Categorizes errors by HTTP status code and error type to provide
-     * specific troubleshooting guidance. This helps users quickly identify
-     * whether the issue is with their API key, account, network, or the service.
-     *
-     * @param error - Caught error object (typically an Error instance)
-     * @param responseTime - How long the request took before failing
-     * @returns Structured error result with categorization and guidance
-     */
-    private parseTestError(error: unknown, responseTime: number): {
-        success: boolean;
-        message: string;
-        details?: {
-            model?: string;
-            responseTime: number;
-            inputTokens?: number;
-            outputTokens?: number;
-        };
-        error: string;
-    } {
-        const baseResult = {
-            success: false,
-            details: { responseTime }
-        };
-
-        if (error instanceof Error) {
-            const errorMessage = error.message.toLowerCase();
-
-            // Check for specific error types
-            if (errorMessage.includes('401') || errorMessage.includes('unauthorized')) {
-                return {
-                    ...baseResult,
-                    message: 'API key is invalid or unauthorized',
-                    error: 'UNAUTHORIZED'
-                };
-            }
-
-            if (errorMessage.includes('429') || errorMessage.includes('rate limit')) {
-                return {
-                    ...baseResult,
-                    message: 'Rate limit exceeded. Please try again later.',
-                    error: 'RATE_LIMITED'
-                };
-            }
-
-            if (errorMessage.includes('403') || errorMessage.includes('forbidden')) {
-                return {
-                    ...baseResult,
-                    message: 'API access forbidden. Check your account status and billing.',
-                    error: 'FORBIDDEN'
-                };
-            }
-
-            if (errorMessage.includes('400') || errorMessage.includes('bad request')) {
-                return {
-                    ...baseResult,
-                    message: 'Invalid request format. This may indicate a plugin bug.',
-                    error: 'BAD_REQUEST'
-                };
-            }
-
-            if (errorMessage.includes('500') || errorMessage.includes('internal server')) {
-                return {
-                    ...baseResult,
-                    message: 'Anthropic server error. Please try again later.',
-                    error: 'SERVER_ERROR'
-                };
-            }
-
-            if (errorMessage.includes('network') || errorMessage.includes('fetch')) {
-                return {
-                    ...baseResult,
-                    message: 'Network error. Check your internet connection.',
-                    error: 'NETWORK_ERROR'
-                };
-            }
-
-            // Generic error with the actual message
-            return {
-                ...baseResult,
-                message: `API test failed: ${error.message}`,
-                error: 'UNKNOWN_ERROR'
-            };
+            return parseTestError(error, responseTime, this.displayName);
         }
-
-        return {
-            ...baseResult,
-            message: 'Unknown error occurred during API test',
-            error: 'UNKNOWN_ERROR'
-        };
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,314 @@
+// ABOUTME: Typed error hierarchy for provider API failures
+// ABOUTME: Classifies failures by HTTP status and API error type so callers never match on message text
+
+/**
+ * HTTP statuses worth retrying:
+ * - 408 Request Timeout, 409 Conflict (transient lock contention)
+ * - 429 Too Many Requests
+ * - 500, 502, 503, 504 server and gateway errors
+ * - 529 Overloaded (Anthropic-specific)
+ *
+ * Everything else (400, 401, 403, 404, 413, ...) is fatal: retrying can't fix it.
+ */
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+/**
+ * Details shared by all API errors.
+ */
+export interface ApiErrorDetails {
+    /** HTTP status code, if the server responded */
+    status?: number;
+    /** Error type reported in the response body (e.g., 'overloaded_error') */
+    apiErrorType?: string;
+    /** Human-readable message reported in the response body */
+    apiMessage?: string;
+    /** Delay requested by the server via Retry-After, if any */
+    retryAfterMs?: number;
+}
+
+/**
+ * Base class for every failure talking to a provider API.
+ *
+ * Used directly for statuses that don't fit a more specific subclass.
+ * Whether an error is worth retrying is derived from its status, so the
+ * retry logic only needs to check `retryable`.
+ */
+export class ApiError extends Error {
+    readonly status?: number;
+    readonly apiErrorType?: string;
+    readonly apiMessage?: string;
+    readonly retryAfterMs?: number;
+
+    /**
+     * @param message - Technical message for logs
+     * @param details - Status, API error type, and Retry-After information
+     */
+    constructor(message: string, details: ApiErrorDetails = {}) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = details.status;
+        this.apiErrorType = details.apiErrorType;
+        this.apiMessage = details.apiMessage;
+        this.retryAfterMs = details.retryAfterMs;
+    }
+
+    /**
+     * Whether attempting the same request again might succeed.
+     */
+    get retryable(): boolean {
+        return this.status !== undefined && RETRYABLE_STATUSES.has(this.status);
+    }
+}
+
+/** 401 or 403: the API key is missing, invalid, or lacks permission */
+export class AuthenticationError extends ApiError {
+    constructor(message: string, details: ApiErrorDetails = {}) {
+        super(message, details);
+        this.name = 'AuthenticationError';
+    }
+}
+
+/** 429: too many requests or tokens for the account's rate limit */
+export class RateLimitError extends ApiError {
+    constructor(message: string, details: ApiErrorDetails = {}) {
+        super(message, details);
+        this.name = 'RateLimitError';
+    }
+
+    get retryable(): boolean {
+        return true;
+    }
+}
+
+/** 529 or 'overloaded_error': the provider is temporarily at capacity */
+export class OverloadedError extends ApiError {
+    constructor(message: string, details: ApiErrorDetails = {}) {
+        super(message, details);
+        this.name = 'OverloadedError';
+    }
+
+    get retryable(): boolean {
+        return true;
+    }
+}
+
+/** 400, 404, 413, 422: the request itself is wrong (unknown model, too large, unsupported option) */
+export class BadRequestError extends ApiError {
+    constructor(message: string, details: ApiErrorDetails = {}) {
+        super(message, details);
+        this.name = 'BadRequestError';
+    }
+}
+
+/** 5xx: the provider failed to handle a valid request */
+export class ServerError extends ApiError {
+    constructor(message: string, details: ApiErrorDetails = {}) {
+        super(message, details);
+        this.name = 'ServerError';
+    }
+
+    get retryable(): boolean {
+        return true;
+    }
+}
+
+/** The server couldn't be reached at all (offline, DNS, refused connection, CORS) */
+export class NetworkError extends ApiError {
+    /** Original transport error, kept for logging */
+    readonly cause?: unknown;
+
+    /**
+     * @param message - Technical message for logs
+     * @param cause - Original transport error
+     */
+    constructor(message: string, cause?: unknown) {
+        super(message);
+        this.name = 'NetworkError';
+        this.cause = cause;
+    }
+
+    get retryable(): boolean {
+        return true;
+    }
+}
+
+/** The server responded successfully but the content couldn't be used */
+export class ParseError extends ApiError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ParseError';
+    }
+}
+
+/**
+ * Error body formats understood by createApiError.
+ * Anthropic: `{"type": "error", "error": {"type": "...", "message": "..."}}`
+ * OpenAI-compatible: `{"error": {"type": "...", "code": "...", "message": "..."}}` or `{"error": "..."}`
+ */
+interface ErrorBody {
+    error?: string | { type?: string; code?: string; message?: string };
+}
+
+/**
+ * Reads the error type and message from a JSON error body.
+ *
+ * @param body - Raw response body text
+ * @returns Error type and message, each undefined if not present
+ */
+function parseErrorBody(body: string): { apiErrorType?: string; apiMessage?: string } {
+    try {
+        const parsed = JSON.parse(body) as ErrorBody;
+        if (typeof parsed?.error === 'string') {
+            return { apiMessage: parsed.error };
+        }
+        if (parsed?.error && typeof parsed.error === 'object') {
+            return {
+                apiErrorType: parsed.error.type ?? parsed.error.code,
+                apiMessage: parsed.error.message
+            };
+        }
+    } catch {
+        // Not JSON (e.g., an HTML error page from a proxy); the raw body is kept in the message
+    }
+    return {};
+}
+
+/**
+ * Creates the matching typed error for a non-2xx response.
+ *
+ * The status decides the class; the API error type refines it when the
+ * status is ambiguous (e.g., an Anthropic 'overloaded_error' sent as 503).
+ *
+ * @param status - HTTP status code
+ * @param body - Raw response body text
+ * @param retryAfterMs - Delay requested by the server via Retry-After, if any
+ * @param prefix - Message prefix identifying the API (e.g., 'Models API request failed')
+ * @returns Typed error describing the failure
+ */
+export function createApiError(status: number, body: string, retryAfterMs?: number, prefix = 'API request failed'): ApiError {
+    const { apiErrorType, apiMessage } = parseErrorBody(body);
+    const details: ApiErrorDetails = { status, apiErrorType, apiMessage, retryAfterMs };
+    const message = `${prefix}: ${status}${apiErrorType ? ` ${apiErrorType}` : ''}\n${apiMessage ?? body}`;
+
+    if (status === 401 || status === 403 || apiErrorType === 'authentication_error' || apiErrorType === 'permission_error') {
+        return new AuthenticationError(message, details);
+    }
+    if (status === 429 || apiErrorType === 'rate_limit_error') {
+        return new RateLimitError(message, details);
+    }
+    if (status === 529 || apiErrorType === 'overloaded_error') {
+        return new OverloadedError(message, details);
+    }
+    if (status === 400 || status === 404 || status === 413 || status === 422) {
+        return new BadRequestError(message, details);
+    }
+    if (status >= 500) {
+        return new ServerError(message, details);
+    }
+    return new ApiError(message, details);
+}
+
+/**
+ * Creates the matching typed error for an error event inside a stream.
+ *
+ * Streams have already returned 200, so only the API error type is available.
+ *
+ * @param apiErrorType - Error type from the event (e.g., 'overloaded_error')
+ * @param apiMessage - Message from the event
+ * @returns Typed error describing the failure
+ */
+export function createStreamError(apiErrorType: string | undefined, apiMessage: string | undefined): ApiError {
+    const details: ApiErrorDetails = { apiErrorType, apiMessage };
+    const message = `API stream failed: ${apiErrorType ?? 'unknown_error'}\n${apiMessage ?? ''}`;
+
+    switch (apiErrorType) {
+        case 'authentication_error':
+        case 'permission_error':
+            return new AuthenticationError(message, details);
+        case 'rate_limit_error':
+            return new RateLimitError(message, details);
+        case 'overloaded_error':
+            return new OverloadedError(message, details);
+        case 'invalid_request_error':
+        case 'not_found_error':
+        case 'request_too_large':
+            return new BadRequestError(message, details);
+        default:
+            return new ServerError(message, details);
+    }
+}
+
+/**
+ * Wraps a transport-level failure (requestUrl or fetch threw) as a NetworkError.
+ *
+ * @param error - Error thrown by the transport
+ * @returns NetworkError preserving the original error as its cause
+ */
+export function toNetworkError(error: unknown): NetworkError {
+    if (error instanceof NetworkError) {
+        return error;
+    }
+    const detail = error instanceof Error ? error.message : String(error);
+    return new NetworkError(`Network request failed: ${detail}`, error);
+}
+
+/**
+ * User-facing description of a failure, used by notices and the connection test.
+ */
+export interface ErrorDescription {
+    /** Actionable message telling the user what went wrong and what to do */
+    message: string;
+    /** Stable error code (e.g., 'UNAUTHORIZED') for troubleshooting output */
+    code: string;
+}
+
+/**
+ * Turns any error into a specific, actionable message for the user.
+ *
+ * @param error - Error thrown while talking to a provider
+ * @param providerName - Provider display name used in messages (e.g., 'Anthropic')
+ * @returns Message and stable error code
+ */
+export function describeError(error: unknown, providerName: string): ErrorDescription {
+    const detail = error instanceof ApiError && error.apiMessage ? ` (${error.apiMessage})` : '';
+
+    if (error instanceof AuthenticationError) {
+        return error.status === 403 || error.apiErrorType === 'permission_error'
+            ? { message: `${providerName} denied access. Check your account status, billing, and model permissions.${detail}`, code: 'FORBIDDEN' }
+            : { message: `${providerName} rejected the API key. Check the key in settings.${detail}`, code: 'UNAUTHORIZED' };
+    }
+    if (error instanceof RateLimitError) {
+        const wait = error.retryAfterMs !== undefined
+            ? ` Try again in ${Math.max(1, Math.ceil(error.retryAfterMs / 1000))}s.`
+            : ' Please try again later.';
+        return { message: `Rate limit exceeded.${wait}`, code: 'RATE_LIMITED' };
+    }
+    if (error instanceof OverloadedError) {
+        return { message: `${providerName} is temporarily overloaded. Please try again in a moment.`, code: 'OVERLOADED' };
+    }
+    if (error instanceof BadRequestError) {
+        if (error.status === 404 || error.apiErrorType === 'not_found_error') {
+            return { message: `Model or endpoint not found. Check the model and server URL in settings.${detail}`, code: 'NOT_FOUND' };
+        }
+        if (error.status === 413 || error.apiErrorType === 'request_too_large') {
+            return { message: `Request too large. Shorten the system prompt or example prompts.${detail}`, code: 'REQUEST_TOO_LARGE' };
+        }
+        return { message: `${providerName} rejected the request. Check the model and prompt settings.${detail}`, code: 'BAD_REQUEST' };
+    }
+    if (error instanceof ServerError) {
+        return { message: `${providerName} server error. Please try again later.${detail}`, code: 'SERVER_ERROR' };
+    }
+    if (error instanceof NetworkError) {
+        return { message: `Could not reach ${providerName}. Check your internet connection or server URL.`, code: 'NETWORK_ERROR' };
+    }
+    if (error instanceof ParseError) {
+        return { message: `${providerName} returned a response the plugin couldn't use: ${error.message}`, code: 'PARSE_ERROR' };
+    }
+    if (error instanceof ApiError) {
+        return { message: `Request failed with status ${error.status ?? 'unknown'}.${detail}`, code: 'HTTP_ERROR' };
+    }
+    if (error instanceof Error) {
+        return { message: error.message, code: 'UNKNOWN_ERROR' };
+    }
+    return { message: 'Unknown error occurred', code: 'UNKNOWN_ERROR' };
+}
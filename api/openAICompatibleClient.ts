@@ -0,0 +1,543 @@
+// ABOUTME: OpenAI-compatible chat completions client for generating writing prompts
+// ABOUTME: Works with OpenAI and local servers such as Ollama, LM Studio, and llama.cpp
+
+import { requestUrl, RequestUrlResponse } from 'obsidian';
+import {
+    ConnectionTestResult,
+    OpenAIChatRequest,
+    OpenAIChatResponse,
+    OpenAIChatStreamChunk,
+    PromptItem,
+    PromptRequest
+} from '../types';
+import {
+    isRetryableStreamError,
+    PromptItemCallback,
+    PromptProvider,
+    UsageListener,
+    buildSystemPrompt,
+    createUserMessage,
+    getMaxTokens,
+    isPingReply,
+    parsePromptLines,
+    parseTestError,
+    reportUsage,
+    toPromptItems,
+    TEST_SYSTEM_PROMPT,
+    TEST_USER_MESSAGE
+} from './promptProvider';
+import { NumberedListStreamParser, readServerSentEvents } from './streaming';
+import { JsonPromptStreamParser, PROMPTS_SCHEMA, validatePromptPayload } from './structuredOutput';
+import { BadRequestError, createApiError, ParseError, toNetworkError } from './errors';
+import {
+    DEFAULT_RETRY_POLICY,
+    NO_RETRY_POLICY,
+    parseRetryAfter,
+    RetryListener,
+    RetryPolicy,
+    withRetry
+} from './retry';
+
+/**
+ * Client for any server implementing OpenAI's chat completions API.
+ *
+ * Most local model servers expose this API, which lets users generate prompts
+ * offline against a local model or swap vendors without changing the plugin:
+ * - Ollama: http://localhost:11434/v1
+ * - LM Studio: http://localhost:1234/v1
+ * - llama.cpp server: http://localhost:8080/v1
+ *
+ * The API key is optional because local servers usually don't require one.
+ * When set, it's sent as a standard Bearer token.
+ *
+ * Structured output uses a json_schema response format. Servers or models
+ * that reject it are remembered for the session and served with numbered-list
+ * parsing instead, and replies that ignore the format are parsed as a list.
+ *
+ * Transient failures are retried with the same backoff policy as the
+ * Anthropic client, which matters for local servers still loading a model.
+ */
+export class OpenAICompatibleClient implements PromptProvider {
+    readonly id = 'openai-compatible' as const;
+    readonly displayName = 'OpenAI-compatible server';
+    private baseUrl: string;
+    private apiKey: string;
+    /** Server and model pairs that rejected the json_schema response format this session */
+    private structuredUnsupported = new Set<string>();
+    /** How transient failures are retried */
+    private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+    /** Listener notified before every retry */
+    private onRetry?: RetryListener;
+    /** Listener receiving the token usage of generation requests */
+    private onUsage?: UsageListener;
+
+    /**
+     * Creates a new OpenAI-compatible client.
+     *
+     * @param baseUrl - Server base URL including the version path (e.g., 'http://localhost:11434/v1')
+     * @param apiKey - Optional API key sent as a Bearer token
+     */
+    constructor(baseUrl: string, apiKey: string) {
+        this.baseUrl = baseUrl;
+        this.apiKey = apiKey;
+    }
+
+    // MARK: - Public Methods
+
+    /**
+     * Generates writing prompts using the chat completions endpoint.
+     *
+     * @param request - Count, model, instructions, example, prompt type, and output mode
+     * @returns Array of generated prompt items
+     * @throws Error if base URL is missing or the request fails
+     */
+    async generatePrompts(request: PromptRequest): Promise<PromptItem[]> {
+        if (!this.isConfigured()) {
+            throw new Error('Server URL is required');
+        }
+
+        const structured = this.useStructuredOutput(request);
+
+        try {
+            const response = await this.makeRequest(this.buildChatRequest(request, structured));
+            reportUsage(this.onUsage, request.model, response.usage?.prompt_tokens, response.usage?.completion_tokens);
+            const text = this.extractText(response);
+            return structured ? this.parseStructuredText(text) : toPromptItems(parsePromptLines(text));
+        } catch (error) {
+            if (structured && this.isStructuredOutputRejection(error)) {
+                console.warn(`Structured output rejected for ${request.model}, falling back to list parsing:`, error);
+                this.structuredUnsupported.add(this.getStructuredOutputKey(request.model));
+                return this.generatePrompts(request);
+            }
+            console.error('Error generating prompts:', error);
+            if (error instanceof Error) {
+                throw error;
+            }
+            throw new Error('Unknown error occurred while generating prompts');
+        }
+    }
+
+    /**
+     * Generates writing prompts with a streamed chat completion.
+     *
+     * Content deltas are fed through the incremental numbered-list or JSON
+     * parser so each prompt reaches onPrompt as soon as it's complete. With
+     * structured output, the first content decides the parser: a JSON object
+     * uses the JSON parser, anything else means the model ignored the format.
+     *
+     * @param request - Count, model, instructions, example, prompt type, and output mode
+     * @param onPrompt - Called with each prompt as soon as it's complete
+     * @returns Array of all generated prompt items
+     * @throws Error if base URL is missing or the request fails
+     */
+    async streamPrompts(request: PromptRequest, onPrompt: PromptItemCallback): Promise<PromptItem[]> {
+        if (!this.isConfigured()) {
+            throw new Error('Server URL is required');
+        }
+
+        const structured = this.useStructuredOutput(request);
+        const chatRequest: OpenAIChatRequest = {
+            ...this.buildChatRequest(request, structured),
+            stream: true,
+            stream_options: { include_usage: true }
+        };
+        let response: Response;
+        try {
+            // Only opening the stream is retried; once prompts flow, a failure is final
+            response = await withRetry(async () => {
+                let opened: Response;
+                try {
+                    opened = await fetch(this.endpoint('chat/completions'), {
+                        method: 'POST',
+                        headers: this.buildHeaders(),
+                        body: JSON.stringify(chatRequest)
+                    });
+                } catch (error) {
+                    throw toNetworkError(error);
+                }
+                if (!opened.ok) {
+                    throw createApiError(opened.status, await opened.text(), parseRetryAfter(opened.headers));
+                }
+                return opened;
+            }, this.retryPolicy, this.onRetry, isRetryableStreamError);
+        } catch (error) {
+            if (structured && this.isStructuredOutputRejection(error)) {
+                console.warn(`Structured output rejected for ${request.model}, falling back to list parsing:`, error);
+                this.structuredUnsupported.add(this.getStructuredOutputKey(request.model));
+                return this.streamPrompts(request, onPrompt);
+            }
+            throw error;
+        }
+
+        if (!response.body) {
+            throw new ParseError('No content received from API');
+        }
+
+        const listParser = new NumberedListStreamParser();
+        const jsonParser = new JsonPromptStreamParser();
+        // Until the first meaningful content arrives we don't know which parser applies
+        let mode = (structured ? 'pending' : 'lines') as 'pending' | 'json' | 'lines';
+        let pending = '';
+        let usage: OpenAIChatStreamChunk['usage'];
+        const prompts: PromptItem[] = [];
+        const emit = (completed: PromptItem[]) => {
+            for (const item of completed) {
+                prompts.push(item);
+                onPrompt(item);
+            }
+        };
+        const feed = (text: string) => {
+            if (mode === 'pending') {
+                pending += text;
+                const content = this.stripCodeFence(pending);
+                if (content === null) {
+                    return; // Still inside a code fence opener or only whitespace
+                }
+                mode = content.startsWith('{') ? 'json' : 'lines';
+                text = content;
+            }
+            if (mode === 'json') {
+                emit(jsonParser.push(text));
+            } else {
+                emit(toPromptItems(listParser.push(text)));
+            }
+        };
+
+        const events = readServerSentEvents(response.body, (event) => {
+            if (event.data === '[DONE]') {
+                return;
+            }
+
+            let chunk: OpenAIChatStreamChunk;
+            try {
+                chunk = JSON.parse(event.data) as OpenAIChatStreamChunk;
+            } catch {
+                return; // Ignore malformed or non-JSON events
+            }
+
+            const text = chunk.choices?.[0]?.delta?.content;
+            if (text) {
+                feed(text);
+            }
+            // Servers that honor include_usage send it in a final chunk without choices
+            usage = chunk.usage ?? usage;
+        });
+        try {
+            await events;
+        } catch (error) {
+            // The connection dropped mid-stream
+            throw toNetworkError(error);
+        } finally {
+            // Tokens are billed even when the stream fails
+            reportUsage(this.onUsage, request.model, usage?.prompt_tokens, usage?.completion_tokens);
+        }
+
+        if (mode === 'json') {
+            // Validate the complete payload so schema violations surface as errors
+            if (prompts.length === 0) {
+                this.parseStructuredText(jsonParser.getText());
+            }
+        } else {
+            if (mode === 'pending' && pending.trim()) {
+                emit(toPromptItems(listParser.push(pending)));
+            }
+            emit(toPromptItems(listParser.flush()));
+        }
+
+        if (prompts.length === 0) {
+            throw new ParseError('No valid prompts found in API response');
+        }
+
+        return prompts;
+    }
+
+    // MARK: - Private Methods
+
+    /**
+     * Builds the chat completions payload for a prompt generation request.
+     *
+     * Uses the same instructions and token limits as the Anthropic client so
+     * prompt style stays consistent regardless of the selected backend.
+     *
+     * @param request - Count, model, instructions, example, and prompt type
+     * @param structured - Whether to request a json_schema response format
+     * @returns Chat completions request payload
+     */
+    private buildChatRequest(request: PromptRequest, structured: boolean): OpenAIChatRequest {
+        const { count, model, systemPrompt, examplePrompt, type, favoriteExamples, avoidPrompts, context, vaultReferences } = request;
+
+        const chatRequest: OpenAIChatRequest = {
+            model,
+            max_tokens: getMaxTokens(type, structured, request.maxTokens),
+            messages: [
+                { role: 'system', content: buildSystemPrompt(systemPrompt, type, structured) },
+                { role: 'user', content: createUserMessage(count, examplePrompt, structured, favoriteExamples, avoidPrompts, context, vaultReferences) }
+            ]
+        };
+
+        // Unset parameters are left out so the server's defaults apply
+        if (request.temperature !== undefined) {
+            chatRequest.temperature = request.temperature;
+        }
+        if (request.topP !== undefined) {
+            chatRequest.top_p = request.topP;
+        }
+
+        if (structured) {
+            chatRequest.response_format = {
+                type: 'json_schema',
+                json_schema: { name: 'writing_prompts', schema: PROMPTS_SCHEMA }
+            };
+        }
+
+        return chatRequest;
+    }
+
+    /**
+     * Decides whether a request should use the json_schema response format.
+     *
+     * @param request - Generation request including the structured output preference
+     * @returns true unless disabled or the server already rejected it for this model
+     */
+    private useStructuredOutput(request: PromptRequest): boolean {
+        return request.structuredOutput && !this.structuredUnsupported.has(this.getStructuredOutputKey(request.model));
+    }
+
+    /**
+     * Identifies a model on the current server, since support for the
+     * response format depends on the server as much as on the model.
+     *
+     * @param model - Model name
+     * @returns Key for structuredUnsupported
+     */
+    private getStructuredOutputKey(model: string): string {
+        return `${this.baseUrl}\n${model}`;
+    }
+
+    /**
+     * Checks whether a failure means the server doesn't accept response_format.
+     *
+     * Servers without json_schema support answer with 400 Bad Request or
+     * 422 Unprocessable Entity. Other bad requests (context too long, an
+     * invalid max_tokens, an unknown model) use the same statuses, so only
+     * errors whose message names the response format count; anything else
+     * is a real failure and mustn't mark the model as unsupported.
+     *
+     * @param error - Error thrown by the request
+     * @returns true if retrying without structured output makes sense
+     */
+    private isStructuredOutputRejection(error: unknown): boolean {
+        return error instanceof BadRequestError &&
+            (error.status === 400 || error.status === 422) &&
+            /response_format|json_schema/i.test(`${error.apiMessage ?? ''}\n${error.message}`);
+    }
+
+    /**
+     * Parses a structured JSON reply, tolerating models that ignore the format.
+     *
+     * Code fences around the JSON are stripped, including a closing fence
+     * left over when the opener was already removed while streaming. If the
+     * reply isn't JSON at all, the model didn't honor the response format,
+     * so it's parsed as a list.
+     *
+     * @param text - Content of the model reply
+     * @returns Array of validated prompt items
+     * @throws Error if the JSON doesn't match the schema or no prompts are found
+     */
+    private parseStructuredText(text: string): PromptItem[] {
+        const content = this.stripCodeFence(text) ?? text;
+        let payload: unknown;
+        try {
+            payload = JSON.parse(content);
+        } catch {
+            return toPromptItems(parsePromptLines(text));
+        }
+        return validatePromptPayload(payload);
+    }
+
+    /**
+     * Removes leading whitespace and optional markdown code fences around the content.
+     *
+     * @param text - Beginning of the model reply, or the whole reply
+     * @returns Content inside the fences, or null if no meaningful content has arrived yet
+     */
+    private stripCodeFence(text: string): string | null {
+        let content = text.replace(/^\s+/, '');
+        if (content.startsWith('```')) {
+            const newline = content.indexOf('\n');
+            if (newline === -1) {
+                return null;
+            }
+            content = content.slice(newline + 1).replace(/^\s+/, '');
+        }
+        content = content.replace(/\s*```\s*$/, '');
+        return content.length > 0 ? content : null;
+    }
+
+    /**
+     * Builds request headers, adding the Bearer token only when a key is set.
+     *
+     * @returns Headers for chat completions requests
+     */
+    private buildHeaders(): Record<string, string> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json'
+        };
+        if (this.apiKey.trim()) {
+            headers['Authorization'] = `Bearer ${this.apiKey.trim()}`;
+        }
+        return headers;
+    }
+
+    /**
+     * Builds the full URL for an endpoint, tolerating trailing slashes in settings.
+     *
+     * @param path - Endpoint path relative to the base URL (e.g., 'chat/completions')
+     * @returns Absolute endpoint URL
+     */
+    private endpoint(path: string): string {
+        return `${this.baseUrl.trim().replace(/\/+$/, '')}/${path}`;
+    }
+
+    /**
+     * Makes an HTTP request to the chat completions endpoint.
+     *
+     * @param request - Chat completions payload
+     * @param policy - Retry policy, defaults to the configured one
+     * @returns Parsed API response
+     * @throws NetworkError if the server can't be reached, another ApiError subclass for non-2xx responses
+     */
+    private async makeRequest(request: OpenAIChatRequest, policy: RetryPolicy = this.retryPolicy): Promise<OpenAIChatResponse> {
+        const response = await withRetry(async () => {
+            let result: RequestUrlResponse;
+            try {
+                result = await requestUrl({
+                    url: this.endpoint('chat/completions'),
+                    method: 'POST',
+                    headers: this.buildHeaders(),
+                    body: JSON.stringify(request),
+                    throw: false
+                });
+            } catch (error) {
+                throw toNetworkError(error);
+            }
+
+            if (result.status < 200 || result.status >= 300) {
+                throw createApiError(result.status, result.text, parseRetryAfter(result.headers));
+            }
+            return result;
+        }, policy, this.onRetry);
+
+        return response.json as OpenAIChatResponse;
+    }
+
+    /**
+     * Extracts the generated text from a chat completions response.
+     *
+     * @param response - Chat completions response
+     * @returns Text of the first choice
+     * @throws ParseError if the response contains no text
+     */
+    private extractText(response: OpenAIChatResponse): string {
+        const content = response.choices?.[0]?.message?.content;
+        if (typeof content !== 'string' || content.trim().length === 0) {
+            throw new ParseError('No content received from API');
+        }
+        return content;
+    }
+
+    // MARK: - Configuration Methods
+
+    /**
+     * Updates the server connection details.
+     * Called when the user changes the server URL or key in settings. The
+     * new server gets a fresh chance at structured output.
+     *
+     * @param baseUrl - New server base URL
+     * @param apiKey - New API key (may be empty)
+     */
+    updateConfig(baseUrl: string, apiKey: string): void {
+        this.baseUrl = baseUrl;
+        this.apiKey = apiKey;
+        this.structuredUnsupported.clear();
+    }
+
+    /**
+     * Sets how transient failures are retried.
+     *
+     * @param policy - Retry attempts and backoff bounds
+     * @param onRetry - Optional listener notified before every retry
+     */
+    configureRetries(policy: RetryPolicy, onRetry?: RetryListener): void {
+        this.retryPolicy = policy;
+        this.onRetry = onRetry;
+    }
+
+    /**
+     * Sets the listener that receives the token usage of generation requests.
+     *
+     * @param onUsage - Listener notified after every completed request
+     */
+    setUsageListener(onUsage?: UsageListener): void {
+        this.onUsage = onUsage;
+    }
+
+    /**
+     * Checks whether a server URL is configured.
+     * The API key is optional, so only the URL is required.
+     *
+     * @returns true if a base URL exists and has content
+     */
+    isConfigured(): boolean {
+        return !!(this.baseUrl && this.baseUrl.trim().length > 0);
+    }
+
+    /**
+     * Tests the server connection by asking the model to reply "ping".
+     * Retries are disabled so the result reflects the server as it is right now.
+     *
+     * @param model - Model name to test with
+     * @returns Detailed test result including success status, timing, and error details
+     */
+    async testConnection(model: string): Promise<ConnectionTestResult> {
+        if (!this.isConfigured()) {
+            return {
+                success: false,
+                message: 'Server URL is empty',
+                error: 'MISSING_BASE_URL'
+            };
+        }
+
+        const startTime = Date.now();
+
+        try {
+            const response = await this.makeRequest({
+                model,
+                max_tokens: 10,
+                messages: [
+                    { role: 'system', content: TEST_SYSTEM_PROMPT },
+                    { role: 'user', content: TEST_USER_MESSAGE }
+                ]
+            }, NO_RETRY_POLICY);
+            const responseTime = Date.now() - startTime;
+            const returnedText = response.choices?.[0]?.message?.content ?? '';
+            const isValid = isPingReply(returnedText);
+
+            return {
+                success: isValid,
+                message: isValid
+                    ? 'Server is reachable and the model responded correctly'
+                    : 'Server responded but returned unexpected content',
+                details: {
+                    model: response.model ?? model,
+                    responseTime,
+                    inputTokens: response.usage?.prompt_tokens,
+                    outputTokens: response.usage?.completion_tokens
+                }
+            };
+        } catch (error) {
+            const responseTime = Date.now() - startTime;
+            return parseTestError(error, responseTime, this.displayName);
+        }
+    }
+}
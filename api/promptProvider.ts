@@ -0,0 +1,381 @@
+// ABOUTME: Provider contract shared by all LLM backends that can generate writing prompts
+// ABOUTME: Also holds the provider-agnostic prompt instructions, response parsing, and test helpers
+
+import { ConnectionTestResult, PromptItem, PromptRequest, PromptType, ProviderId, TokenUsage, VaultReferences } from '../types';
+import { ApiError, describeError, NetworkError, ParseError } from './errors';
+import { isRetryableError, RetryListener, RetryPolicy } from './retry';
+
+/**
+ * Callback invoked with each prompt as soon as it's available.
+ */
+export type PromptCallback = (prompt: string) => void;
+
+/**
+ * Callback invoked by providers with each prompt item as soon as it's complete.
+ */
+export type PromptItemCallback = (item: PromptItem) => void;
+
+/**
+ * Listener notified with the token usage of every generation request.
+ */
+export type UsageListener = (usage: TokenUsage) => void;
+
+/**
+ * Contract implemented by every backend that can generate writing prompts.
+ *
+ * PromptGeneratorService only talks to this interface, so adding a new vendor
+ * or a local model server means implementing these methods without touching
+ * the commands or the caching layer.
+ */
+export interface PromptProvider {
+    /** Stable identifier matching the provider setting */
+    readonly id: ProviderId;
+    /** Human-readable provider name used in notices */
+    readonly displayName: string;
+
+    /**
+     * Generates writing prompts for the given request.
+     *
+     * Uses structured output when requested and supported by the model,
+     * otherwise parses a numbered list from the model's text.
+     *
+     * @param request - Provider-agnostic generation parameters
+     * @returns Array of prompt items
+     * @throws Error if the provider is not configured or the request fails
+     */
+    generatePrompts(request: PromptRequest): Promise<PromptItem[]>;
+
+    /**
+     * Generates writing prompts over a streaming connection.
+     *
+     * Each prompt is passed to onPrompt as soon as its line (or JSON object)
+     * is complete, so callers can show the first prompt long before the
+     * response finishes.
+     *
+     * @param request - Provider-agnostic generation parameters
+     * @param onPrompt - Called once per prompt, in order, as prompts complete
+     * @returns Array of all prompt items once the stream has ended
+     * @throws Error if the provider is not configured or the stream fails
+     */
+    streamPrompts(request: PromptRequest, onPrompt: PromptItemCallback): Promise<PromptItem[]>;
+
+    /**
+     * Checks whether the provider has enough configuration to make requests.
+     *
+     * @returns true if requests can be attempted, false otherwise
+     */
+    isConfigured(): boolean;
+
+    /**
+     * Makes a minimal request to verify connectivity and model availability.
+     *
+     * @param model - Model identifier to test with
+     * @returns Detailed test result including timing and error details
+     */
+    testConnection(model: string): Promise<ConnectionTestResult>;
+
+    /**
+     * Sets how transient failures (rate limits, overload, network errors) are retried.
+     *
+     * @param policy - Retry attempts and backoff bounds
+     * @param onRetry - Optional listener notified before every retry
+     */
+    configureRetries(policy: RetryPolicy, onRetry?: RetryListener): void;
+
+    /**
+     * Sets the listener that receives the token usage of generation requests.
+     *
+     * Only requests that generate prompts are reported; connection tests and
+     * model lists aren't. Servers that don't report usage are skipped.
+     *
+     * @param onUsage - Listener notified after every completed request
+     */
+    setUsageListener(onUsage?: UsageListener): void;
+}
+
+/**
+ * Passes the token usage of a request to a listener.
+ *
+ * Local servers often omit usage, so nothing is reported when neither
+ * count is known.
+ *
+ * @param onUsage - Listener to notify, if any
+ * @param model - Model the request was sent to
+ * @param inputTokens - Input tokens reported by the server
+ * @param outputTokens - Output tokens reported by the server
+ */
+export function reportUsage(onUsage: UsageListener | undefined, model: string, inputTokens?: number, outputTokens?: number): void {
+    if (onUsage && (inputTokens !== undefined || outputTokens !== undefined)) {
+        onUsage({ model, inputTokens: inputTokens ?? 0, outputTokens: outputTokens ?? 0 });
+    }
+}
+
+/**
+ * Retry classifier for opening a stream.
+ *
+ * Network errors are not retried: fetch fails on CORS problems where
+ * requestUrl works, and PromptGeneratorService answers a NetworkError by
+ * falling back to a buffered request that has its own retries, so retrying
+ * here would only delay that fallback.
+ *
+ * @param error - Error thrown while opening the stream
+ * @returns true if opening the stream should be attempted again
+ */
+export function isRetryableStreamError(error: unknown): boolean {
+    return !(error instanceof NetworkError) && isRetryableError(error);
+}
+
+// MARK: - Prompt Instructions
+
+/**
+ * Suffix appended to all system prompts to enforce consistent output format.
+ * Ensures the model returns only numbered prompts without additional commentary,
+ * which simplifies parsing and provides a predictable user experience.
+ */
+const SYSTEM_PROMPT_SUFFIX = '\n\nIMPORTANT OUTPUT REQUIREMENTS:\n- Return ONLY the numbered writing prompts, nothing else\n- Do not include any explanations, questions, or additional commentary\n- Do not ask if the user wants more prompts or different styles\n- Format: numbered list with one prompt per line (1. [prompt], 2. [prompt], etc.)';
+
+/**
+ * Additional instructions for timed prompts to make them extremely brief.
+ * Timed prompts appear as notifications and need to be answerable quickly,
+ * so we enforce a short, concrete style optimized for rapid freewriting.
+ */
+const TIMED_PROMPT_MODIFIER = '\n\nFOR TIMED PROMPTS - MAKE THEM EXTREMELY SHORT AND DIRECT:\n- Each prompt should be answerable in 1-5 words or a single sentence\n- Focus on immediate, concrete observations or quick thoughts\n- Avoid complex scenarios or deep philosophical questions\n- Examples: "What color is closest to you?", "Your favorite word today:", "First sound you hear:", "Describe your mood in one word", "Name something soft"\n- Keep prompts simple, immediate, and concrete';
+
+/**
+ * Output requirements used when prompts are returned as structured JSON.
+ * Replaces the numbered-list suffix, which would contradict the schema.
+ */
+const STRUCTURED_PROMPT_SUFFIX = '\n\nIMPORTANT OUTPUT REQUIREMENTS:\n- Return the writing prompts as structured data only, one entry per prompt\n- Each entry\'s text must contain only the prompt itself, without numbering, quotes, or commentary\n- Optionally add a short category and a few tags to each prompt\n- Do not include headings, explanations, or follow-up questions';
+
+/**
+ * Builds the final system prompt with type-specific modifiers.
+ *
+ * @param systemPrompt - Base system instructions from settings
+ * @param type - Prompt type, timed prompts get extra brevity instructions
+ * @param structured - Whether prompts are requested as structured JSON
+ * @returns System prompt including output format requirements
+ */
+export function buildSystemPrompt(systemPrompt: string, type: PromptType, structured: boolean): string {
+    let finalSystemPrompt = systemPrompt;
+    if (type === 'timed') {
+        finalSystemPrompt += TIMED_PROMPT_MODIFIER;
+    }
+    return finalSystemPrompt + (structured ? STRUCTURED_PROMPT_SUFFIX : SYSTEM_PROMPT_SUFFIX);
+}
+
+/**
+ * Returns the output token budget for a generation request.
+ *
+ * Uses the budget configured for the prompt type. Without one, timed prompts
+ * use fewer tokens (256) for faster generation and lower cost, while note
+ * prompts use more tokens (1000) for richer, more elaborate prompts.
+ * Structured output doubles the budget to cover the JSON overhead.
+ *
+ * @param type - Prompt type
+ * @param structured - Whether prompts are requested as structured JSON
+ * @param maxTokens - Configured budget for the prompt type, if any
+ * @returns Maximum number of tokens to generate
+ */
+export function getMaxTokens(type: PromptType, structured: boolean, maxTokens?: number): number {
+    const base = maxTokens ?? (type === 'timed' ? 256 : 1000);
+    return structured ? base * 2 : base;
+}
+
+/**
+ * Constructs the user message for prompt generation requests.
+ *
+ * If an example prompt is provided, it's included to guide the AI's style.
+ * Favorite prompts are added as extra examples, and prompts to avoid are
+ * listed so the model doesn't repeat them. Context from the writer's note
+ * comes first, so the prompts build on it, and material sampled from the
+ * vault is listed for the prompts to reference. The message emphasizes the exact
+ * output format needed for reliable parsing.
+ *
+ * @param count - Number of prompts requested
+ * @param examplePrompt - Optional example to demonstrate desired style
+ * @param structured - Whether prompts are requested as structured JSON
+ * @param favoriteExamples - Prompts the user liked, used as additional examples
+ * @param avoidPrompts - Prompts the model must not repeat
+ * @param context - Text the writer has written so far, empty for standalone prompts
+ * @param vaultReferences - Note titles, tags, and headings the prompts should reference
+ * @returns Formatted user message string
+ */
+export function createUserMessage(
+    count: number,
+    examplePrompt: string,
+    structured: boolean,
+    favoriteExamples: string[] = [],
+    avoidPrompts: string[] = [],
+    context = '',
+    vaultReferences?: VaultReferences
+): string {
+    const hasExample = examplePrompt.trim().length > 0 || favoriteExamples.length > 0;
+    const parts = [structured
+        ? `Generate exactly ${count} creative writing prompts.`
+        : `Generate exactly ${count} creative writing prompts. Return ONLY the numbered prompts with no additional text or commentary.`];
+
+    if (context.trim()) {
+        parts.push(`The writer has already written the text below. Base every prompt on it: prompts should continue, challenge, or deepen what is there, for example by asking about a detail, taking an opposing view, or pushing a thread further. Do not summarize the text.\n\n<writing>\n${context.trim()}\n</writing>`);
+    }
+
+    if (vaultReferences && vaultReferences.notes.length > 0) {
+        const material = [`Notes:\n${vaultReferences.notes.map(note => `- [[${note}]]`).join('\n')}`];
+        if (vaultReferences.tags.length > 0) {
+            material.push(`Tags: ${vaultReferences.tags.join(', ')}`);
+        }
+        if (vaultReferences.headings.length > 0) {
+            material.push(`Headings:\n${formatPromptList(vaultReferences.headings)}`);
+        }
+        parts.push(`Draw on the writer's own notes below. Each prompt should reference at least one of them. Write note titles exactly as given, in double square brackets, for example "Write about [[Title]] from a stranger's point of view".\n\n${material.join('\n\n')}`);
+    }
+
+    if (examplePrompt.trim()) {
+        parts.push(`Example style: "${examplePrompt}"`);
+    }
+    if (favoriteExamples.length > 0) {
+        parts.push(`The writer especially liked these prompts. Match their spirit without copying them:\n${formatPromptList(favoriteExamples)}`);
+    }
+    if (avoidPrompts.length > 0) {
+        parts.push(`Do not repeat or closely paraphrase any of these prompts:\n${formatPromptList(avoidPrompts)}`);
+    }
+
+    const request = hasExample ? `Provide ${count} similar prompts` : `Provide ${count} diverse writing prompts`;
+    parts.push(structured ? `${request}.` : `${request} in this exact format:\n1. [prompt]\n2. [prompt]\n(etc.)`);
+
+    return parts.join('\n\n');
+}
+
+/**
+ * Formats prompts as a bulleted list for inclusion in the user message.
+ *
+ * @param prompts - Prompts to list
+ * @returns One quoted prompt per line
+ */
+function formatPromptList(prompts: string[]): string {
+    return prompts.map(prompt => `- "${prompt.replace(/\s+/g, ' ').trim()}"`).join('\n');
+}
+
+// MARK: - Response Parsing
+
+/**
+ * Parses writing prompts from raw model output.
+ *
+ * Splits by newlines, removes numbering prefixes, and cleans whitespace to
+ * produce an array of ready-to-use prompt strings. This parsing assumes the
+ * model follows the format specified in SYSTEM_PROMPT_SUFFIX.
+ *
+ * @param text - Generated text returned by the provider
+ * @returns Array of cleaned prompt strings
+ * @throws Error if the text contains no valid prompts
+ */
+export function parsePromptLines(text: string): string[] {
+    const lines = text.split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0);
+
+    const prompts: string[] = [];
+
+    for (const line of lines) {
+        const cleaned = cleanPromptLine(line);
+        if (cleaned.length > 0) {
+            prompts.push(cleaned);
+        }
+    }
+
+    if (prompts.length === 0) {
+        throw new ParseError('No valid prompts found in API response');
+    }
+
+    return prompts;
+}
+
+/**
+ * Wraps plain prompt strings as prompt items.
+ *
+ * @param prompts - Prompt strings from list parsing
+ * @returns Prompt items with text only
+ */
+export function toPromptItems(prompts: string[]): PromptItem[] {
+    return prompts.map(text => ({ text }));
+}
+
+/**
+ * Removes list prefixes from a single line of model output.
+ *
+ * Handles numbered (1., 1)) and bullet (-, *, •) prefixes so prompts read
+ * the same whether they were parsed in one pass or incrementally.
+ *
+ * @param line - Raw line of model output
+ * @returns Prompt text without prefix, or empty string if nothing remains
+ */
+export function cleanPromptLine(line: string): string {
+    return line.replace(/^\s*(?:\d+[.)]|[-*•])\s*/, '').trim();
+}
+
+/**
+ * Reduces a prompt to a comparison key.
+ *
+ * Lowercases, strips quotes and punctuation, and collapses whitespace so that
+ * the same prompt matches regardless of formatting the model chose.
+ *
+ * @param text - Prompt text
+ * @returns Normalized text for equality checks
+ */
+export function normalizePromptText(text: string): string {
+    return cleanPromptLine(text)
+        .toLowerCase()
+        .replace(/[.,!?;:'"“”‘’()[\]{}…—–-]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+// MARK: - Connection Testing
+
+/** System prompt used for connection tests */
+export const TEST_SYSTEM_PROMPT = 'You are a test assistant. Respond only with the exact word requested.';
+
+/** User message used for connection tests */
+export const TEST_USER_MESSAGE = 'Please respond with just the word "ping"';
+
+/**
+ * Checks whether a connection test reply is the expected "ping".
+ *
+ * Normalizes to tolerate punctuation and quotes (e.g., "ping.", ""ping"")
+ * so that models with slightly different formatting habits still pass.
+ *
+ * @param text - Text returned by the model
+ * @returns true if the reply is "ping" after normalization
+ */
+export function isPingReply(text: string): boolean {
+    const normalized = text
+        .trim()
+        .toLowerCase()
+        .replace(/^[^a-z]+|[^a-z]+$/g, '')
+        .replace(/\s+/g, '');
+    return normalized === 'ping';
+}
+
+/**
+ * Parses errors from connection test attempts into user-friendly messages.
+ *
+ * Relies on the typed API errors thrown by the providers, so classification
+ * depends on the HTTP status and API error type rather than message text.
+ *
+ * @param error - Caught error object (typically an ApiError)
+ * @param responseTime - How long the request took before failing
+ * @param providerName - Provider name used in error messages
+ * @returns Structured error result with categorization and guidance
+ */
+export function parseTestError(error: unknown, responseTime: number, providerName: string): ConnectionTestResult {
+    const { message, code } = describeError(error, providerName);
+    return {
+        success: false,
+        message,
+        error: code,
+        details: {
+            responseTime,
+            status: error instanceof ApiError ? error.status : undefined,
+            apiErrorType: error instanceof ApiError ? error.apiErrorType : undefined
+        }
+    };
+}
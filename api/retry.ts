@@ -0,0 +1,189 @@
+// ABOUTME: Retry policy with jittered exponential backoff and Retry-After support
+// ABOUTME: Wraps transport calls so transient API failures don't end a writing session
+
+import { ApiError } from './errors';
+
+/**
+ * Controls how often and how patiently failed requests are retried.
+ */
+export interface RetryPolicy {
+    /** Number of retries after the first attempt (0 disables retrying) */
+    maxRetries: number;
+    /** Base delay for the first retry in milliseconds, doubled on every attempt */
+    baseDelayMs: number;
+    /** Upper bound for a single wait; longer Retry-After requests are not retried */
+    maxDelayMs: number;
+}
+
+/**
+ * Information passed to retry listeners before each wait.
+ */
+export interface RetryAttempt {
+    /** Number of the upcoming attempt, starting at 2 for the first retry */
+    attempt: number;
+    /** Total attempts allowed, including the first one */
+    maxAttempts: number;
+    /** How long the client waits before the upcoming attempt */
+    delayMs: number;
+    /** Error that caused the retry */
+    error: Error;
+}
+
+/**
+ * Callback invoked before every retry, used to show progress to the user.
+ */
+export type RetryListener = (attempt: RetryAttempt) => void;
+
+/**
+ * Default policy: three retries starting at one second, never waiting longer than 30 seconds.
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000
+};
+
+/**
+ * Policy that makes exactly one attempt, used for connection tests.
+ */
+export const NO_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 0,
+    baseDelayMs: 0,
+    maxDelayMs: 0
+};
+
+/**
+ * Reads the server-requested retry delay from response headers.
+ *
+ * Supports `retry-after-ms` (milliseconds), and `retry-after` given either as
+ * seconds or as an HTTP date. Header names are matched case-insensitively.
+ *
+ * @param headers - Response headers
+ * @returns Delay in milliseconds, or undefined if no usable header is present
+ */
+export function parseRetryAfter(headers: Record<string, string> | Headers | undefined): number | undefined {
+    if (!headers) {
+        return undefined;
+    }
+
+    const read = (name: string): string | undefined => {
+        if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+            return headers.get(name) ?? undefined;
+        }
+        const record = headers as Record<string, string>;
+        const key = Object.keys(record).find(k => k.toLowerCase() === name);
+        return key ? record[key] : undefined;
+    };
+
+    const msValue = read('retry-after-ms');
+    if (msValue !== undefined) {
+        const ms = Number(msValue);
+        if (Number.isFinite(ms) && ms >= 0) {
+            return ms;
+        }
+    }
+
+    const value = read('retry-after');
+    if (value === undefined) {
+        return undefined;
+    }
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+        return seconds * 1000;
+    }
+
+    const date = Date.parse(value);
+    if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+}
+
+/**
+ * Decides whether a transport error is worth retrying.
+ *
+ * Typed API errors know whether they are transient (rate limits, overload,
+ * server and network errors). Anything else is an unexpected failure that
+ * a retry won't fix.
+ *
+ * @param error - Error thrown by the wrapped transport call
+ * @returns true if the call should be attempted again
+ */
+export function isRetryableError(error: unknown): boolean {
+    return error instanceof ApiError && error.retryable;
+}
+
+/**
+ * Computes the wait before the next attempt.
+ *
+ * Uses jittered exponential backoff (a random delay between a quarter of and
+ * the full base * 2^(retry-1), capped at maxDelayMs) so that many clients
+ * retrying at once don't synchronize. A server-provided Retry-After always wins.
+ *
+ * @param retry - 1 for the first retry, 2 for the second, ...
+ * @param policy - Retry policy
+ * @param retryAfterMs - Delay requested by the server, if any
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(retry: number, policy: RetryPolicy, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) {
+        return retryAfterMs;
+    }
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, retry - 1));
+    // Never retry instantly; keep at least a quarter of the ceiling
+    return Math.round(ceiling / 4 + Math.random() * ceiling * 3 / 4);
+}
+
+/**
+ * Runs an operation, retrying transient failures according to the policy.
+ *
+ * Only wrap the transport call itself: parse and validation errors thrown
+ * after a successful response are not transient and must not be retried.
+ *
+ * @param operation - Transport call to attempt
+ * @param policy - Retry policy
+ * @param onRetry - Optional listener notified before every wait
+ * @param shouldRetry - Classifies errors, defaults to isRetryableError
+ * @returns Result of the first successful attempt
+ * @throws The last error if all attempts fail, or the first fatal error
+ */
+export async function withRetry<T>(
+    operation: () => Promise<T>,
+    policy: RetryPolicy,
+    onRetry?: RetryListener,
+    shouldRetry: (error: unknown) => boolean = isRetryableError
+): Promise<T> {
+    const maxAttempts = Math.max(1, policy.maxRetries + 1);
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation();
+        } catch (error) {
+            if (attempt >= maxAttempts || !shouldRetry(error)) {
+                throw error;
+            }
+
+            const retryAfterMs = error instanceof ApiError ? error.retryAfterMs : undefined;
+            // Don't hold the user hostage to a very long server-requested wait
+            if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs) {
+                throw error;
+            }
+
+            const delayMs = computeBackoffDelay(attempt, policy, retryAfterMs);
+            const reason = error instanceof Error ? error : new Error(String(error));
+            onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, error: reason });
+            await sleep(delayMs);
+        }
+    }
+}
+
+/**
+ * Waits for the given number of milliseconds.
+ *
+ * @param ms - Delay in milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => window.setTimeout(resolve, ms));
+}
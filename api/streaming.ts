@@ -0,0 +1,146 @@
+// ABOUTME: Streaming helpers for reading server-sent events and parsing prompts incrementally
+// ABOUTME: Shared by all providers so streamed prompts are cleaned exactly like buffered ones
+
+import { cleanPromptLine } from './promptProvider';
+
+/**
+ * A single server-sent event as defined by the EventSource specification.
+ */
+export interface ServerSentEvent {
+    /** Event name from the `event:` field, 'message' when omitted */
+    event: string;
+    /** Payload from one or more `data:` fields joined by newlines */
+    data: string;
+}
+
+/**
+ * Reads a server-sent event stream and dispatches each complete event.
+ *
+ * Obsidian's requestUrl buffers the whole response, so streaming has to use
+ * fetch and read the body incrementally. Events are dispatched in order as
+ * soon as their terminating blank line arrives; comment lines are ignored.
+ * Lines end in \r\n, \r, or \n, even when a \r\n pair is split across chunks.
+ *
+ * @param body - Response body stream from fetch
+ * @param onEvent - Called for every complete event
+ */
+export async function readServerSentEvents(
+    body: ReadableStream<Uint8Array>,
+    onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder('utf-8');
+    let buffer = '';
+    // A chunk ending in \r may be the first half of a \r\n split across chunks
+    let pendingCarriageReturn = false;
+    let eventName = '';
+    let dataLines: string[] = [];
+
+    const dispatch = () => {
+        if (dataLines.length > 0) {
+            onEvent({ event: eventName || 'message', data: dataLines.join('\n') });
+        }
+        eventName = '';
+        dataLines = [];
+    };
+
+    const processLine = (line: string) => {
+        if (line === '') {
+            dispatch();
+            return;
+        }
+        if (line.startsWith(':')) {
+            return; // Comment / keep-alive
+        }
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        // The spec allows a single optional space after the colon
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'event') {
+            eventName = value;
+        } else if (field === 'data') {
+            dataLines.push(value);
+        }
+    };
+
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+            let text = decoder.decode(value, { stream: true });
+            if (text.length === 0) {
+                continue;
+            }
+            // The \r already ended the line; its \n must not end an empty one
+            if (pendingCarriageReturn && text.startsWith('\n')) {
+                text = text.slice(1);
+            }
+            pendingCarriageReturn = text.endsWith('\r');
+            buffer += text;
+
+            // Process every complete line, keep the partial remainder buffered
+            const lines = buffer.split(/\r\n|\r|\n/);
+            buffer = lines.pop() ?? '';
+            lines.forEach(processLine);
+        }
+
+        // Flush any trailing event that wasn't terminated by a blank line
+        buffer += decoder.decode();
+        if (buffer.length > 0) {
+            processLine(buffer);
+        }
+        dispatch();
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Incremental counterpart to parsePromptLines for streamed model output.
+ *
+ * Text deltas arrive in arbitrary fragments, so a prompt is only emitted once
+ * its line is terminated by a newline. Call flush() after the stream ends to
+ * emit the final line, which usually has no trailing newline.
+ */
+export class NumberedListStreamParser {
+    /** Text received since the last complete line */
+    private buffer = '';
+
+    /**
+     * Adds a text fragment and returns any prompts it completed.
+     *
+     * @param chunk - Next text fragment from the stream
+     * @returns Prompts whose lines were completed by this chunk, in order
+     */
+    push(chunk: string): string[] {
+        this.buffer += chunk;
+        const lines = this.buffer.split('\n');
+        this.buffer = lines.pop() ?? '';
+        return this.cleanLines(lines);
+    }
+
+    /**
+     * Emits the remaining buffered line once the stream has ended.
+     *
+     * @returns The final prompt if the buffer held one, otherwise empty
+     */
+    flush(): string[] {
+        const remaining = this.buffer;
+        this.buffer = '';
+        return this.cleanLines([remaining]);
+    }
+
+    /**
+     * Cleans list prefixes from complete lines and drops empty ones.
+     *
+     * @param lines - Complete lines of model output
+     * @returns Non-empty cleaned prompts
+     */
+    private cleanLines(lines: string[]): string[] {
+        return lines
+            .map(line => cleanPromptLine(line))
+            .filter(line => line.length > 0);
+    }
+}
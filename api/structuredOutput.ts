@@ -0,0 +1,194 @@
+// ABOUTME: JSON schema, validation, and incremental parsing for structured prompt output
+// ABOUTME: Used by providers that request prompts via tool use or JSON schema responses
+
+import { PromptItem } from '../types';
+import { ParseError } from './errors';
+
+/** Name of the tool Claude is forced to call with the generated prompts */
+export const PROMPTS_TOOL_NAME = 'submit_prompts';
+
+/**
+ * JSON schema describing the structured prompt payload.
+ *
+ * Shared by Anthropic tool use (input_schema) and OpenAI-compatible
+ * json_schema response formats so both backends return the same shape.
+ */
+export const PROMPTS_SCHEMA = {
+    type: 'object',
+    properties: {
+        prompts: {
+            type: 'array',
+            description: 'The generated writing prompts, in order',
+            items: {
+                type: 'object',
+                properties: {
+                    text: {
+                        type: 'string',
+                        description: 'The writing prompt itself, without numbering or quotes'
+                    },
+                    category: {
+                        type: 'string',
+                        description: 'Optional short category (e.g., memory, sensory, character)'
+                    },
+                    tags: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'Optional keywords describing the prompt'
+                    }
+                },
+                required: ['text']
+            }
+        }
+    },
+    required: ['prompts']
+};
+
+/**
+ * Validates a single structured prompt entry.
+ *
+ * Accepts entries whose text is a non-empty string; optional fields with the
+ * wrong type are dropped rather than rejecting the whole prompt.
+ *
+ * @param value - Candidate prompt entry from the model
+ * @returns Cleaned prompt item, or null if the entry has no usable text
+ */
+export function validatePromptItem(value: unknown): PromptItem | null {
+    if (!value || typeof value !== 'object') {
+        return null;
+    }
+
+    const entry = value as { text?: unknown; category?: unknown; tags?: unknown };
+    if (typeof entry.text !== 'string' || entry.text.trim().length === 0) {
+        return null;
+    }
+
+    const item: PromptItem = { text: entry.text.trim() };
+    if (typeof entry.category === 'string' && entry.category.trim().length > 0) {
+        item.category = entry.category.trim();
+    }
+    if (Array.isArray(entry.tags)) {
+        const tags = entry.tags.filter((tag): tag is string => typeof tag === 'string' && tag.trim().length > 0);
+        if (tags.length > 0) {
+            item.tags = tags.map(tag => tag.trim());
+        }
+    }
+    return item;
+}
+
+/**
+ * Validates a complete structured prompt payload.
+ *
+ * @param payload - Parsed tool input or JSON response body
+ * @returns Array of validated prompt items
+ * @throws ParseError if the payload doesn't match the schema or contains no valid prompts
+ */
+export function validatePromptPayload(payload: unknown): PromptItem[] {
+    if (!payload || typeof payload !== 'object' || !Array.isArray((payload as { prompts?: unknown }).prompts)) {
+        throw new ParseError('Structured response is missing the prompts array');
+    }
+
+    const items = (payload as { prompts: unknown[] }).prompts
+        .map(validatePromptItem)
+        .filter((item): item is PromptItem => item !== null);
+
+    if (items.length === 0) {
+        throw new ParseError('No valid prompts found in API response');
+    }
+
+    return items;
+}
+
+/**
+ * Incrementally extracts prompt objects from a streamed JSON payload.
+ *
+ * Streamed tool input and JSON responses arrive as arbitrary fragments of
+ * `{"prompts": [{...}, {...}]}`. This scanner tracks string and nesting
+ * state character by character and emits each prompt object as soon as its
+ * closing brace arrives, so structured output streams just like list output.
+ */
+export class JsonPromptStreamParser {
+    /** All JSON text received so far */
+    private buffer = '';
+    /** Index of the next character to scan */
+    private position = 0;
+    /** Current nesting depth of objects and arrays */
+    private depth = 0;
+    /** Whether the scanner is inside a JSON string */
+    private inString = false;
+    /** Whether the previous character was a backslash inside a string */
+    private escaped = false;
+    /** Start index of the prompt object currently being scanned, -1 if none */
+    private itemStart = -1;
+
+    /**
+     * Adds a JSON fragment and returns any prompt objects it completed.
+     *
+     * Prompt objects live at depth 3: root object, prompts array, item object.
+     *
+     * @param chunk - Next fragment of the JSON payload
+     * @returns Prompts whose objects were completed by this chunk, in order
+     */
+    push(chunk: string): PromptItem[] {
+        this.buffer += chunk;
+        const completed: PromptItem[] = [];
+
+        for (; this.position < this.buffer.length; this.position++) {
+            const char = this.buffer[this.position];
+
+            if (this.inString) {
+                if (this.escaped) {
+                    this.escaped = false;
+                } else if (char === '\\') {
+                    this.escaped = true;
+                } else if (char === '"') {
+                    this.inString = false;
+                }
+                continue;
+            }
+
+            if (char === '"') {
+                this.inString = true;
+            } else if (char === '{' || char === '[') {
+                this.depth++;
+                if (char === '{' && this.depth === 3) {
+                    this.itemStart = this.position;
+                }
+            } else if (char === '}' || char === ']') {
+                if (char === '}' && this.depth === 3 && this.itemStart !== -1) {
+                    const item = this.parseItem(this.buffer.slice(this.itemStart, this.position + 1));
+                    if (item) {
+                        completed.push(item);
+                    }
+                    this.itemStart = -1;
+                }
+                this.depth--;
+            }
+        }
+
+        return completed;
+    }
+
+    /**
+     * Returns the full JSON text received so far.
+     * Used to validate the complete payload once the stream has ended.
+     *
+     * @returns Accumulated JSON text
+     */
+    getText(): string {
+        return this.buffer;
+    }
+
+    /**
+     * Parses and validates a single completed prompt object.
+     *
+     * @param json - JSON text of one prompt object
+     * @returns Validated prompt item, or null if it can't be used
+     */
+    private parseItem(json: string): PromptItem | null {
+        try {
+            return validatePromptItem(JSON.parse(json));
+        } catch {
+            return null;
+        }
+    }
+}
@@ -0,0 +1,130 @@
+// ABOUTME: New freewriting note command that creates a dated note filled with prompts
+// ABOUTME: Adds frontmatter with date, model, profile, and prompts, then opens the note for writing
+
+import { App, MarkdownView, moment, normalizePath, Notice, TFile } from 'obsidian';
+import { NotePromptsCommand } from './notePrompts';
+import { PromptGeneratorService } from '../services/promptGenerator';
+import { getOrCreateFile } from '../services/vaultFiles';
+import { FreewritingPromptsSettings } from '../types';
+
+/** Characters Obsidian doesn't allow in file names */
+const INVALID_FILENAME_CHARACTERS = /[\\/:*?"<>|#^[\]]/g;
+
+/**
+ * Command handler for creating a new freewriting note.
+ *
+ * Unlike the note prompts command, this needs no open editor: it generates
+ * note prompts, creates a note named after the current date in the
+ * configured folder, and opens it with the cursor below the prompts.
+ *
+ * The prompts are formatted by the note template, like inserted prompts,
+ * and also stored as a list property in the frontmatter together with the
+ * date, model, and profile, so notes can be queried later.
+ *
+ * Prompts are generated before the note is created, so a failed request
+ * doesn't leave an empty note behind.
+ */
+export class NewNoteCommand {
+    /**
+     * Creates a new freewriting note command handler.
+     *
+     * @param app - Obsidian app instance for creating and opening the note
+     * @param promptGenerator - Service for generating prompts from the API
+     * @param noteCommand - Note prompts command providing the template formatting
+     */
+    constructor(
+        private app: App,
+        private promptGenerator: PromptGeneratorService,
+        private noteCommand: NotePromptsCommand
+    ) {}
+
+    // MARK: - Public Methods
+
+    /**
+     * Generates prompts, creates the note, and opens it.
+     *
+     * @param settings - Current plugin settings for generation and the note location
+     * @returns The created note, or null if no prompts were generated or creation failed
+     */
+    async execute(settings: FreewritingPromptsSettings): Promise<TFile | null> {
+        let prompts: string[];
+        try {
+            prompts = await this.promptGenerator.generateNotePrompts(settings);
+        } catch (error) {
+            console.error('Error generating prompts for new note:', error);
+            // Error handling is done in the service layer
+            return null;
+        }
+
+        if (prompts.length === 0) {
+            new Notice('No prompts were generated');
+            return null;
+        }
+
+        const now = new Date();
+        const model = this.promptGenerator.getActiveModel(settings, 'note');
+        try {
+            const file = await getOrCreateFile(
+                this.app.vault,
+                this.getAvailablePath(settings, now),
+                this.noteCommand.formatPrompts(prompts, now, settings, model)
+            );
+            await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+                frontmatter.date = moment(now).format('YYYY-MM-DD');
+                frontmatter.model = model;
+                frontmatter.profile = settings.profiles.find(p => p.id === settings.activeProfileId)?.name ?? '';
+                frontmatter.prompts = prompts.map(prompt => prompt.replace(/\s+/g, ' ').trim());
+            });
+            await this.openForWriting(file);
+            new Notice(`Created ${file.basename} with ${prompts.length} writing prompts`);
+            return file;
+        } catch (error) {
+            console.error('Error creating freewriting note:', error);
+            new Notice(`Could not create the note: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
+        }
+    }
+
+    // MARK: - Private Methods
+
+    /**
+     * Builds the path of the new note from the folder and file name pattern.
+     *
+     * Characters that aren't allowed in file names are replaced with dashes,
+     * and a counter is added if a file with the name already exists.
+     *
+     * @param settings - Settings with the folder and file name pattern
+     * @param date - Date the file name is formatted from
+     * @returns Normalized vault path that isn't taken
+     */
+    private getAvailablePath(settings: FreewritingPromptsSettings, date: Date): string {
+        const pattern = settings.newNoteFilenamePattern.trim() || 'YYYY-MM-DD HHmm [Freewriting]';
+        const name = moment(date).format(pattern).replace(INVALID_FILENAME_CHARACTERS, '-').trim() || 'Freewriting';
+        const folder = settings.newNoteFolder.trim();
+        const base = folder ? `${folder}/${name}` : name;
+
+        let path = normalizePath(`${base}.md`);
+        for (let i = 2; this.app.vault.getAbstractFileByPath(path); i++) {
+            path = normalizePath(`${base} ${i}.md`);
+        }
+        return path;
+    }
+
+    /**
+     * Opens the note in the current tab with the cursor at the end.
+     *
+     * @param file - Note to open
+     */
+    private async openForWriting(file: TFile): Promise<void> {
+        const leaf = this.app.workspace.getLeaf(false);
+        await leaf.openFile(file, { active: true });
+
+        const view = leaf.view;
+        if (view instanceof MarkdownView) {
+            const { editor } = view;
+            const lastLine = editor.lastLine();
+            editor.setCursor({ line: lastLine, ch: editor.getLine(lastLine).length });
+            editor.focus();
+        }
+    }
+}
@@ -1,9 +1,41 @@
 // ABOUTME: Note prompts command implementation that appends prompts to the current note
 // ABOUTME: Handles editor interaction, cursor positioning, and prompt formatting
 
-import { App, Editor, MarkdownView, Notice } from 'obsidian';
+import { App, Editor, editorInfoField, getFrontMatterInfo, MarkdownView, Notice } from 'obsidian';
+import { Extension } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
 import { PromptGeneratorService } from '../services/promptGenerator';
-import { FreewritingPromptsSettings } from '../types';
+import { getNoteTemplate, renderPromptTemplate } from '../services/promptTemplate';
+import { VaultSample, VaultSampler } from '../services/vaultSampler';
+import { FreewritingPromptsSettings, PromptLogFormat, PromptRequest, PromptSource } from '../types';
+
+/** Rough characters per token, used to turn the context budget into a text length */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Tracks a block of prompts being written into the editor while they stream in.
+ * The block is re-rendered in place each time a prompt arrives.
+ */
+interface PromptInsertion {
+    /** Editor the block is written into */
+    editor: Editor;
+    /** Offset where the block starts, moved along as the note is edited */
+    from: number;
+    /** Offset where the block ends, moved along as the note is edited */
+    to: number;
+    /** Newline prepended because the cursor line already had text before it */
+    prefix: string;
+    /** Newline appended because more content follows the insertion point */
+    suffix: string;
+    /** When the insertion began, fixed so the date doesn't change while prompts stream in */
+    startedAt: Date;
+    /** Text currently occupying the block */
+    inserted: string;
+    /** Whether the command itself is rewriting the block, so the change isn't mapped */
+    writing: boolean;
+    /** Whether the block's text was edited by the writer, which stops further writes */
+    detached: boolean;
+}
 
 /**
  * Command handler for inserting writing prompts directly into notes.
@@ -15,84 +47,252 @@ import { FreewritingPromptsSettings } from '../types';
  * Key responsibilities:
  * - Validates editor and view state before execution
  * - Generates prompts via the prompt service
- * - Formats prompts with timestamp and numbering
+ * - Formats prompts with the note template selected in settings
  * - Inserts at cursor with intelligent newline handling
+ * - Optionally sends the selection or the note as context, so prompts build
+ *   on what has been written
+ * - Optionally samples material from the vault and links the notes the
+ *   prompts reference
+ * - Writes prompts one by one as they stream in, keeping the block in place
+ *   while the writer keeps typing
  * - Positions cursor after inserted content
  *
- * The formatting includes a timestamp to help users track when prompts were
- * added, and numbered list format for easy reference.
+ * The default template includes a timestamp to help users track when
+ * prompts were added, and numbered list format for easy reference.
  */
 export class NotePromptsCommand {
+    /** Blocks currently being written, moved along by the editor extension */
+    private insertions = new Set<PromptInsertion>();
+
     /**
      * Creates a new note prompts command handler.
      *
      * @param promptGenerator - Service for generating prompts from the API
+     * @param vaultSampler - Service sampling vault material for vault-aware prompts
      */
-    constructor(private promptGenerator: PromptGeneratorService) {}
+    constructor(
+        private promptGenerator: PromptGeneratorService,
+        private vaultSampler: VaultSampler
+    ) {}
 
     // MARK: - Public Methods
 
+    /**
+     * Creates the editor extension that keeps blocks in place while prompts stream in.
+     *
+     * Every change to a note moves the start and end of the blocks being
+     * written in it, so text typed before or after a block shifts the block
+     * instead of ending up inside it. A block whose text no longer matches
+     * what was written, because the writer edited it, is detached and left
+     * alone from then on.
+     *
+     * @returns Extension to register with the plugin
+     */
+    createEditorExtension(): Extension {
+        return EditorView.updateListener.of(update => {
+            if (!update.docChanged || this.insertions.size === 0) {
+                return;
+            }
+            const editor = update.state.field(editorInfoField, false)?.editor;
+            this.insertions.forEach(insertion => {
+                if (insertion.editor !== editor || insertion.writing || insertion.detached) {
+                    return;
+                }
+                // Text typed at either edge stays outside the block
+                const empty = insertion.from === insertion.to;
+                insertion.from = update.changes.mapPos(insertion.from, 1);
+                insertion.to = empty ? insertion.from : update.changes.mapPos(insertion.to, -1);
+                if (update.state.doc.sliceString(insertion.from, insertion.to) !== insertion.inserted) {
+                    insertion.detached = true;
+                }
+            });
+        });
+    }
+
     /**
      * Executes the note prompts insertion.
      *
      * This method:
      * 1. Validates that editor and view are available
-     * 2. Generates prompts through the service
-     * 3. Formats and inserts prompts at the cursor position
-     * 4. Shows success feedback to the user
+     * 2. Records the insertion point before any async work
+     * 3. Generates prompts through the service, writing each into the note as it arrives
+     * 4. Places the cursor after the block and shows success feedback
+     *
+     * Nothing is inserted until the first prompt arrives, so a failed request
+     * leaves the note untouched.
+     *
+     * With context, the selected text (or the note, if nothing is selected)
+     * is sent along so the prompts build on it. The selection is kept and
+     * the prompts go after it. With vault material, sampled note titles,
+     * tags, and headings are sent along and referenced notes are linked.
      *
      * @param settings - Current plugin settings for generation parameters
      * @param editor - Active editor instance for text insertion
      * @param view - Active markdown view for context
+     * @param source - What the prompts are based on
      */
     async execute(
         settings: FreewritingPromptsSettings,
         editor: Editor,
-        view: MarkdownView
+        view: MarkdownView,
+        source: PromptSource = 'standalone'
     ): Promise<void> {
         if (!NotePromptsCommand.canExecute(editor, view)) {
             new Notice('No active note found. Please open a note first.');
             return;
         }
 
+        const sources: Pick<PromptRequest, 'context' | 'vaultReferences'> = {};
+        let sample: VaultSample | null = null;
+        if (source === 'context') {
+            sources.context = this.getContext(editor, settings.contextTokenBudget);
+            if (sources.context.length === 0) {
+                new Notice('Nothing to base prompts on. Write something or select text first.');
+                return;
+            }
+            // Insert after the selection instead of at its start
+            editor.setCursor(editor.getCursor('to'));
+        } else if (source === 'vault') {
+            sample = this.vaultSampler.sample(settings);
+            if (sample.files.length === 0) {
+                new Notice('No notes match the vault prompts folder and tag.');
+                return;
+            }
+            sources.vaultReferences = sample.references;
+        }
+        const sourcePath = view.file?.path ?? '';
+
+        const insertion = this.beginInsertion(editor);
+        const received: string[] = [];
+        let written = 0;
+
         try {
-            // Generate prompts
-            const prompts = await this.promptGenerator.generateNotePrompts(settings);
+            // Generate prompts, rendering the block again as each one arrives
+            const model = this.promptGenerator.getActiveModel(settings, 'note');
+            await this.promptGenerator.generateNotePrompts(settings, (prompt) => {
+                received.push(sample ? this.vaultSampler.linkReferences(prompt, sample, sourcePath) : prompt);
+                if (this.renderInsertion(insertion, received, settings, model)) {
+                    written = received.length;
+                }
+            }, sources);
 
-            if (prompts.length === 0) {
+            if (received.length === 0) {
                 new Notice('No prompts were generated');
                 return;
             }
 
-            // Format and insert prompts into the note
-            this.insertPromptsIntoNote(editor, prompts);
+            if (insertion.detached) {
+                new Notice(`Stopped adding prompts because the prompt block was edited. ${written} of ${received.length} prompts were added.`);
+                return;
+            }
 
-            new Notice(`Added ${prompts.length} writing prompts to your note`);
+            this.placeCursorAfter(insertion);
+
+            new Notice(`Added ${received.length} writing prompts to your note`);
 
         } catch (error) {
             console.error('Error executing note prompts command:', error);
             // Error handling is done in the service layer
+            // Prompts that already streamed in stay in the note
+            if (written > 0) {
+                this.placeCursorAfter(insertion);
+            }
+        } finally {
+            this.insertions.delete(insertion);
         }
     }
 
+    /**
+     * Inserts existing prompts at the cursor without generating new ones.
+     * Used to re-insert prompts from the history.
+     *
+     * @param editor - Active editor instance for text insertion
+     * @param prompts - Prompts to insert, formatted like generated ones
+     * @param settings - Current plugin settings with the note template
+     * @param model - Model that generated the prompts, empty if unknown
+     */
+    insertPrompts(editor: Editor, prompts: string[], settings: FreewritingPromptsSettings, model = ''): void {
+        if (prompts.length === 0) {
+            return;
+        }
+        const insertion = this.beginInsertion(editor);
+        this.renderInsertion(insertion, prompts, settings, model);
+        this.placeCursorAfter(insertion);
+        this.insertions.delete(insertion);
+    }
+
+    /**
+     * Inserts a single timed prompt at the cursor as a record of the session.
+     * Used by the timed prompts command when prompt logging is on.
+     *
+     * @param editor - Editor of the note being written in
+     * @param prompt - Prompt that just appeared
+     * @param label - Position of the prompt, e.g. "3/10"
+     * @param format - How the prompt is marked in the note
+     * @returns The inserted text, without surrounding newlines
+     */
+    logPrompt(editor: Editor, prompt: string, label: string, format: PromptLogFormat): string {
+        const insertion = this.beginInsertion(editor);
+        const block = this.formatLoggedPrompt(prompt, label, format);
+        this.writeBlock(insertion, block);
+        this.placeCursorAfter(insertion);
+        this.insertions.delete(insertion);
+        return block;
+    }
+
+    /**
+     * Formats prompts as markdown using the note template from the settings.
+     *
+     * The default template is:
+     * ```
+     * ## Writing Prompts (Jan 15, 2025, 02:30 PM)
+     *
+     * 1. [First prompt]
+     *
+     * 2. [Second prompt]
+     * ```
+     *
+     * Prompts are collapsed to a single line by the template renderer, so
+     * prompts with newlines can't break list or table formatting. Also used
+     * by the new note command, so new notes are formatted the same way.
+     *
+     * @param prompts - Array of prompt strings to format
+     * @param date - When the insertion began
+     * @param settings - Settings with the note template and profile
+     * @param model - Model that generated the prompts
+     * @returns Formatted markdown string ready for insertion
+     */
+    formatPrompts(prompts: string[], date: Date, settings: FreewritingPromptsSettings, model: string): string {
+        const profile = settings.profiles.find(p => p.id === settings.activeProfileId);
+        return renderPromptTemplate(getNoteTemplate(settings.noteTemplatePreset, settings.noteTemplate), {
+            prompts,
+            date: this.formatDate(date, { year: 'numeric', month: 'short', day: 'numeric' }),
+            time: this.formatDate(date, { hour: '2-digit', minute: '2-digit' }),
+            datetime: this.formatDate(date, { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }),
+            model,
+            profile: profile?.name ?? ''
+        });
+    }
+
     // MARK: - Private Methods
 
     /**
-     * Inserts formatted prompts into the note at the cursor position.
+     * Records where and how prompts will be inserted.
      *
      * This method handles several edge cases:
      * - Collapses any text selection before insertion
      * - Adds newline before if there's text before the cursor
      * - Adds newline after if there's text after the cursor or more lines below
-     * - Positions cursor at the end of inserted content
      *
      * The intelligent newline handling ensures prompts don't run into existing
      * text and maintains proper spacing in the document.
      *
+     * The insertion is tracked until the caller removes it from insertions.
+     *
      * @param editor - Editor instance for text manipulation
-     * @param prompts - Array of prompt strings to insert
+     * @returns Insertion state used by renderInsertion
      */
-    private insertPromptsIntoNote(editor: Editor, prompts: string[]): void {
+    private beginInsertion(editor: Editor): PromptInsertion {
         // Normalize to an insertion point (collapse any selection)
         const from = editor.getCursor('from');
         const to = editor.getCursor('to');
@@ -100,71 +300,195 @@ export class NotePromptsCommand {
         if (hasSelection) {
             editor.setCursor(from);
         }
-        const cursor = editor.getCursor(); // refreshed after collapse
-        const currentLine = editor.getLine(cursor.line) ?? '';
+        const offset = editor.posToOffset(editor.getCursor()); // refreshed after collapse
+
+        const insertion: PromptInsertion = {
+            editor,
+            from: offset,
+            to: offset,
+            prefix: '',
+            suffix: '',
+            startedAt: new Date(),
+            inserted: '',
+            writing: false,
+            detached: false
+        };
+        this.updateSeparators(insertion);
+        this.insertions.add(insertion);
+        return insertion;
+    }
+
+    /**
+     * Decides which newlines separate the block from the text around its start.
+     *
+     * @param insertion - Insertion whose separators to set
+     */
+    private updateSeparators(insertion: PromptInsertion): void {
+        const { editor } = insertion;
+        const position = editor.offsetToPos(insertion.from);
+        const currentLine = editor.getLine(position.line) ?? '';
 
-        const hasTextBefore = cursor.ch > 0 && currentLine.slice(0, cursor.ch).trim().length > 0;
-        const hasTextAfter = cursor.ch < currentLine.length && currentLine.slice(cursor.ch).trim().length > 0;
+        const hasTextBefore = position.ch > 0 && currentLine.slice(0, position.ch).trim().length > 0;
+        const hasTextAfter = position.ch < currentLine.length && currentLine.slice(position.ch).trim().length > 0;
 
-        // Format the prompts
-        const formattedPrompts = this.formatPrompts(prompts);
+        insertion.prefix = hasTextBefore ? '\n' : '';
+        insertion.suffix = hasTextAfter || position.line < editor.lastLine() ? '\n' : '';
+    }
 
-        // Prepare the content to insert
-        const lastLine = editor.lastLine();
-        let contentToInsert = '';
-        if (hasTextBefore) contentToInsert += '\n';
-        contentToInsert += formattedPrompts;
-        if (hasTextAfter || cursor.line < lastLine) contentToInsert += '\n';
+    /**
+     * Collects the text prompts should build on, within a token budget.
+     *
+     * Uses the selection if there is one, otherwise the note without its
+     * frontmatter. Text that doesn't fit is cut, keeping the writing just
+     * before the cursor, where the writer is most likely to continue, and
+     * filling any remaining budget with the text after it.
+     *
+     * @param editor - Editor of the note
+     * @param tokenBudget - Approximate number of tokens to send
+     * @returns Context text, empty if the note or selection is blank
+     */
+    private getContext(editor: Editor, tokenBudget: number): string {
+        const maxChars = tokenBudget * CHARS_PER_TOKEN;
+        const selection = editor.getSelection().trim();
+        if (selection.length > 0) {
+            return selection.length <= maxChars ? selection : `${selection.slice(0, maxChars).trimEnd()}…`;
+        }
 
-        // Insert the content at the cursor position
-        editor.replaceSelection(contentToInsert);
+        const text = editor.getValue();
+        const contentStart = getFrontMatterInfo(text).contentStart;
+        const cursor = Math.max(contentStart, editor.posToOffset(editor.getCursor()));
+        let before = text.slice(contentStart, cursor).trim();
+        let after = text.slice(cursor).trim();
 
-        // Position cursor at the end of the inserted content
-        const lines = contentToInsert.split('\n');
-        const newCursorLine = cursor.line + lines.length - 1;
-        const newCursorCh = lines[lines.length - 1].length;
+        if (before.length > maxChars) {
+            before = `…${before.slice(before.length - maxChars).trimStart()}`;
+            after = '';
+        } else if (before.length + after.length > maxChars) {
+            after = `${after.slice(0, maxChars - before.length).trimEnd()}…`;
+        }
+        return [before, after].filter(part => part.length > 0).join('\n\n');
+    }
 
-        editor.setCursor(newCursorLine, newCursorCh);
+    /**
+     * Replaces the insertion block with the prompts received so far.
+     *
+     * Re-rendering the whole block keeps the markdown well-formed at every
+     * step, whatever the formatting, instead of appending fragments.
+     *
+     * @param insertion - Insertion state from beginInsertion
+     * @param prompts - All prompts received so far
+     * @param settings - Settings with the note template and profile
+     * @param model - Model that generated the prompts
+     * @returns false if the block was edited and nothing was written
+     */
+    private renderInsertion(
+        insertion: PromptInsertion,
+        prompts: string[],
+        settings: FreewritingPromptsSettings,
+        model: string
+    ): boolean {
+        return this.writeBlock(insertion, this.formatPrompts(prompts, insertion.startedAt, settings, model));
     }
 
     /**
-     * Formats prompts as markdown with timestamp header and numbered list.
+     * Replaces the insertion block with formatted markdown, adding the
+     * newlines that separate it from the surrounding text.
      *
-     * The format is:
+     * The block's current text is compared with what was last written
+     * first; if the writer changed it, the block is detached and left as is.
+     * The separators are decided on the first write, since text typed before
+     * the first prompt arrived may have changed the surroundings.
+     *
+     * @param insertion - Insertion state from beginInsertion
+     * @param block - Formatted markdown to write
+     * @returns false if the block was edited and nothing was written
+     */
+    private writeBlock(insertion: PromptInsertion, block: string): boolean {
+        const { editor } = insertion;
+        const start = editor.offsetToPos(insertion.from);
+        const end = editor.offsetToPos(insertion.to);
+        if (insertion.detached || editor.getRange(start, end) !== insertion.inserted) {
+            insertion.detached = true;
+            return false;
+        }
+
+        if (insertion.inserted.length === 0) {
+            this.updateSeparators(insertion);
+        }
+        const content = insertion.prefix + block + insertion.suffix;
+        insertion.writing = true;
+        try {
+            editor.replaceRange(content, start, end);
+        } finally {
+            insertion.writing = false;
+        }
+        insertion.to = insertion.from + content.length;
+        insertion.inserted = content;
+        return true;
+    }
+
+    /**
+     * Positions the cursor at the end of the inserted content.
+     *
+     * @param insertion - Insertion state from beginInsertion
+     */
+    private placeCursorAfter(insertion: PromptInsertion): void {
+        if (insertion.detached) {
+            return;
+        }
+        insertion.editor.setCursor(insertion.editor.offsetToPos(insertion.to));
+    }
+
+    /**
+     * Formats a date in the user's locale.
+     *
+     * @param date - Date to format
+     * @param options - Parts of the date to include
+     * @returns Localized text (e.g., "Jan 15, 2025, 02:30 PM" with date and time)
+     */
+    private formatDate(date: Date, options: Intl.DateTimeFormatOptions): string {
+        // Let Intl pick the default environment locale automatically
+        return new Intl.DateTimeFormat(undefined, options).format(date);
+    }
+
+    /**
+     * Formats a logged timed prompt.
+     *
+     * The formats are:
      * ```
-     * ## Writing Prompts (Jan 15, 2025, 02:30 PM)
+     * > [!quote] Writing Prompt 3/10 (02:30 PM)
+     * > [Prompt]
      *
-     * 1. [First prompt]
+     * ### Writing Prompt 3/10 (02:30 PM)
      *
-     * 2. [Second prompt]
+     * [Prompt]
+     *
+     * %% Writing Prompt 3/10 (02:30 PM): [Prompt] %%
      * ```
      *
-     * The timestamp helps users track when prompts were generated, and the
-     * numbered list makes it easy to reference specific prompts.
+     * Every format ends with a blank line, so writing continues in a new
+     * paragraph instead of inside the callout.
      *
-     * @param prompts - Array of prompt strings to format
+     * @param prompt - Prompt text
+     * @param label - Position of the prompt, e.g. "3/10"
+     * @param format - How the prompt is marked in the note
      * @returns Formatted markdown string ready for insertion
      */
-    private formatPrompts(prompts: string[]): string {
-        // Let Intl pick the default environment locale automatically
-        const timestamp = new Intl.DateTimeFormat(undefined, {
-            year: 'numeric',
-            month: 'short',
-            day: 'numeric',
-            hour: '2-digit',
-            minute: '2-digit'
-        }).format(new Date());
-
-        let formatted = `## Writing Prompts (${timestamp})\n\n`;
-
-        prompts.forEach((prompt, index) => {
-            // Sanitize to single line: collapse whitespace and trim
-            // Prevents malformed prompts with newlines from breaking list formatting
-            const oneLine = String(prompt).replace(/\s+/g, ' ').trim();
-            formatted += `${index + 1}. ${oneLine}\n\n`;
-        });
+    private formatLoggedPrompt(prompt: string, label: string, format: PromptLogFormat): string {
+        const time = this.formatDate(new Date(), { hour: '2-digit', minute: '2-digit' });
+        const title = `Writing Prompt ${label} (${time})`;
+        const oneLine = String(prompt).replace(/\s+/g, ' ').trim();
 
-        return formatted;
+        switch (format) {
+            case 'heading':
+                return `### ${title}\n\n${oneLine}\n\n`;
+            case 'comment':
+                // A closing marker inside the prompt would end the comment early
+                return `%% ${title}: ${oneLine.replace(/%%/g, '%')} %%\n\n`;
+            case 'callout':
+            default:
+                return `> [!quote] ${title}\n> ${oneLine}\n\n`;
+        }
     }
 
     // MARK: - Utility Methods
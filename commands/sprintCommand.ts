@@ -0,0 +1,387 @@
+// ABOUTME: Pomodoro-style freewriting sprints built on timed prompts
+// ABOUTME: Alternates writing rounds and breaks, counts words per round, and writes a summary
+
+import { App, MarkdownView, normalizePath, Notice, TFile } from 'obsidian';
+import { TimedPromptsCommand } from './timedPrompts';
+import { appendToFile, getOrCreateFile } from '../services/vaultFiles';
+import { FreewritingPromptsSettings } from '../types';
+
+/**
+ * One writing round of a sprint.
+ */
+interface SprintRound {
+    /** Words in the note when the round started */
+    startWords: number;
+    /** Words added during the round, never negative */
+    words: number;
+    /** Prompts shown during the round, in order */
+    prompts: string[];
+    /** Words of the prompts logged into the note, left out of the count */
+    loggedWords: number;
+}
+
+/**
+ * State of the running sprint.
+ */
+interface SprintSession {
+    /** Note the sprint writes into and counts words in */
+    file: TFile;
+    /** Settings captured when the sprint started */
+    settings: FreewritingPromptsSettings;
+    /** When the sprint started, in milliseconds since the epoch */
+    startedAt: number;
+    /** Rounds started so far, the last one possibly still running */
+    rounds: SprintRound[];
+    /** Whether a round or a break is running */
+    phase: 'writing' | 'break';
+}
+
+/**
+ * Command handler for freewriting sprints.
+ *
+ * A sprint is a series of writing rounds separated by breaks. Each round
+ * runs the timed prompts command with the delay set so the prompts spread
+ * over the whole round. The word count of the note is taken at the start
+ * and end of every round; the difference is the round's word count.
+ *
+ * When the last round ends, or the sprint is stopped early, a markdown
+ * summary with the duration, words per round, and prompts used is appended
+ * to the note or to the sprint log file.
+ *
+ * Word counts read the open editor when the note is open, so unsaved text
+ * counts, and fall back to the file otherwise. Frontmatter isn't counted.
+ */
+export class SprintCommand {
+    /** The running sprint, null when none is running */
+    private session: SprintSession | null = null;
+    /** Timer ending the current round or break */
+    private phaseTimer: number | null = null;
+    /** Removes the status listener collecting the prompts shown */
+    private unsubscribe: (() => void) | null = null;
+
+    /**
+     * Creates a new sprint command handler.
+     *
+     * @param app - Obsidian app instance for reading notes and writing the summary
+     * @param timedCommand - Timed prompts command that shows the prompts of each round
+     */
+    constructor(private app: App, private timedCommand: TimedPromptsCommand) {}
+
+    // MARK: - Public Methods
+
+    /**
+     * Starts a sprint in the note of a view.
+     *
+     * @param settings - Current plugin settings with the sprint and prompt settings
+     * @param view - View of the note to write in
+     */
+    async start(settings: FreewritingPromptsSettings, view: MarkdownView): Promise<void> {
+        if (this.session) {
+            new Notice('A sprint is already running. Use "Stop freewriting sprint" to end it first.');
+            return;
+        }
+        if (!view.file) {
+            new Notice('Please open a note to write the sprint in.');
+            return;
+        }
+
+        this.session = {
+            file: view.file,
+            settings: { ...settings },
+            startedAt: Date.now(),
+            rounds: [],
+            phase: 'writing'
+        };
+        this.unsubscribe = this.timedCommand.addStatusListener(() => this.recordShownPrompt());
+
+        const breaks = settings.sprintBreakMinutes > 0 && settings.sprintRounds > 1
+            ? ` with ${settings.sprintBreakMinutes} minute breaks`
+            : '';
+        new Notice(`Sprint started: ${settings.sprintRounds} × ${settings.sprintRoundMinutes} minutes${breaks}, ${getSprintMinutes(settings)} minutes in total`);
+        await this.startRound();
+    }
+
+    /**
+     * Ends the running sprint early and writes its summary.
+     * The current round counts with the words written so far.
+     *
+     * @returns true if a sprint was running
+     */
+    async stop(): Promise<boolean> {
+        const session = this.session;
+        if (!session) {
+            return false;
+        }
+
+        this.clearPhaseTimer();
+        if (session.phase === 'writing') {
+            await this.finishRound(session);
+        }
+        await this.finish(session);
+        return true;
+    }
+
+    /**
+     * Discards the running sprint without writing a summary.
+     * Called when the plugin unloads.
+     */
+    cancel(): void {
+        this.clearPhaseTimer();
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        if (this.session?.phase === 'writing') {
+            this.timedCommand.stop();
+        }
+        this.session = null;
+    }
+
+    /**
+     * Checks whether a sprint is running, including its breaks.
+     *
+     * @returns true if a sprint is running
+     */
+    isRunning(): boolean {
+        return this.session !== null;
+    }
+
+    // MARK: - Private Methods
+
+    /**
+     * Starts the next writing round and its timed prompts.
+     */
+    private async startRound(): Promise<void> {
+        const session = this.session;
+        if (!session) {
+            return;
+        }
+
+        const startWords = await this.countWords(session.file);
+        if (this.session !== session) {
+            return;
+        }
+
+        const { settings } = session;
+        const roundMs = settings.sprintRoundMinutes * 60 * 1000;
+        session.rounds.push({ startWords, words: 0, prompts: [], loggedWords: 0 });
+        session.phase = 'writing';
+        this.phaseTimer = window.setTimeout(() => {
+            this.phaseTimer = null;
+            void this.endRound();
+        }, roundMs);
+
+        new Notice(`Round ${session.rounds.length} of ${settings.sprintRounds}: write for ${settings.sprintRoundMinutes} minutes`);
+
+        // Spread the prompts evenly over the round
+        const delaySeconds = Math.max(1, Math.floor(roundMs / 1000 / settings.timedCount));
+        void this.timedCommand.execute({ ...settings, delaySeconds, pacingMode: 'fixed' });
+    }
+
+    /**
+     * Ends the current round, then starts a break or finishes the sprint.
+     */
+    private async endRound(): Promise<void> {
+        const session = this.session;
+        if (!session) {
+            return;
+        }
+
+        await this.finishRound(session);
+        if (this.session !== session) {
+            return;
+        }
+
+        const { settings } = session;
+        const round = session.rounds[session.rounds.length - 1];
+        if (session.rounds.length >= settings.sprintRounds) {
+            await this.finish(session);
+        } else if (settings.sprintBreakMinutes > 0) {
+            session.phase = 'break';
+            new Notice(`Round ${session.rounds.length} done: ${round.words} words. Take a ${settings.sprintBreakMinutes} minute break.`);
+            this.phaseTimer = window.setTimeout(() => {
+                this.phaseTimer = null;
+                void this.startRound();
+            }, settings.sprintBreakMinutes * 60 * 1000);
+        } else {
+            await this.startRound();
+        }
+    }
+
+    /**
+     * Stops the round's prompts and records the words written,
+     * leaving out prompts logged into the note.
+     *
+     * @param session - Sprint whose last round ends
+     */
+    private async finishRound(session: SprintSession): Promise<void> {
+        this.recordShownPrompt();
+        this.timedCommand.stop();
+        session.phase = 'break';
+        const round = session.rounds[session.rounds.length - 1];
+        if (round) {
+            round.words = Math.max(0, await this.countWords(session.file) - round.startWords - round.loggedWords);
+        }
+    }
+
+    /**
+     * Ends the sprint and writes its summary.
+     *
+     * @param session - Sprint to finish
+     */
+    private async finish(session: SprintSession): Promise<void> {
+        this.cancel();
+
+        const totalWords = session.rounds.reduce((sum, round) => sum + round.words, 0);
+        try {
+            await this.writeSummary(session, Date.now());
+            new Notice(`Sprint finished: ${totalWords} words in ${session.rounds.length} ${session.rounds.length === 1 ? 'round' : 'rounds'}`);
+        } catch (error) {
+            console.error('Failed to write sprint summary:', error);
+            new Notice(`Sprint finished: ${totalWords} words. Could not write the summary.`);
+        }
+    }
+
+    /**
+     * Adds the prompt on screen to the current round if it's new, and
+     * remembers how many words the timed prompts logged into the note.
+     * Called on every status change of the timed prompts command.
+     *
+     * The logged text is cleared when the prompts finish before the round
+     * ends, so the largest count seen is kept.
+     */
+    private recordShownPrompt(): void {
+        if (this.session?.phase !== 'writing') {
+            return;
+        }
+        const round = this.session.rounds[this.session.rounds.length - 1];
+        if (!round) {
+            return;
+        }
+        const prompt = this.timedCommand.getCurrentPrompt();
+        if (prompt && !round.prompts.includes(prompt)) {
+            round.prompts.push(prompt);
+        }
+        round.loggedWords = Math.max(round.loggedWords, countWords(this.timedCommand.getLoggedText()));
+    }
+
+    /**
+     * Appends the sprint summary to the note or the sprint log.
+     *
+     * @param session - Finished sprint
+     * @param endedAt - When the sprint ended, in milliseconds since the epoch
+     */
+    private async writeSummary(session: SprintSession, endedAt: number): Promise<void> {
+        const { vault } = this.app;
+        if (session.settings.sprintSummaryTarget === 'note') {
+            await appendToFile(vault, session.file, this.formatSummary(session, endedAt, null));
+            return;
+        }
+
+        const base = session.settings.sprintLogPath.trim() || 'Freewriting sprints';
+        const path = normalizePath(base.toLowerCase().endsWith('.md') ? base : `${base}.md`);
+        const logFile = await getOrCreateFile(vault, path, '# Freewriting sprints\n');
+        const link = this.app.fileManager.generateMarkdownLink(session.file, logFile.path);
+        await appendToFile(vault, logFile, this.formatSummary(session, endedAt, link));
+    }
+
+    /**
+     * Formats the sprint summary as markdown.
+     *
+     * The format is:
+     * ```
+     * ## Freewriting sprint (Jan 15, 2025, 02:30 PM)
+     *
+     * - Rounds: 3 of 3
+     * - Duration: 55 minutes
+     * - Words: 1204
+     *
+     * ### Round 1: 412 words
+     *
+     * 1. [First prompt]
+     * ```
+     *
+     * @param session - Finished sprint
+     * @param endedAt - When the sprint ended, in milliseconds since the epoch
+     * @param noteLink - Link to the note, included when the summary goes to the log
+     * @returns Markdown summary
+     */
+    private formatSummary(session: SprintSession, endedAt: number, noteLink: string | null): string {
+        const timestamp = new Intl.DateTimeFormat(undefined, {
+            year: 'numeric',
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit'
+        }).format(new Date(session.startedAt));
+        const minutes = Math.max(1, Math.round((endedAt - session.startedAt) / 60000));
+        const totalWords = session.rounds.reduce((sum, round) => sum + round.words, 0);
+
+        let summary = `## Freewriting sprint (${timestamp})\n\n`;
+        if (noteLink) {
+            summary += `- Note: ${noteLink}\n`;
+        }
+        summary += `- Rounds: ${session.rounds.length} of ${session.settings.sprintRounds}\n`;
+        summary += `- Duration: ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}\n`;
+        summary += `- Words: ${totalWords}\n`;
+
+        session.rounds.forEach((round, index) => {
+            summary += `\n### Round ${index + 1}: ${round.words} ${round.words === 1 ? 'word' : 'words'}\n\n`;
+            if (round.prompts.length === 0) {
+                summary += 'No prompts shown.\n';
+            }
+            round.prompts.forEach((prompt, promptIndex) => {
+                summary += `${promptIndex + 1}. ${prompt.replace(/\s+/g, ' ').trim()}\n`;
+            });
+        });
+
+        return summary;
+    }
+
+    /**
+     * Counts the words of a note, preferring an open editor's unsaved text.
+     *
+     * @param file - Note to count
+     * @returns Number of words, excluding frontmatter
+     */
+    private async countWords(file: TFile): Promise<number> {
+        const view = this.app.workspace.getLeavesOfType('markdown')
+            .map(leaf => leaf.view)
+            .find(v => v instanceof MarkdownView && v.file?.path === file.path);
+        const text = view instanceof MarkdownView
+            ? view.editor.getValue()
+            : await this.app.vault.cachedRead(file);
+        return countWords(text);
+    }
+
+    /**
+     * Cancels the timer ending the current round or break.
+     */
+    private clearPhaseTimer(): void {
+        if (this.phaseTimer !== null) {
+            window.clearTimeout(this.phaseTimer);
+            this.phaseTimer = null;
+        }
+    }
+}
+
+/**
+ * Calculates how long a sprint runs: all rounds plus the breaks between them.
+ * No break follows the last round.
+ *
+ * @param settings - Settings with the sprint rounds and durations
+ * @returns Total sprint length in minutes
+ */
+export function getSprintMinutes(settings: Pick<FreewritingPromptsSettings, 'sprintRounds' | 'sprintRoundMinutes' | 'sprintBreakMinutes'>): number {
+    return settings.sprintRounds * settings.sprintRoundMinutes
+        + (settings.sprintRounds - 1) * settings.sprintBreakMinutes;
+}
+
+/**
+ * Counts whitespace-separated words, ignoring YAML frontmatter.
+ *
+ * @param text - Note content
+ * @returns Number of words
+ */
+function countWords(text: string): number {
+    const body = text.replace(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/, '');
+    return body.match(/\S+/g)?.length ?? 0;
+}
@@ -1,9 +1,25 @@
 // ABOUTME: Timed prompts command implementation that shows prompts as timed notifications
 // ABOUTME: Manages interval-based prompt display with proper cleanup and error handling
 
-import { Notice } from 'obsidian';
+import { App, MarkdownView, Notice } from 'obsidian';
+import { NotePromptsCommand } from './notePrompts';
+import { FeedbackService } from '../services/feedbackService';
 import { PromptGeneratorService } from '../services/promptGenerator';
-import { FreewritingPromptsSettings } from '../types';
+import { FreewritingPromptsSettings, PacingMode, PromptLogFormat, TimedPromptsStatus } from '../types';
+
+/**
+ * Pacing of a running sequence, captured from the settings when it starts.
+ */
+interface PacingOptions {
+    /** Fixed delay or adaptive to typing */
+    mode: PacingMode;
+    /** Adaptive: milliseconds without typing that count as a pause */
+    idleMs: number;
+    /** Adaptive: minimum milliseconds a prompt stays */
+    minDelayMs: number;
+    /** Adaptive: maximum milliseconds a prompt stays */
+    maxDelayMs: number;
+}
 
 /**
  * Command handler for displaying timed writing prompts as notifications.
@@ -13,31 +29,90 @@ import { FreewritingPromptsSettings } from '../types';
  * creative flow.
  *
  * Key responsibilities:
- * - Generates a queue of prompts upfront (prevents race conditions)
- * - Displays prompts as timed Obsidian notifications
- * - Manages window.setInterval for timed display
+ * - Fills a queue of prompts as they stream in, showing the first immediately
+ * - Displays prompts as timed Obsidian notifications with favorite/block buttons
+ * - Schedules each prompt with window.setTimeout so the sequence can be
+ *   paused (keeping the remaining time), skipped forward, or stepped back
+ * - Optionally paces prompts by typing activity: after the minimum delay,
+ *   the next prompt waits for a pause in typing, up to the maximum delay
+ * - Optionally logs each prompt into the note the session started in, at
+ *   the cursor, the first time it appears
  * - Prevents concurrent executions with inProgress flag
  * - Provides proper cleanup to prevent memory leaks
  *
- * The notification duration is calibrated to avoid overlap - each notification
- * disappears 500ms before the next one appears for a clean transition.
+ * With a fixed delay, the notification duration is calibrated to avoid
+ * overlap - each notification disappears 500ms before the next one appears
+ * for a clean transition. With adaptive pacing, the notification stays until
+ * the next prompt replaces it.
  */
 export class TimedPromptsCommand {
-    /** Active interval ID from window.setInterval, null when not running */
-    private activeInterval: number | null = null;
+    /** Timer from window.setTimeout that advances to the next prompt, null when none is pending */
+    private activeTimer: number | null = null;
+    /** When the pending timer was started, in milliseconds since the epoch */
+    private timerStartedAt = 0;
+    /** Duration of the pending timer in milliseconds */
+    private timerDurationMs = 0;
+    /** Time left before the next prompt while paused, null when not paused */
+    private pausedRemainingMs: number | null = null;
+    /** Whether a sequence is active: showing, waiting for prompts, or paused */
+    private running = false;
+    /** Seconds between prompts for the current sequence */
+    private delaySeconds = 0;
+    /** Pacing of the current sequence */
+    private pacing: PacingOptions = { mode: 'fixed', idleMs: 0, minDelayMs: 0, maxDelayMs: 0 };
+    /** Last time the writer typed, in milliseconds since the epoch */
+    private lastActivityAt = 0;
+    /** When the current prompt appeared, for the adaptive maximum */
+    private promptShownAt = 0;
+    /** How long the current prompt had been shown when the sequence was paused */
+    private shownBeforePauseMs = 0;
+    /** Whether the next prompt is held back because the writer is typing */
+    private holdingForPause = false;
+    /** Notice showing the current prompt, hidden when skipping to another one */
+    private currentNotice: Notice | null = null;
     /** Queue of prompts to display, loaded at command start */
     private promptQueue: string[] = [];
     /** Index of the currently displayed or next-to-display prompt */
     private currentIndex = 0;
     /** Flag preventing concurrent command execution */
     private inProgress = false;
+    /** Whether prompts are still streaming in for the current session */
+    private isGenerating = false;
+    /** Number of prompts requested, used as the total until generation finishes */
+    private expectedTotal = 0;
+    /** Set when the timer fired before the next prompt had arrived */
+    private awaitingNext = false;
+    /** Incremented on every stop so late stream callbacks from old sessions are ignored */
+    private sessionToken = 0;
+    /** Why the last generation failed, shown by the status bar */
+    private lastError: string | null = null;
+    /** Receive the status after every change, used by the status bar and session view */
+    private statusListeners = new Set<(status: TimedPromptsStatus) => void>();
+    /** Whether prompts are shown as notices; off when the session view shows them */
+    private showNotices = true;
+    /** Path of the note prompts are logged into, null when logging is off */
+    private logTarget: string | null = null;
+    /** How logged prompts are formatted */
+    private logFormat: PromptLogFormat = 'callout';
+    /** Queue indexes already logged, so going back doesn't log a prompt twice */
+    private loggedIndexes = new Set<number>();
+    /** Text logged into the note during this session */
+    private loggedText = '';
 
     /**
      * Creates a new timed prompts command handler.
      *
+     * @param app - Obsidian app instance for finding the note prompts are logged into
      * @param promptGenerator - Service for generating prompts from the API
+     * @param feedback - Favorites and blocklist updated from the notice buttons
+     * @param noteCommand - Note prompts command whose insertion logic logs prompts
      */
-    constructor(private promptGenerator: PromptGeneratorService) {}
+    constructor(
+        private app: App,
+        private promptGenerator: PromptGeneratorService,
+        private feedback: FeedbackService,
+        private noteCommand: NotePromptsCommand
+    ) {}
 
     // MARK: - Public Methods
 
@@ -47,9 +122,9 @@ export class TimedPromptsCommand {
      * This method:
      * 1. Prevents race conditions by checking inProgress flag
      * 2. Stops any existing timed sequence
-     * 3. Generates all prompts upfront to avoid async issues during intervals
-     * 4. Shows the first prompt immediately
-     * 5. Starts an interval to show remaining prompts
+     * 3. Requests prompts, receiving each one as soon as it's generated
+     * 4. Shows the first prompt the moment it arrives and starts the timer
+     * 5. Queues later prompts so the timer can show them in order
      *
      * The inProgress flag prevents concurrent executions during async prompt
      * generation. It's set to true before any async work begins and reset to
@@ -71,42 +146,70 @@ export class TimedPromptsCommand {
         // Stop any existing timed sequence (does NOT reset inProgress)
         this.stop();
 
-        
+        const session = this.sessionToken;
+        this.expectedTotal = settings.timedCount;
+        this.configureSequence(settings);
+        this.isGenerating = true;
+        this.notifyStatusChange();
+
         try {
-            // Generate prompts
-            const prompts = await this.promptGenerator.generateTimedPrompts(settings);
+            // Generate prompts, displaying each as soon as it arrives
+            const prompts = await this.promptGenerator.generateTimedPrompts(settings, (prompt) => {
+                if (session === this.sessionToken) {
+                    this.enqueuePrompt(prompt);
+                }
+            });
 
-            if (prompts.length === 0) {
+            if (session === this.sessionToken && prompts.length === 0) {
                 new Notice('No prompts were generated');
-                return;
-            }
-
-            // Initialize the prompt queue
-            this.promptQueue = prompts;
-            this.currentIndex = 0;
-
-            // Show the first prompt immediately
-            this.showCurrentPrompt(settings.delaySeconds);
-
-            // If there are more prompts, start the interval
-            if (prompts.length > 1) {
-                this.startInterval(settings.delaySeconds);
             }
 
         } catch (error) {
             console.error('Error executing timed prompts command:', error);
             // Error handling is done in the service layer
+            // Any prompts that already arrived keep playing
+            if (session === this.sessionToken) {
+                this.lastError = 'Prompt generation failed';
+            }
         } finally {
+            if (session === this.sessionToken) {
+                this.isGenerating = false;
+                // The timer may be waiting for a prompt that will never come;
+                // a paused sequence finishes when it's resumed
+                if (this.awaitingNext && !this.isPaused()) {
+                    this.complete();
+                }
+                this.notifyStatusChange();
+            }
             // Reset flag after all work completes (success or failure)
             // This ensures the flag is always reset and prevents stuck state
             this.inProgress = false;
         }
     }
 
+    /**
+     * Replays existing prompts as a timed sequence without generating new ones.
+     * Used to re-run a session from the history.
+     *
+     * @param prompts - Prompts to show, in order
+     * @param settings - Current plugin settings for the display interval
+     */
+    replay(prompts: string[], settings: FreewritingPromptsSettings): void {
+        if (this.inProgress) {
+            new Notice('Timed prompts are already being generated. Please wait.');
+            return;
+        }
+
+        this.stop();
+        this.expectedTotal = prompts.length;
+        this.configureSequence(settings);
+        prompts.forEach(prompt => this.enqueuePrompt(prompt));
+    }
+
     /**
      * Stops the currently running timed prompts sequence.
      *
-     * Cleans up the interval timer and resets all state. This is important
+     * Cleans up the timer and resets all state. This is important
      * for preventing memory leaks and ensuring the next execution starts fresh.
      * Safe to call even when no sequence is running.
      *
@@ -114,80 +217,362 @@ export class TimedPromptsCommand {
      * prevent race conditions during async prompt generation.
      */
     stop(): void {
-        if (this.activeInterval !== null) {
-            clearInterval(this.activeInterval);
-            this.activeInterval = null;
-        }
+        this.clearActiveTimer();
+        this.currentNotice?.hide();
+        this.currentNotice = null;
+        this.running = false;
+        this.pausedRemainingMs = null;
+        this.holdingForPause = false;
         this.promptQueue = [];
         this.currentIndex = 0;
+        this.awaitingNext = false;
+        this.isGenerating = false;
+        this.lastError = null;
+        this.loggedIndexes.clear();
+        this.loggedText = '';
+        // Invalidate callbacks from a stream that is still running
+        this.sessionToken++;
         // inProgress is NOT reset here - only execute() manages this flag
+        this.notifyStatusChange();
     }
 
     /**
      * Checks whether a timed prompts sequence is currently running.
+     * A paused sequence still counts as running.
      *
-     * @returns true if prompts are being displayed on an interval, false otherwise
+     * @returns true if prompts are being displayed or paused, false otherwise
      */
     isRunning(): boolean {
-        return this.activeInterval !== null;
+        return this.running;
+    }
+
+    /**
+     * Checks whether the running sequence is paused.
+     *
+     * @returns true if the sequence is paused, false otherwise
+     */
+    isPaused(): boolean {
+        return this.pausedRemainingMs !== null;
+    }
+
+    /**
+     * Pauses the sequence, keeping the time left before the next prompt.
+     *
+     * @returns true if the sequence was paused, false if it wasn't running or already paused
+     */
+    pause(): boolean {
+        if (!this.running || this.isPaused()) {
+            return false;
+        }
+
+        const now = Date.now();
+        this.pausedRemainingMs = this.activeTimer !== null ? Math.max(0, this.timerDurationMs - (now - this.timerStartedAt)) : 0;
+        this.shownBeforePauseMs = now - this.promptShownAt;
+        this.clearActiveTimer();
+        this.notifyStatusChange();
+        return true;
+    }
+
+    /**
+     * Resumes a paused sequence.
+     *
+     * Shows the current prompt again and moves on after the time that was
+     * left when the sequence was paused.
+     *
+     * @returns true if the sequence was resumed, false if it wasn't paused
+     */
+    resume(): boolean {
+        if (this.pausedRemainingMs === null) {
+            return false;
+        }
+
+        const remainingMs = this.pausedRemainingMs;
+        this.pausedRemainingMs = null;
+
+        if (this.awaitingNext) {
+            // The timer had already fired; continue as if it fired now
+            this.awaitingNext = false;
+            this.advance();
+        } else {
+            this.showCurrentPrompt(this.pacing.mode === 'adaptive' ? undefined : remainingMs);
+            // Time spent paused doesn't count toward the adaptive maximum
+            this.promptShownAt = Date.now() - this.shownBeforePauseMs;
+            this.scheduleNext(remainingMs);
+        }
+        return true;
+    }
+
+    /**
+     * Skips to the next prompt and restarts the delay.
+     *
+     * Skipping past the last prompt ends the sequence. While paused, the
+     * sequence stays paused with a full delay before the following prompt.
+     */
+    next(): void {
+        if (this.currentIndex + 1 < this.promptQueue.length) {
+            this.showPromptAt(this.currentIndex + 1);
+        } else if (this.isGenerating) {
+            new Notice('The next prompt is still being generated');
+        } else {
+            this.complete();
+        }
+    }
+
+    /**
+     * Records that the writer typed, for adaptive pacing.
+     * Called on every editor change; cheap enough to ignore when idle.
+     */
+    recordActivity(): void {
+        this.lastActivityAt = Date.now();
+    }
+
+    /**
+     * Jumps to any prompt in the queue and restarts the delay.
+     *
+     * @param index - Queue index of the prompt to show
+     */
+    jumpTo(index: number): void {
+        if (this.running && index >= 0 && index < this.promptQueue.length) {
+            this.showPromptAt(index);
+        }
+    }
+
+    /**
+     * Goes back to the previous prompt and restarts the delay.
+     *
+     * While paused, the sequence stays paused with a full delay before the
+     * following prompt.
+     */
+    previous(): void {
+        if (this.currentIndex === 0) {
+            new Notice('This is the first prompt');
+            return;
+        }
+        this.showPromptAt(this.currentIndex - 1);
     }
 
     // MARK: - Private Methods
 
     /**
-     * Starts the interval timer for displaying subsequent prompts.
+     * Adds a newly generated prompt to the queue.
+     *
+     * The first prompt is shown immediately and starts the timer. If the
+     * timer already fired while waiting for this prompt, it's shown right
+     * away with a full display period, unless the sequence is paused.
+     *
+     * @param prompt - Prompt text that just arrived
+     */
+    private enqueuePrompt(prompt: string): void {
+        this.promptQueue.push(prompt);
+
+        if (this.promptQueue.length === 1) {
+            this.running = true;
+            this.currentIndex = 0;
+            this.showCurrentPrompt();
+            this.scheduleNext(this.getPromptDelayMs());
+        } else if (this.awaitingNext && !this.isPaused()) {
+            this.awaitingNext = false;
+            this.advance();
+        } else {
+            // Let the session view list the new prompt
+            this.notifyStatusChange();
+        }
+    }
+
+    /**
+     * Starts the timer for the next prompt.
+     *
+     * @param delayMs - Milliseconds until the next prompt
+     */
+    private scheduleNext(delayMs: number): void {
+        this.clearActiveTimer();
+        this.timerStartedAt = Date.now();
+        this.timerDurationMs = delayMs;
+        this.activeTimer = window.setTimeout(() => {
+            this.activeTimer = null;
+            this.onTimerFired();
+        }, delayMs);
+        this.notifyStatusChange();
+    }
+
+    /**
+     * Advances when the timer fires, unless adaptive pacing holds the prompt.
+     */
+    private onTimerFired(): void {
+        const holdMs = this.getHoldTime();
+        if (holdMs > 0) {
+            // Check again once the writer may have paused
+            this.holdingForPause = true;
+            this.scheduleNext(holdMs);
+            return;
+        }
+        this.advance();
+    }
+
+    /**
+     * Computes how much longer adaptive pacing holds the current prompt.
+     *
+     * The prompt is held while the writer typed within the last idleMs,
+     * but never past maxDelayMs after it appeared.
+     *
+     * @returns Milliseconds to wait before checking again, 0 to advance now
+     */
+    private getHoldTime(): number {
+        if (this.pacing.mode !== 'adaptive') {
+            return 0;
+        }
+        const now = Date.now();
+        const untilMaximum = this.pacing.maxDelayMs - (now - this.promptShownAt);
+        const untilPause = this.pacing.idleMs - (now - this.lastActivityAt);
+        if (untilMaximum <= 0 || untilPause <= 0) {
+            return 0;
+        }
+        return Math.min(untilMaximum, untilPause);
+    }
+
+    /**
+     * Captures display and pacing settings for a new sequence.
      *
-     * The timer increments the current index and displays the next prompt
-     * until the queue is exhausted. Automatically stops and shows a completion
-     * notice when all prompts have been displayed.
+     * @param settings - Current plugin settings
+     */
+    private configureSequence(settings: FreewritingPromptsSettings): void {
+        this.delaySeconds = settings.delaySeconds;
+        this.showNotices = !settings.useSessionView;
+        this.logTarget = settings.logTimedPrompts ? this.findNotePath() : null;
+        this.logFormat = settings.promptLogFormat;
+        this.pacing = {
+            mode: settings.pacingMode,
+            idleMs: settings.idleSeconds * 1000,
+            minDelayMs: settings.minDelaySeconds * 1000,
+            maxDelayMs: Math.max(settings.minDelaySeconds, settings.maxDelaySeconds) * 1000
+        };
+    }
+
+    /**
+     * Returns the time before the next prompt can appear.
      *
-     * @param delaySeconds - Seconds to wait between each prompt display
+     * @returns The fixed delay, or the adaptive minimum, in milliseconds
      */
-    private startInterval(delaySeconds: number): void {
-        this.activeInterval = window.setInterval(() => {
+    private getPromptDelayMs(): number {
+        return this.pacing.mode === 'adaptive' ? this.pacing.minDelayMs : this.delaySeconds * 1000;
+    }
+
+    /**
+     * Moves to the next queued prompt when the timer fires.
+     *
+     * If the next prompt is still being generated, marks the sequence as
+     * waiting and enqueuePrompt shows it on arrival. Stops and shows a
+     * completion notice when all prompts have been displayed.
+     */
+    private advance(): void {
+        if (this.currentIndex + 1 < this.promptQueue.length) {
             this.currentIndex++;
+            this.showCurrentPrompt();
+            this.scheduleNext(this.getPromptDelayMs());
+        } else if (this.isGenerating) {
+            // Next prompt hasn't streamed in yet
+            this.awaitingNext = true;
+            this.notifyStatusChange();
+        } else {
+            // We've shown all prompts, end the sequence
+            this.complete();
+        }
+    }
 
-            if (this.currentIndex < this.promptQueue.length) {
-                this.showCurrentPrompt(delaySeconds);
-            } else {
-                // We've shown all prompts, stop the interval
-                this.stop();
-                new Notice('All prompts have been shown');
-            }
-        }, delaySeconds * 1000);
+    /**
+     * Shows the prompt at an index and restarts the delay, for skipping.
+     *
+     * @param index - Queue index of the prompt to show
+     */
+    private showPromptAt(index: number): void {
+        const delayMs = this.getPromptDelayMs();
+        this.currentIndex = index;
+        this.awaitingNext = false;
+        this.showCurrentPrompt();
+
+        if (this.isPaused()) {
+            this.pausedRemainingMs = delayMs;
+            this.notifyStatusChange();
+        } else {
+            this.scheduleNext(delayMs);
+        }
+    }
+
+    /**
+     * Ends the sequence after the last prompt and notifies the user.
+     */
+    private complete(): void {
+        this.stop();
+        new Notice('All prompts have been shown');
+    }
+
+    /**
+     * Clears the pending timer without touching the queue.
+     */
+    private clearActiveTimer(): void {
+        if (this.activeTimer !== null) {
+            window.clearTimeout(this.activeTimer);
+            this.activeTimer = null;
+        }
+    }
+
+    /**
+     * Returns the total number of prompts for progress display.
+     *
+     * While prompts are still streaming in, the requested count is the best
+     * estimate; once generation finishes, the actual queue length is used.
+     *
+     * @returns Total prompts in the current sequence
+     */
+    private getTotalPrompts(): number {
+        return this.isGenerating
+            ? Math.max(this.expectedTotal, this.promptQueue.length)
+            : this.promptQueue.length;
     }
 
     /**
      * Displays the current prompt as an Obsidian notice.
      *
      * The notification includes:
-     * - Current position in sequence (e.g., "3/10")
+     * - Current position in sequence (e.g., "3/10") and whether it's paused
      * - The prompt text
+     * - Buttons to favorite or block the prompt
      * - Custom CSS class for potential styling
      *
      * Notification duration is calibrated to avoid overlap with the next prompt,
      * disappearing 500ms before the next one arrives for smooth transitions.
+     * The previous prompt's notice is hidden so skipping never stacks notices.
+     * No notice is shown when the session view displays the prompts instead.
      *
-     * @param delaySeconds - Delay setting used to calculate notification duration
+     * @param displayMs - Time until the next prompt, used to calculate notification duration;
+     *   defaults to the fixed delay, or the adaptive maximum
      */
-    private showCurrentPrompt(delaySeconds: number): void {
-        if (this.currentIndex < this.promptQueue.length) {
+    private showCurrentPrompt(displayMs?: number): void {
+        this.promptShownAt = Date.now();
+        this.holdingForPause = false;
+        this.logCurrentPrompt();
+
+        if (this.showNotices && this.currentIndex < this.promptQueue.length) {
             const prompt = this.promptQueue[this.currentIndex];
             const promptNumber = this.currentIndex + 1;
-            const totalPrompts = this.promptQueue.length;
+            const totalPrompts = this.getTotalPrompts();
 
             // Calculate notification duration: slightly less than delay to avoid overlap
             // For delays >=1s, end 500ms before next tick
             // For delays <1s, use 900ms or delay-100ms (whichever is smaller)
             // Clamp to minimum 300ms to prevent flicker/invisible notices
-            const delayMs = Math.max(0, delaySeconds * 1000);
+            const delayMs = Math.max(0, displayMs ?? (this.pacing.mode === 'adaptive' ? this.pacing.maxDelayMs : this.delaySeconds * 1000));
             const notificationDuration =
                 delayMs >= 1000 ? (delayMs - 500) : Math.max(300, Math.min(900, delayMs - 100));
 
+            const state = this.isPaused() ? ' (paused)' : '';
+
+            this.currentNotice?.hide();
             const notice = new Notice(
-                `Writing Prompt ${promptNumber}/${totalPrompts}:\n\n${prompt}`,
+                this.buildPromptMessage(`Writing Prompt ${promptNumber}/${totalPrompts}${state}:\n\n${prompt}`, prompt),
                 notificationDuration
             );
+            this.currentNotice = notice;
 
             // Add CSS class for styling
             const noticeEl = notice.messageEl;
@@ -197,27 +582,177 @@ export class TimedPromptsCommand {
         }
     }
 
+    /**
+     * Finds the note the writer is working in when a session starts.
+     *
+     * The session view may already have focus when the session starts, so
+     * the most recent leaf of the main area is used if no note is active.
+     *
+     * @returns Path of the note, or null if none is open
+     */
+    private findNotePath(): string | null {
+        const { view } = NotePromptsCommand.getExecutionContext(this.app);
+        const recent = this.app.workspace.getMostRecentLeaf()?.view;
+        const note = view ?? (recent instanceof MarkdownView ? recent : null);
+        return note?.file?.path ?? null;
+    }
+
+    /**
+     * Inserts the current prompt into the logged note, once per prompt.
+     *
+     * Skipped when the note has been closed; the session keeps running.
+     */
+    private logCurrentPrompt(): void {
+        if (this.logTarget === null || this.currentIndex >= this.promptQueue.length || this.loggedIndexes.has(this.currentIndex)) {
+            return;
+        }
+
+        const view = this.app.workspace.getLeavesOfType('markdown')
+            .map(leaf => leaf.view)
+            .find(v => v instanceof MarkdownView && v.file?.path === this.logTarget);
+        if (!(view instanceof MarkdownView)) {
+            return;
+        }
+
+        this.loggedIndexes.add(this.currentIndex);
+        const label = `${this.currentIndex + 1}/${this.getTotalPrompts()}`;
+        const block = this.noteCommand.logPrompt(view.editor, this.promptQueue[this.currentIndex], label, this.logFormat);
+        this.loggedText += `${block}\n`;
+    }
+
+    /**
+     * Builds the notice content with favorite and block buttons.
+     *
+     * @param message - Text shown in the notice
+     * @param prompt - Prompt the buttons act on
+     * @returns Notice content
+     */
+    private buildPromptMessage(message: string, prompt: string): DocumentFragment {
+        const fragment = document.createDocumentFragment();
+        fragment.createDiv({ text: message });
+
+        const actions = fragment.createDiv({ cls: 'freewriting-prompt-actions' });
+        const favoriteButton = actions.createEl('button', {
+            text: this.feedback.isFavorite(prompt) ? '★ Favorite' : '☆ Favorite'
+        });
+        favoriteButton.addEventListener('click', (event) => {
+            // Keep the notice open so the new state is visible
+            event.stopPropagation();
+            void this.feedback.toggleFavorite(prompt).then(isFavorite => {
+                favoriteButton.setText(isFavorite ? '★ Favorite' : '☆ Favorite');
+            });
+        });
+        actions.createEl('button', { text: 'Never again' }).addEventListener('click', () => {
+            // Only block: a prompt replayed from history may already be blocked
+            if (this.feedback.isBlocked(prompt)) {
+                new Notice('Prompt already blocked');
+                return;
+            }
+            void this.feedback.toggleBlocked(prompt).then(() => new Notice('Prompt blocked'));
+        });
+
+        return fragment;
+    }
+
     // MARK: - Status Methods
 
+    /**
+     * Registers a listener notified after every state change.
+     *
+     * Covers starting and finishing generation, new prompts arriving, showing
+     * a prompt, pausing, resuming, skipping, stopping, and completion. The
+     * countdown itself isn't pushed; listeners poll getStatus() for it.
+     *
+     * @param listener - Listener receiving the new status
+     * @returns Function removing the listener
+     */
+    addStatusListener(listener: (status: TimedPromptsStatus) => void): () => void {
+        this.statusListeners.add(listener);
+        return () => {
+            this.statusListeners.delete(listener);
+        };
+    }
+
     /**
      * Retrieves the current status of the timed prompts sequence.
      *
      * Provides information for UI feedback (like status bar displays) about
      * the current state of the prompt sequence.
      *
-     * @returns Object containing running state and progress information
+     * @returns Object containing running and paused state and progress information
      */
-    getStatus(): { isRunning: boolean; currentPrompt: number; totalPrompts: number } {
-        const totalPrompts = this.promptQueue.length;
+    getStatus(): TimedPromptsStatus {
+        const totalPrompts = this.promptQueue.length === 0 ? 0 : this.getTotalPrompts();
         const currentPrompt = totalPrompts === 0 ? 0 : Math.min(this.currentIndex + 1, totalPrompts);
 
         return {
             isRunning: this.isRunning(),
+            isPaused: this.isPaused(),
+            isGenerating: this.isGenerating,
             currentPrompt,
-            totalPrompts
+            totalPrompts,
+            nextPromptInMs: this.getTimeUntilNextPrompt(),
+            isWaitingForPause: this.holdingForPause,
+            error: this.lastError
         };
     }
 
+    /**
+     * Gets the prompt currently on screen.
+     *
+     * @returns Current prompt text, or null if no sequence is running
+     */
+    getCurrentPrompt(): string | null {
+        if (!this.isRunning() || this.currentIndex >= this.promptQueue.length) {
+            return null;
+        }
+        return this.promptQueue[this.currentIndex];
+    }
+
+    /**
+     * Computes how long the current prompt stays on screen.
+     *
+     * @returns Milliseconds until the timer fires, or null if no timer is pending
+     */
+    private getTimeUntilNextPrompt(): number | null {
+        if (this.pausedRemainingMs !== null) {
+            return this.pausedRemainingMs;
+        }
+        if (this.activeTimer === null) {
+            return null;
+        }
+        return Math.max(0, this.timerDurationMs - (Date.now() - this.timerStartedAt));
+    }
+
+    /**
+     * Sends the current status to the registered listener.
+     */
+    private notifyStatusChange(): void {
+        if (this.statusListeners.size > 0) {
+            const status = this.getStatus();
+            this.statusListeners.forEach(listener => listener(status));
+        }
+    }
+
+    /**
+     * Gets every prompt of the current sequence, shown or not.
+     *
+     * @returns Prompts in display order, empty if no sequence is running
+     */
+    getPrompts(): string[] {
+        return this.promptQueue.slice();
+    }
+
+    /**
+     * Gets the text this session logged into the note.
+     * Word counts use it to leave the prompts out.
+     *
+     * @returns Logged markdown, empty if nothing was logged
+     */
+    getLoggedText(): string {
+        return this.loggedText;
+    }
+
     /**
      * Gets the prompts that haven't been displayed yet.
      *
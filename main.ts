@@ -1,30 +1,50 @@
 // ABOUTME: Main plugin file for Freewriting Prompts - generates AI-powered writing prompts
 // ABOUTME: Coordinates between services, commands, and Obsidian's plugin lifecycle
 
-import { Editor, MarkdownView, Notice, Plugin } from 'obsidian';
-import { FreewritingPromptsSettings, FreewritingPromptsData, ModelCache } from './types';
+import { Editor, MarkdownView, Notice, Plugin, WorkspaceLeaf } from 'obsidian';
+import { FreewritingPromptsSettings, FreewritingPromptsData, ModelCache, ModeParameters, PromptCacheEntry, PromptHistoryEntry, PromptPoolEntry, PromptProfile, PromptSource, PromptType, TimedPromptsStatus, UsageRecord } from './types';
 import { DEFAULT_SETTINGS, FreewritingPromptsSettingTab } from './settings';
 import { PromptGeneratorService } from './services/promptGenerator';
 import { ModelService } from './services/modelService';
+import { HistoryService } from './services/historyService';
+import { VaultSampler } from './services/vaultSampler';
+import { PromptLibraryService } from './services/promptLibrary';
+import { PromptPoolService } from './services/promptPool';
+import { PromptCacheService } from './services/promptCache';
+import { UsageService } from './services/usageService';
+import { FeedbackService } from './services/feedbackService';
+import { ProfileService } from './services/profileService';
 import { TimedPromptsCommand } from './commands/timedPrompts';
 import { NotePromptsCommand } from './commands/notePrompts';
+import { SprintCommand } from './commands/sprintCommand';
+import { NewNoteCommand } from './commands/newNoteCommand';
+import { PromptHistoryModal } from './ui/historyModal';
+import { TimedPromptsStatusBar } from './ui/statusBar';
+import { PromptSessionView, VIEW_TYPE_PROMPT_SESSION } from './ui/sessionView';
+import { UsageModal } from './ui/usageModal';
+import { cleanPromptLine } from './api/promptProvider';
 
 /**
  * Main plugin class for Freewriting Prompts.
  *
  * This plugin helps writers overcome creative blocks by generating AI-powered
- * writing prompts using Claude. It provides two main features:
+ * writing prompts using Claude or an OpenAI-compatible server (including
+ * local models). It provides four main features:
  * 1. Timed prompts: Shows prompts as notifications at regular intervals
  * 2. Note prompts: Inserts prompts directly into the current note
+ * 3. Sprints: Writing rounds with breaks, tracking words written per round
+ * 4. New freewriting notes: Dated notes created with prompts, ready for writing
  *
  * Architecture:
- * - Services: Core business logic (prompt generation, model management)
- * - Commands: User-facing actions (timed prompts, note prompts)
- * - API Client: Low-level Anthropic API communication
+ * - Services: Core business logic (prompt generation, model management, history, favorites, profiles)
+ * - Commands: User-facing actions (timed prompts, note prompts, new notes, sprints)
+ * - UI: Modals (prompt history, profile import), the session sidebar view, and the status bar widget
+ * - API Clients: Low-level provider communication (Anthropic, OpenAI-compatible)
  * - Settings: User configuration UI and persistence
  *
  * The plugin manages the full lifecycle including initialization, cleanup,
- * settings persistence (including model cache), and command registration.
+ * settings persistence (including model and prompt caches, history, favorites, blocklist, prefetched prompts, and token usage),
+ * and command registration, including the commands of every prompt profile.
  */
 export default class FreewritingPromptsPlugin extends Plugin {
     /** Current plugin settings */
@@ -33,12 +53,36 @@ export default class FreewritingPromptsPlugin extends Plugin {
     promptGenerator: PromptGeneratorService;
     /** Service for managing available Claude models */
     modelService: ModelService;
+    /** Service recording every generated prompt */
+    historyService: HistoryService;
+    /** Service holding favorite and blocked prompts */
+    feedbackService: FeedbackService;
+    /** Service holding prefetched prompts */
+    promptPool: PromptPoolService;
+    /** Service holding cached prompts */
+    promptCache: PromptCacheService;
+    /** Service recording token usage and costs */
+    usageService: UsageService;
+    /** Service managing named prompt profiles */
+    profileService: ProfileService;
     /** Command handler for timed prompt notifications */
     timedCommand: TimedPromptsCommand;
     /** Command handler for note prompt insertion */
     noteCommand: NotePromptsCommand;
+    /** Command handler for creating new freewriting notes */
+    newNoteCommand: NewNoteCommand;
+    /** Command handler for freewriting sprints */
+    sprintCommand: SprintCommand;
+    /** Status bar widget showing timed session progress */
+    private statusBar?: TimedPromptsStatusBar;
     /** Tracks last saved API key to avoid unnecessary cache clears */
     private lastApiKey?: string;
+    /** Tracks last saved OpenAI-compatible server URL and key to avoid unnecessary cache clears */
+    private lastOpenAIConfig?: string;
+    /** IDs of the registered per-profile commands, removed when profiles change */
+    private profileCommandIds: string[] = [];
+    /** Tracks profile IDs and names to re-register profile commands only when they change */
+    private lastProfileCommandKey?: string;
 
     /**
      * Called when the plugin loads.
@@ -52,12 +96,33 @@ export default class FreewritingPromptsPlugin extends Plugin {
         // Load data once and use it for both settings and model cache
         // Guard against corrupted persisted data to prevent plugin load failure
         let modelCache: ModelCache | undefined;
+        let history: PromptHistoryEntry[] | undefined;
+        let favorites: string[] | undefined;
+        let blocklist: string[] | undefined;
+        let promptPool: Record<string, PromptPoolEntry> | undefined;
+        let promptCache: Record<string, PromptCacheEntry> | undefined;
+        let usage: UsageRecord[] | undefined;
         try {
             const data = await this.loadData() as FreewritingPromptsData | null;
             if (data) {
-                // Destructure to prevent modelCache from being merged into settings (type drift)
-                const { modelCache: cache, ...savedSettings } = data;
+                // Destructure to prevent stored state from being merged into settings (type drift)
+                const {
+                    modelCache: cache,
+                    history: savedHistory,
+                    favorites: savedFavorites,
+                    blocklist: savedBlocklist,
+                    promptPool: savedPromptPool,
+                    promptCache: savedPromptCache,
+                    usage: savedUsage,
+                    ...savedSettings
+                } = data;
                 modelCache = cache;
+                history = savedHistory;
+                favorites = savedFavorites;
+                blocklist = savedBlocklist;
+                promptPool = savedPromptPool;
+                promptCache = savedPromptCache;
+                usage = savedUsage;
                 this.settings = Object.assign({}, DEFAULT_SETTINGS, savedSettings);
             } else {
                 // No data loaded, use defaults
@@ -70,14 +135,41 @@ export default class FreewritingPromptsPlugin extends Plugin {
             modelCache = undefined;
         }
 
-        // Track initial API key to detect changes on save
+        // Fill in prompt types and parameters missing from older data, without sharing the defaults
+        const savedModes: Partial<Record<PromptType, Partial<ModeParameters>>> = this.settings.modeParameters ?? {};
+        const modeParameters = { ...DEFAULT_SETTINGS.modeParameters };
+        (Object.keys(modeParameters) as PromptType[]).forEach(type => {
+            modeParameters[type] = { ...modeParameters[type], ...savedModes[type] };
+        });
+        this.settings.modeParameters = modeParameters;
+
+        // Track initial API key and server config to detect changes on save
         this.lastApiKey = this.settings.apiKey;
+        this.lastOpenAIConfig = this.getOpenAIConfigKey();
 
         // Initialize services
-        this.promptGenerator = new PromptGeneratorService(this.settings);
+        // Profiles first: on first load it creates the "Default" profile from the settings
+        this.profileService = new ProfileService(this.settings);
+        this.historyService = new HistoryService(this.app.vault, history, () => this.persistData());
+        this.historyService.configure(this.settings);
+        this.feedbackService = new FeedbackService(favorites, blocklist, () => this.persistData());
+        this.promptPool = new PromptPoolService(promptPool, () => this.persistData());
+        this.promptCache = new PromptCacheService(promptCache, () => this.persistData());
+        this.usageService = new UsageService(usage, () => this.persistData());
+        this.promptGenerator = new PromptGeneratorService(
+            this.settings,
+            this.historyService,
+            this.feedbackService,
+            new PromptLibraryService(this.app.vault),
+            this.promptPool,
+            this.promptCache,
+            this.usageService
+        );
         this.modelService = new ModelService(this.promptGenerator.anthropicClient);
-        this.timedCommand = new TimedPromptsCommand(this.promptGenerator);
-        this.noteCommand = new NotePromptsCommand(this.promptGenerator);
+        this.noteCommand = new NotePromptsCommand(this.promptGenerator, new VaultSampler(this.app));
+        this.timedCommand = new TimedPromptsCommand(this.app, this.promptGenerator, this.feedbackService, this.noteCommand);
+        this.newNoteCommand = new NewNoteCommand(this.app, this.promptGenerator, this.noteCommand);
+        this.sprintCommand = new SprintCommand(this.app, this.timedCommand);
 
         // Load model cache
         if (modelCache) {
@@ -86,31 +178,52 @@ export default class FreewritingPromptsPlugin extends Plugin {
 
         // Register commands
         this.registerCommands();
+        this.registerProfileCommands();
+
+        // Typing activity drives adaptive pacing of timed prompts
+        this.registerEvent(this.app.workspace.on('editor-change', () => this.timedCommand.recordActivity()));
+
+        // Keeps note prompt blocks in place while the writer types during streaming
+        this.registerEditorExtension(this.noteCommand.createEditorExtension());
+
+        // Sidebar view listing the prompts of the running session
+        this.registerView(VIEW_TYPE_PROMPT_SESSION, leaf => new PromptSessionView(leaf, this));
+
+        // Show timed session progress in the status bar
+        this.statusBar = new TimedPromptsStatusBar(this.addStatusBarItem(), this.timedCommand);
 
         // Add settings tab
         this.addSettingTab(new FreewritingPromptsSettingTab(this.app, this));
+
+        // Fill the prompt pools and check the model once startup is done, so loading stays fast
+        this.app.workspace.onLayoutReady(() => {
+            void this.promptGenerator.prefetch(this.settings);
+            void this.checkSelectedModel();
+        });
     }
 
     /**
      * Called when the plugin unloads.
      *
      * Performs cleanup to prevent memory leaks and ensure proper state:
-     * - Stops any running timed prompts (clears intervals)
-     * - Clears the in-memory prompt cache
+     * - Cancels a running sprint without writing its summary
+     * - Stops any running timed prompts (clears timers)
+     * - Stops the status bar countdown
      *
-     * Model cache is NOT cleared here because it's persisted to disk and
-     * should be available on next load.
+     * The model and prompt caches are NOT cleared here because they're
+     * persisted to disk and should be available on next load.
      */
     onunload() {
+        // Cancel a running sprint before its timed prompts are stopped
+        this.sprintCommand?.cancel();
+
         // Stop any running timed prompts
         if (this.timedCommand) {
             this.timedCommand.stop();
         }
 
-        // Clear prompt cache
-        if (this.promptGenerator) {
-            this.promptGenerator.clearCache();
-        }
+        // Release the status bar's timers
+        this.statusBar?.destroy();
     }
 
     // MARK: - Settings Management
@@ -118,17 +231,13 @@ export default class FreewritingPromptsPlugin extends Plugin {
     /**
      * Saves plugin settings to disk.
      *
-     * Includes both user settings and the model cache to avoid re-fetching
-     * models on every startup. Updates the prompt generator with the new API
-     * key if it changed.
+     * Copies the edited values into the active profile first. Updates the
+     * prompt generator with the new API key or server configuration if either
+     * changed, applies history settings, and refreshes the profile commands.
      */
     async saveSettings() {
-        // Save settings with model cache
-        const data: FreewritingPromptsData = {
-            ...this.settings,
-            modelCache: this.modelService?.getCache() || undefined
-        };
-        await this.saveData(data);
+        this.profileService?.syncActiveProfile();
+        await this.persistData();
 
         // Update the prompt generator only if API key actually changed
         // This avoids clearing the prompt cache unnecessarily on every save
@@ -139,6 +248,78 @@ export default class FreewritingPromptsPlugin extends Plugin {
             // This prevents cross-key cache leakage if settings are changed programmatically
             this.modelService?.clearCache();
         }
+
+        const openAIConfig = this.getOpenAIConfigKey();
+        if (this.promptGenerator && this.lastOpenAIConfig !== openAIConfig) {
+            this.promptGenerator.updateOpenAICompatibleConfig(this.settings.openAIBaseUrl, this.settings.openAIApiKey);
+            this.lastOpenAIConfig = openAIConfig;
+        }
+
+        // Cheap to apply, so no change tracking needed
+        this.promptGenerator?.updateRetryPolicy(this.settings.maxRetries);
+        this.historyService?.configure(this.settings);
+        this.registerProfileCommands();
+    }
+
+    /**
+     * Writes everything the plugin keeps in data.json.
+     *
+     * Includes the user settings, the model cache to avoid re-fetching models
+     * on every startup, the prompt history when it's stored in plugin data,
+     * the favorites and blocklist, the prefetched and cached prompts, and
+     * the token usage.
+     */
+    async persistData() {
+        const data: FreewritingPromptsData = {
+            ...this.settings,
+            modelCache: this.modelService?.getCache() || undefined,
+            history: this.historyService?.getPluginDataEntries(),
+            favorites: this.feedbackService?.getFavorites(),
+            blocklist: this.feedbackService?.getBlocklist(),
+            promptPool: this.promptPool?.getPools(),
+            promptCache: this.promptCache?.getEntries(),
+            usage: this.usageService?.getRecords()
+        };
+        await this.saveData(data);
+    }
+
+    /**
+     * Builds a comparable key from the OpenAI-compatible connection settings.
+     *
+     * @returns String that changes whenever the server URL or key changes
+     */
+    private getOpenAIConfigKey(): string {
+        return JSON.stringify([this.settings.openAIBaseUrl, this.settings.openAIApiKey]);
+    }
+
+    /**
+     * Builds a comparable key from the profile IDs and names.
+     *
+     * @returns String that changes whenever a profile is added, removed, or renamed
+     */
+    private getProfileCommandKey(): string {
+        return JSON.stringify(this.settings.profiles.map(profile => [profile.id, profile.name]));
+    }
+
+    /**
+     * Warns when the selected Claude model is deprecated or no longer available.
+     *
+     * Only suggests a replacement: the model is switched when the settings
+     * tab loads the model list, or by the user.
+     */
+    private async checkSelectedModel(): Promise<void> {
+        if (this.settings.provider !== 'anthropic' || this.settings.offlineMode) {
+            return;
+        }
+
+        const { model, problem, replacement } = await this.modelService.checkModel(this.settings.model);
+        if (!problem) {
+            return;
+        }
+        const suggestion = replacement ? ` Consider switching to ${replacement.displayName} in settings.` : '';
+        new Notice(problem === 'unavailable'
+            ? `Claude model ${model.displayName} is no longer available.${suggestion}`
+            : `Claude model ${model.displayName} is deprecated and will be retired.${suggestion}`, 10000);
     }
 
     // MARK: - Command Registration
@@ -146,12 +327,27 @@ export default class FreewritingPromptsPlugin extends Plugin {
     /**
      * Registers all plugin commands with Obsidian.
      *
-     * Three commands are registered:
+     * Seventeen commands are registered:
      * 1. 'timed-prompts': Starts a timed prompt sequence
      * 2. 'note-prompts': Inserts prompts into the current note
      * 3. 'stop-timed-prompts': Stops the active timed sequence
+     * 4. 'pause-timed-prompts': Pauses the active timed sequence
+     * 5. 'resume-timed-prompts': Resumes a paused timed sequence
+     * 6. 'next-timed-prompt': Skips to the next timed prompt
+     * 7. 'previous-timed-prompt': Goes back to the previous timed prompt
+     * 8. 'open-session-view': Opens the prompt session sidebar view
+     * 9. 'prompt-history': Opens the searchable prompt history
+     * 10. 'toggle-favorite-prompt': Stars or unstars the current prompt
+     * 11. 'toggle-blocked-prompt': Blocks or unblocks the current prompt
+     * 12. 'start-sprint': Starts a freewriting sprint in the current note
+     * 13. 'stop-sprint': Ends the running sprint and writes its summary
+     * 14. 'new-freewriting-note': Creates and opens a dated note with prompts
+     * 15. 'context-prompts': Inserts prompts that build on the selection or note
+     * 16. 'vault-prompts': Inserts prompts referencing notes, tags, and headings from the vault
+     * 17. 'show-usage': Opens the token usage and cost overview
      *
      * Commands are available in the command palette and can be bound to hotkeys.
+     * Profile commands are registered separately by registerProfileCommands().
      */
     private registerCommands() {
         // Timed prompts command
@@ -180,6 +376,191 @@ export default class FreewritingPromptsPlugin extends Plugin {
                 this.stopTimedPrompts();
             }
         });
+
+        // Timed prompt playback commands
+        this.addCommand({
+            id: 'pause-timed-prompts',
+            name: 'Pause timed prompts',
+            callback: () => {
+                this.pauseTimedPrompts();
+            }
+        });
+
+        this.addCommand({
+            id: 'resume-timed-prompts',
+            name: 'Resume timed prompts',
+            callback: () => {
+                this.resumeTimedPrompts();
+            }
+        });
+
+        this.addCommand({
+            id: 'next-timed-prompt',
+            name: 'Next timed prompt',
+            callback: () => {
+                this.stepTimedPrompts('next');
+            }
+        });
+
+        this.addCommand({
+            id: 'previous-timed-prompt',
+            name: 'Previous timed prompt',
+            callback: () => {
+                this.stepTimedPrompts('previous');
+            }
+        });
+
+        // Session view command
+        this.addCommand({
+            id: 'open-session-view',
+            name: 'Open prompt session view',
+            callback: async () => {
+                await this.activateSessionView();
+            }
+        });
+
+        // Prompt history command
+        this.addCommand({
+            id: 'prompt-history',
+            name: 'Browse prompt history',
+            callback: () => {
+                new PromptHistoryModal(this.app, this).open();
+            }
+        });
+
+        // Favorite and blocklist commands
+        this.addCommand({
+            id: 'toggle-favorite-prompt',
+            name: 'Favorite or unfavorite current prompt',
+            callback: async () => {
+                await this.toggleFeedback('favorite');
+            }
+        });
+
+        this.addCommand({
+            id: 'toggle-blocked-prompt',
+            name: 'Block or unblock current prompt',
+            callback: async () => {
+                await this.toggleFeedback('block');
+            }
+        });
+
+        // Sprint commands
+        this.addCommand({
+            id: 'start-sprint',
+            name: 'Start freewriting sprint',
+            editorCallback: async (editor: Editor, view: MarkdownView) => {
+                await this.startSprint(editor, view);
+            }
+        });
+
+        this.addCommand({
+            id: 'stop-sprint',
+            name: 'Stop freewriting sprint',
+            callback: async () => {
+                if (!await this.sprintCommand.stop()) {
+                    new Notice('No sprint is currently running');
+                }
+            }
+        });
+
+        // New note command
+        this.addCommand({
+            id: 'new-freewriting-note',
+            name: 'New freewriting note',
+            callback: async () => {
+                await this.executeNewNote();
+            }
+        });
+
+        // Context-aware note prompt command
+        this.addCommand({
+            id: 'context-prompts',
+            name: 'Add prompts based on note or selection',
+            editorCallback: async (editor: Editor, view: MarkdownView) => {
+                await this.executeNotePrompts(editor, view, this.settings, 'context');
+            }
+        });
+
+        // Vault-aware note prompt command
+        this.addCommand({
+            id: 'vault-prompts',
+            name: 'Add prompts from your vault',
+            editorCallback: async (editor: Editor, view: MarkdownView) => {
+                await this.executeNotePrompts(editor, view, this.settings, 'vault');
+            }
+        });
+
+        // Usage command
+        this.addCommand({
+            id: 'show-usage',
+            name: 'Show token usage and costs',
+            callback: () => {
+                new UsageModal(this.app, this).open();
+            }
+        });
+    }
+
+    /**
+     * Registers a timed and a note prompts command for every profile.
+     *
+     * Profile commands run with that profile's prompts, models, and counts
+     * without changing the active profile. Commands are re-registered only
+     * when profiles were added, removed, or renamed; IDs are derived from the
+     * profile ID so hotkeys survive renames.
+     */
+    private registerProfileCommands() {
+        if (!this.profileService) {
+            return;
+        }
+        const key = this.getProfileCommandKey();
+        if (key === this.lastProfileCommandKey) {
+            return;
+        }
+        this.lastProfileCommandKey = key;
+
+        this.profileCommandIds.forEach(id => this.removeCommand(id));
+        this.profileCommandIds = [];
+
+        this.profileService.getProfiles().forEach(profile => {
+            const timedId = `profile-timed-${profile.id}`;
+            this.addCommand({
+                id: timedId,
+                name: `Show timed prompts: ${profile.name}`,
+                callback: async () => {
+                    await this.executeTimedPrompts(this.getProfileSettings(profile.id));
+                }
+            });
+
+            const noteId = `profile-note-${profile.id}`;
+            this.addCommand({
+                id: noteId,
+                name: `Add note prompts: ${profile.name}`,
+                editorCallback: async (editor: Editor, view: MarkdownView) => {
+                    await this.executeNotePrompts(editor, view, this.getProfileSettings(profile.id));
+                }
+            });
+
+            this.profileCommandIds.push(timedId, noteId);
+        });
+    }
+
+    /**
+     * Resolves the settings a profile command runs with.
+     *
+     * Looks the profile up again at run time so edits made since the
+     * commands were registered are used.
+     *
+     * @param profileId - ID of the profile the command belongs to
+     * @returns Settings with the profile applied, or the current settings if it was deleted
+     */
+    private getProfileSettings(profileId: string): FreewritingPromptsSettings {
+        const profile: PromptProfile | undefined = this.profileService.getProfiles().find(p => p.id === profileId);
+        // The active profile's latest edits live in the top-level settings
+        if (!profile || profile.id === this.settings.activeProfileId) {
+            return this.settings;
+        }
+        return this.profileService.withProfile(profile);
     }
 
     // MARK: - Command Implementations
@@ -194,8 +575,10 @@ export default class FreewritingPromptsPlugin extends Plugin {
      *
      * Shows user-friendly error messages for common issues like missing
      * API key or invalid settings.
+     *
+     * @param settings - Settings to run with, defaults to the active profile's
      */
-    private async executeTimedPrompts(): Promise<void> {
+    private async executeTimedPrompts(settings: FreewritingPromptsSettings = this.settings): Promise<void> {
         // Check if timed prompts are already running
         if (this.timedCommand.isRunning()) {
             new Notice('Timed prompts are already running. Use "Stop timed prompts" to stop them first.');
@@ -203,14 +586,18 @@ export default class FreewritingPromptsPlugin extends Plugin {
         }
 
         // Validate settings
-        const validation = this.promptGenerator.validateSettings(this.settings);
+        const validation = this.promptGenerator.validateSettings(settings);
         if (!validation.isValid) {
             new Notice(`Settings validation failed: ${validation.errors.join(', ')}`);
             return;
         }
 
+        if (settings.useSessionView) {
+            await this.activateSessionView();
+        }
+
         try {
-            await this.timedCommand.execute(this.settings);
+            await this.timedCommand.execute(settings);
         } catch (error) {
             console.error('Error executing timed prompts:', error);
             // Error handling is done in the command layer
@@ -230,8 +617,15 @@ export default class FreewritingPromptsPlugin extends Plugin {
      *
      * @param editor - Active editor instance
      * @param view - Active markdown view
+     * @param settings - Settings to run with, defaults to the active profile's
+     * @param source - What the prompts are based on
      */
-    private async executeNotePrompts(editor: Editor, view: MarkdownView): Promise<void> {
+    private async executeNotePrompts(
+        editor: Editor,
+        view: MarkdownView,
+        settings: FreewritingPromptsSettings = this.settings,
+        source: PromptSource = 'standalone'
+    ): Promise<void> {
         // Check if we can execute the command
         if (!NotePromptsCommand.canExecute(editor, view)) {
             new Notice('Please open a note and place your cursor where you want to insert prompts.');
@@ -239,20 +633,69 @@ export default class FreewritingPromptsPlugin extends Plugin {
         }
 
         // Validate settings
-        const validation = this.promptGenerator.validateSettings(this.settings);
+        const validation = this.promptGenerator.validateSettings(settings);
         if (!validation.isValid) {
             new Notice(`Settings validation failed: ${validation.errors.join(', ')}`);
             return;
         }
 
         try {
-            await this.noteCommand.execute(this.settings, editor, view);
+            await this.noteCommand.execute(settings, editor, view, source);
         } catch (error) {
             console.error('Error executing note prompts:', error);
             // Error handling is done in the command layer
         }
     }
 
+    /**
+     * Creates a new freewriting note and optionally starts timed prompts in it.
+     *
+     * The timed session starts once the note is open, so prompt logging and
+     * sprints pick up the new note as the one being written in.
+     *
+     * @param settings - Settings to run with, defaults to the active profile's
+     */
+    private async executeNewNote(settings: FreewritingPromptsSettings = this.settings): Promise<void> {
+        const validation = this.promptGenerator.validateSettings(settings);
+        if (!validation.isValid) {
+            new Notice(`Settings validation failed: ${validation.errors.join(', ')}`);
+            return;
+        }
+
+        const file = await this.newNoteCommand.execute(settings);
+        if (file && settings.newNoteStartTimed) {
+            await this.executeTimedPrompts(settings);
+        }
+    }
+
+    /**
+     * Starts a freewriting sprint in the current note.
+     *
+     * Validates settings first, since every round generates prompts.
+     *
+     * @param editor - Active editor instance
+     * @param view - Active markdown view holding the note to write in
+     */
+    private async startSprint(editor: Editor, view: MarkdownView): Promise<void> {
+        if (!NotePromptsCommand.canExecute(editor, view)) {
+            new Notice('Please open a note to write the sprint in.');
+            return;
+        }
+
+        if (this.sprintCommand.isRunning()) {
+            new Notice('A sprint is already running. Use "Stop freewriting sprint" to end it first.');
+            return;
+        }
+
+        const validation = this.promptGenerator.validateSettings(this.settings);
+        if (!validation.isValid) {
+            new Notice(`Settings validation failed: ${validation.errors.join(', ')}`);
+            return;
+        }
+
+        await this.sprintCommand.start(this.settings, view);
+    }
+
     /**
      * Stops the currently running timed prompts sequence.
      *
@@ -268,6 +711,111 @@ export default class FreewritingPromptsPlugin extends Plugin {
         }
     }
 
+    /**
+     * Pauses the running timed prompts sequence.
+     */
+    private pauseTimedPrompts(): void {
+        if (!this.timedCommand.isRunning()) {
+            new Notice('No timed prompts are currently running');
+        } else if (this.timedCommand.pause()) {
+            new Notice('Timed prompts paused');
+        } else {
+            new Notice('Timed prompts are already paused');
+        }
+    }
+
+    /**
+     * Resumes a paused timed prompts sequence.
+     */
+    private resumeTimedPrompts(): void {
+        if (!this.timedCommand.isRunning()) {
+            new Notice('No timed prompts are currently running');
+        } else if (!this.timedCommand.resume()) {
+            new Notice('Timed prompts are not paused');
+        }
+    }
+
+    /**
+     * Skips forward or back in the running timed prompts sequence.
+     *
+     * @param direction - Whether to show the next or the previous prompt
+     */
+    private stepTimedPrompts(direction: 'next' | 'previous'): void {
+        if (!this.timedCommand.isRunning()) {
+            new Notice('No timed prompts are currently running');
+            return;
+        }
+
+        if (direction === 'next') {
+            this.timedCommand.next();
+        } else {
+            this.timedCommand.previous();
+        }
+    }
+
+    /**
+     * Stars or blocks the prompt the user is looking at.
+     *
+     * Acts on the timed prompt on screen if a sequence is running; otherwise
+     * on the selected text or the line under the cursor, so prompts inserted
+     * into a note can be rated too.
+     *
+     * @param action - Whether to toggle the favorite or the blocked state
+     */
+    private async toggleFeedback(action: 'favorite' | 'block'): Promise<void> {
+        const prompt = this.getCurrentPromptText();
+        if (!prompt) {
+            new Notice('No prompt to rate. Run timed prompts or select a prompt in a note.');
+            return;
+        }
+
+        if (action === 'favorite') {
+            const isFavorite = await this.feedbackService.toggleFavorite(prompt);
+            new Notice(isFavorite ? 'Added prompt to favorites' : 'Removed prompt from favorites');
+        } else {
+            const isBlocked = await this.feedbackService.toggleBlocked(prompt);
+            new Notice(isBlocked ? 'Prompt blocked' : 'Prompt unblocked');
+        }
+    }
+
+    /**
+     * Finds the prompt the user is currently looking at.
+     *
+     * @returns Prompt text, or null if there is none
+     */
+    private getCurrentPromptText(): string | null {
+        const timedPrompt = this.timedCommand.getCurrentPrompt();
+        if (timedPrompt) {
+            return timedPrompt;
+        }
+
+        const { editor } = NotePromptsCommand.getExecutionContext(this.app);
+        if (!editor) {
+            return null;
+        }
+        const text = editor.getSelection() || editor.getLine(editor.getCursor().line);
+        const prompt = cleanPromptLine(text.replace(/\s+/g, ' '));
+        return prompt.length > 0 ? prompt : null;
+    }
+
+    // MARK: - Views
+
+    /**
+     * Opens the prompt session view in the right sidebar, or reveals it if it's already open.
+     */
+    async activateSessionView(): Promise<void> {
+        const { workspace } = this.app;
+        let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(VIEW_TYPE_PROMPT_SESSION)[0] ?? null;
+        if (!leaf) {
+            leaf = workspace.getRightLeaf(false);
+            if (!leaf) {
+                return;
+            }
+            await leaf.setViewState({ type: VIEW_TYPE_PROMPT_SESSION, active: true });
+        }
+        await workspace.revealLeaf(leaf);
+    }
+
     // MARK: - Public API for Settings
 
     /**
@@ -275,9 +823,9 @@ export default class FreewritingPromptsPlugin extends Plugin {
      *
      * This is used by the settings tab or status bar to show current progress.
      *
-     * @returns Object containing running state and progress information
+     * @returns Object containing running and paused state and progress information
      */
-    getTimedStatus(): { isRunning: boolean; currentPrompt: number; totalPrompts: number } {
+    getTimedStatus(): TimedPromptsStatus {
         return this.timedCommand.getStatus();
     }
 }
@@ -0,0 +1,87 @@
+// ABOUTME: Built-in offline prompt library bundled with the plugin
+// ABOUTME: Categorized timed and note prompts used without an API or as a fallback
+
+import { PromptType } from '../types';
+
+/**
+ * Prompts bundled with the plugin, by prompt type and category.
+ *
+ * Timed prompts are short and answerable in a few words, note prompts are
+ * more elaborate, matching what the providers are asked to generate.
+ */
+export const BUILT_IN_PROMPTS: Record<PromptType, Record<string, string[]>> = {
+    timed: {
+        'Senses': [
+            'First sound you hear:',
+            'What color is closest to you?',
+            'Name something soft',
+            'The smell of this room:',
+            'Something cold you touched today',
+            'The last thing you tasted:',
+            'Describe the light right now'
+        ],
+        'Memory': [
+            'A street you walked as a child',
+            'The oldest thing you own:',
+            'A phone number you still remember',
+            'Your first bicycle',
+            'A teacher\'s voice',
+            'Something you lost and never found'
+        ],
+        'Feelings': [
+            'Describe your mood in one word',
+            'What are you waiting for?',
+            'Something that made you laugh this week',
+            'A small worry:',
+            'What would make today better?',
+            'The last time you felt brave'
+        ],
+        'Objects': [
+            'What\'s in your pocket?',
+            'The interesting thing about a rose is…',
+            'A tool you use every day',
+            'Something on your desk that shouldn\'t be there',
+            'A door you never open',
+            'Your favorite cup'
+        ],
+        'Words': [
+            'Your favorite word today:',
+            'A word you mispronounce',
+            'Three words for rain',
+            'A word that sounds like its meaning',
+            'Something you say too often'
+        ]
+    },
+    note: {
+        'Memory': [
+            'Describe the kitchen of a house you used to live in, room by room, as if you were walking through it one last time.',
+            'Write about a time you were the last person to leave a place. What did you notice once everyone was gone?',
+            'Recall a conversation you replayed in your head for days afterwards. What did you wish you had said?',
+            'Write about an object you inherited and the person it belonged to before you.'
+        ],
+        'Character': [
+            'A stranger sits next to you on a night bus and starts telling you the truth about their life. Write what they say.',
+            'Describe someone you know only by their habits: what they do every morning, what they leave behind, what they never say.',
+            'Write a letter from a character who has just decided to never go home again.',
+            'Two old friends meet after twenty years and both pretend not to remember why they stopped talking.'
+        ],
+        'Place': [
+            'Describe a world where colors have been outlawed and only exist in secret underground galleries.',
+            'Write about a town where it has been raining for a hundred years and nobody remembers the sun.',
+            'A lighthouse keeper receives a letter addressed to the lighthouse itself. Write what happens next.',
+            'Describe the view from a window you looked out of every day for a year.'
+        ],
+        'Reflection': [
+            'What is a belief you held firmly five years ago that you no longer hold? Trace how it changed.',
+            'Write about a small decision that turned out to change everything.',
+            'Describe the version of yourself you were trying to become at sixteen. Did you get there?',
+            'What would you do with a day that nobody else would ever know about?'
+        ],
+        'What if': [
+            'What if you could hear what objects remember? Start with the chair you are sitting on.',
+            'What if every lie you told appeared as a word written on your skin?',
+            'What if you woke up and your reflection was a few seconds late?',
+            'What if the last page of every book you had ever read went missing overnight?'
+        ]
+    }
+};
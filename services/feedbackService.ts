@@ -0,0 +1,193 @@
+// ABOUTME: Favorites and blocklist for prompts, persisted alongside the plugin settings
+// ABOUTME: Favorites become extra style examples; blocked prompts are never shown again
+
+import { normalizePromptText } from '../api/promptProvider';
+
+/** Maximum number of favorites sent to the model as examples */
+const MAX_FAVORITE_EXAMPLES = 5;
+/** Maximum number of blocked prompts listed in the request */
+const MAX_AVOID_PROMPTS = 30;
+
+/**
+ * Service holding the prompts a user starred or banned.
+ *
+ * Favorites feed back into generation as extra few-shot examples, steering
+ * the model toward the style the writer likes. Blocked prompts are listed in
+ * the request so the model avoids them, and filtered out after parsing in
+ * case the model repeats one anyway.
+ *
+ * Prompts are compared by normalized text, so differences in case,
+ * punctuation, and list numbering don't matter. Only the most recent
+ * favorites and blocked prompts are sent to the model to keep requests small;
+ * filtering always uses the full blocklist.
+ */
+export class FeedbackService {
+    /** Favorite prompts, newest last */
+    private favorites: string[];
+    /** Blocked prompts, newest last */
+    private blocklist: string[];
+    /** Normalized blocked prompts for fast lookup */
+    private blockedKeys: Set<string>;
+
+    /**
+     * Creates a new feedback service.
+     *
+     * @param favorites - Favorites loaded from plugin data
+     * @param blocklist - Blocked prompts loaded from plugin data
+     * @param persist - Saves plugin data, called after every change
+     */
+    constructor(
+        favorites: string[] | undefined,
+        blocklist: string[] | undefined,
+        private persist: () => Promise<void>
+    ) {
+        this.favorites = Array.isArray(favorites) ? favorites : [];
+        this.blocklist = Array.isArray(blocklist) ? blocklist : [];
+        this.blockedKeys = new Set(this.blocklist.map(normalizePromptText));
+    }
+
+    // MARK: - Queries
+
+    /**
+     * Checks whether a prompt is a favorite.
+     *
+     * @param text - Prompt text
+     * @returns true if the prompt was starred
+     */
+    isFavorite(text: string): boolean {
+        const key = normalizePromptText(text);
+        return this.favorites.some(favorite => normalizePromptText(favorite) === key);
+    }
+
+    /**
+     * Checks whether a prompt is blocked.
+     *
+     * @param text - Prompt text
+     * @returns true if the prompt was banned
+     */
+    isBlocked(text: string): boolean {
+        return this.blockedKeys.has(normalizePromptText(text));
+    }
+
+    /**
+     * Removes blocked prompts from a list.
+     *
+     * @param items - Prompts to filter
+     * @returns Prompts that aren't blocked, in their original order
+     */
+    filterBlocked<T extends { text: string }>(items: T[]): T[] {
+        return items.filter(item => !this.isBlocked(item.text));
+    }
+
+    /**
+     * Returns the favorites to send to the model as examples.
+     *
+     * @returns Most recent favorites, newest last
+     */
+    getFavoriteExamples(): string[] {
+        return this.favorites.slice(-MAX_FAVORITE_EXAMPLES);
+    }
+
+    /**
+     * Returns the blocked prompts to list in the request.
+     *
+     * @returns Most recently blocked prompts, newest last
+     */
+    getAvoidPrompts(): string[] {
+        return this.blocklist.slice(-MAX_AVOID_PROMPTS);
+    }
+
+    /**
+     * Returns all favorites.
+     *
+     * @returns Favorite prompts, newest last
+     */
+    getFavorites(): string[] {
+        return this.favorites;
+    }
+
+    /**
+     * Returns all blocked prompts.
+     *
+     * @returns Blocked prompts, newest last
+     */
+    getBlocklist(): string[] {
+        return this.blocklist;
+    }
+
+    // MARK: - Changes
+
+    /**
+     * Stars a prompt, or removes the star if it's already a favorite.
+     * A favorited prompt is removed from the blocklist.
+     *
+     * @param text - Prompt text
+     * @returns true if the prompt is now a favorite
+     */
+    async toggleFavorite(text: string): Promise<boolean> {
+        const favorite = !this.isFavorite(text);
+        if (favorite) {
+            this.removeFrom('blocklist', text);
+            this.favorites.push(text.trim());
+        } else {
+            this.removeFrom('favorites', text);
+        }
+        await this.persist();
+        return favorite;
+    }
+
+    /**
+     * Bans a prompt, or lifts the ban if it's already blocked.
+     * A blocked prompt is removed from the favorites.
+     *
+     * @param text - Prompt text
+     * @returns true if the prompt is now blocked
+     */
+    async toggleBlocked(text: string): Promise<boolean> {
+        const blocked = !this.isBlocked(text);
+        if (blocked) {
+            this.removeFrom('favorites', text);
+            this.blocklist.push(text.trim());
+            this.blockedKeys.add(normalizePromptText(text));
+        } else {
+            this.removeFrom('blocklist', text);
+        }
+        await this.persist();
+        return blocked;
+    }
+
+    /**
+     * Removes all favorites.
+     */
+    async clearFavorites(): Promise<void> {
+        this.favorites = [];
+        await this.persist();
+    }
+
+    /**
+     * Removes all blocked prompts.
+     */
+    async clearBlocklist(): Promise<void> {
+        this.blocklist = [];
+        this.blockedKeys.clear();
+        await this.persist();
+    }
+
+    // MARK: - Private Methods
+
+    /**
+     * Removes every variant of a prompt from one of the lists.
+     *
+     * @param list - List to remove the prompt from
+     * @param text - Prompt text
+     */
+    private removeFrom(list: 'favorites' | 'blocklist', text: string): void {
+        const key = normalizePromptText(text);
+        if (list === 'favorites') {
+            this.favorites = this.favorites.filter(favorite => normalizePromptText(favorite) !== key);
+        } else {
+            this.blocklist = this.blocklist.filter(blocked => normalizePromptText(blocked) !== key);
+            this.blockedKeys.delete(key);
+        }
+    }
+}
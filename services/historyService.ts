@@ -0,0 +1,434 @@
+// ABOUTME: Persistent prompt history stored in plugin data or a JSON/markdown file in the vault
+// ABOUTME: Records every generated prompt and provides search for the history modal
+
+import { normalizePath, TFile, Vault } from 'obsidian';
+import { FreewritingPromptsSettings, HistoryStorage, PromptHistoryEntry, PromptItem, PromptType, ProviderId } from '../types';
+import { getOrCreateFile } from './vaultFiles';
+
+/**
+ * Context shared by all prompts generated in one command run.
+ */
+export interface HistoryRecordContext {
+    /** Whether the prompts were generated for timed notifications or a note */
+    mode: PromptType;
+    /** Provider that generated the prompts */
+    provider: ProviderId;
+    /** Model that generated the prompts */
+    model: string;
+    /** Session the prompts belong to */
+    sessionId: string;
+}
+
+/**
+ * Backend that reads and writes history entries.
+ */
+interface HistoryStore {
+    /**
+     * Reads all entries in the order they were recorded.
+     *
+     * @returns All stored entries, oldest first
+     */
+    load(): Promise<PromptHistoryEntry[]>;
+
+    /**
+     * Appends entries to the end of the history.
+     *
+     * @param entries - Entries to store
+     */
+    append(entries: PromptHistoryEntry[]): Promise<void>;
+
+    /**
+     * Removes all entries.
+     */
+    clear(): Promise<void>;
+}
+
+/**
+ * Service that records generated prompts and lets users search them later.
+ *
+ * History can live in three places, chosen in settings:
+ * - Plugin data (default): stored with the settings, invisible in the vault
+ * - A JSON file in the vault: complete and easy to process with scripts
+ * - A markdown file in the vault: one readable line per prompt
+ *
+ * Entries in plugin data are kept even while a vault file is selected, so
+ * switching back doesn't lose them. Since plugin data is rewritten on every
+ * save, only the newest historyMaxEntries entries are kept there; vault
+ * files belong to the user and aren't trimmed. Failures to record are logged
+ * but never interrupt prompt generation.
+ */
+export class HistoryService {
+    /** Entries stored in plugin data, persisted by the plugin */
+    private pluginDataEntries: PromptHistoryEntry[];
+    /** Store selected in settings */
+    private store: HistoryStore;
+    /** Whether new prompts are recorded */
+    private enabled = true;
+    /** Most entries kept in plugin data */
+    private maxEntries = 1000;
+    /** Serializes writes so concurrent sessions can't interleave file updates */
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    /**
+     * Creates a new history service.
+     *
+     * @param vault - Vault used for file-based storage
+     * @param savedEntries - Entries loaded from plugin data
+     * @param persist - Saves plugin data, called after plugin-data entries change
+     */
+    constructor(
+        private vault: Vault,
+        savedEntries: PromptHistoryEntry[] | undefined,
+        private persist: () => Promise<void>
+    ) {
+        this.pluginDataEntries = Array.isArray(savedEntries) ? savedEntries : [];
+        this.store = this.createStore('plugin-data', '');
+    }
+
+    // MARK: - Public Methods
+
+    /**
+     * Applies history settings.
+     * Called on load and whenever settings are saved.
+     *
+     * @param settings - Current plugin settings
+     */
+    configure(settings: FreewritingPromptsSettings): void {
+        this.enabled = settings.historyEnabled;
+        this.maxEntries = settings.historyMaxEntries;
+        this.store = this.createStore(settings.historyStorage, settings.historyFilePath);
+        // A lowered limit applies right away; the trimmed list is saved with the settings
+        this.trimPluginDataEntries();
+    }
+
+    /**
+     * Appends freshly generated prompts to the history.
+     *
+     * Never throws: history is a convenience and must not break generation.
+     *
+     * @param items - Prompts to record, in the order they were generated
+     * @param context - Mode, provider, model, and session shared by the prompts
+     */
+    async record(items: PromptItem[], context: HistoryRecordContext): Promise<void> {
+        if (!this.enabled || items.length === 0) {
+            return;
+        }
+
+        const timestamp = Date.now();
+        const entries: PromptHistoryEntry[] = items.map((item, index) => ({
+            id: `${timestamp.toString(36)}-${index}-${Math.random().toString(36).slice(2, 6)}`,
+            text: item.text,
+            mode: context.mode,
+            provider: context.provider,
+            model: context.model,
+            timestamp,
+            sessionId: context.sessionId,
+            ...(item.category ? { category: item.category } : {}),
+            ...(item.tags ? { tags: item.tags } : {})
+        }));
+
+        const store = this.store;
+        const write = this.writeQueue.then(() => store.append(entries));
+        this.writeQueue = write.catch(() => undefined);
+        try {
+            await write;
+        } catch (error) {
+            console.error('Failed to record prompt history:', error);
+        }
+    }
+
+    /**
+     * Reads all history entries, newest first.
+     *
+     * @returns History entries sorted by timestamp, most recent first
+     */
+    async getEntries(): Promise<PromptHistoryEntry[]> {
+        await this.writeQueue;
+        const entries = await this.store.load();
+        return entries.slice().sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    /**
+     * Gets the text of recently recorded prompts, newest first.
+     *
+     * @param maxAgeMs - Only include prompts recorded within this many milliseconds
+     * @param limit - Maximum number of prompts to return
+     * @returns Prompt texts, most recent first
+     */
+    async getRecentPrompts(maxAgeMs: number, limit: number): Promise<string[]> {
+        const since = Date.now() - maxAgeMs;
+        const entries = await this.getEntries();
+        return entries
+            .filter(entry => entry.timestamp >= since)
+            .slice(0, limit)
+            .map(entry => entry.text);
+    }
+
+    /**
+     * Finds entries matching a search query.
+     *
+     * Every whitespace-separated term must appear (case-insensitively) in the
+     * prompt text, mode, model, category, or tags.
+     *
+     * @param entries - Entries to search, typically from getEntries()
+     * @param query - Search terms, empty to match everything
+     * @returns Matching entries in their original order
+     */
+    search(entries: PromptHistoryEntry[], query: string): PromptHistoryEntry[] {
+        const terms = query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+        if (terms.length === 0) {
+            return entries;
+        }
+
+        return entries.filter(entry => {
+            const haystack = [entry.text, entry.mode, entry.model, entry.category ?? '', ...(entry.tags ?? [])]
+                .join(' ')
+                .toLowerCase();
+            return terms.every(term => haystack.includes(term));
+        });
+    }
+
+    /**
+     * Gets all prompts generated in the same session as an entry.
+     *
+     * @param entries - Entries to search, typically from getEntries()
+     * @param sessionId - Session to collect
+     * @returns Prompt texts of the session in generation order
+     */
+    getSessionPrompts(entries: PromptHistoryEntry[], sessionId: string): string[] {
+        return entries
+            .filter(entry => entry.sessionId === sessionId)
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .map(entry => entry.text);
+    }
+
+    /**
+     * Removes all entries from the selected store.
+     */
+    async clear(): Promise<void> {
+        const store = this.store;
+        const cleared = this.writeQueue.then(() => store.clear());
+        this.writeQueue = cleared.catch(() => undefined);
+        await cleared;
+    }
+
+    /**
+     * Returns the entries stored in plugin data, for saving with the settings.
+     *
+     * @returns Plugin-data history entries
+     */
+    getPluginDataEntries(): PromptHistoryEntry[] {
+        return this.pluginDataEntries;
+    }
+
+    /**
+     * Creates an ID shared by all prompts of one command run.
+     *
+     * @returns Short random session ID
+     */
+    static createSessionId(): string {
+        return Math.random().toString(36).slice(2, 10);
+    }
+
+    // MARK: - Private Methods
+
+    /**
+     * Creates the store for the selected storage location.
+     *
+     * @param storage - Storage location from settings
+     * @param filePath - Vault path from settings, used for vault storage
+     * @returns Store reading and writing that location
+     */
+    private createStore(storage: HistoryStorage, filePath: string): HistoryStore {
+        switch (storage) {
+            case 'vault-json':
+                return new VaultJsonHistoryStore(this.vault, this.resolvePath(filePath, '.json'));
+            case 'vault-markdown':
+                return new VaultMarkdownHistoryStore(this.vault, this.resolvePath(filePath, '.md'));
+            default:
+                return {
+                    load: () => Promise.resolve(this.pluginDataEntries),
+                    append: async (entries) => {
+                        this.pluginDataEntries.push(...entries);
+                        this.trimPluginDataEntries();
+                        await this.persist();
+                    },
+                    clear: async () => {
+                        this.pluginDataEntries = [];
+                        await this.persist();
+                    }
+                };
+        }
+    }
+
+    /**
+     * Drops the oldest plugin-data entries beyond the configured maximum.
+     */
+    private trimPluginDataEntries(): void {
+        if (this.pluginDataEntries.length > this.maxEntries) {
+            this.pluginDataEntries = this.pluginDataEntries.slice(this.pluginDataEntries.length - this.maxEntries);
+        }
+    }
+
+    /**
+     * Normalizes the configured path and adds the storage's file extension.
+     *
+     * @param filePath - Path from settings, with or without extension
+     * @param extension - Extension required by the storage format
+     * @returns Normalized vault path
+     */
+    private resolvePath(filePath: string, extension: string): string {
+        const base = filePath.trim() || 'Freewriting prompt history';
+        return normalizePath(base.toLowerCase().endsWith(extension) ? base : `${base}${extension}`);
+    }
+}
+
+// MARK: - Vault Stores
+
+/**
+ * Keeps the complete history as a JSON array in a vault file.
+ */
+class VaultJsonHistoryStore implements HistoryStore {
+    /**
+     * @param vault - Vault containing the file
+     * @param path - Normalized path of the JSON file
+     */
+    constructor(private vault: Vault, private path: string) {}
+
+    async load(): Promise<PromptHistoryEntry[]> {
+        const file = this.vault.getAbstractFileByPath(this.path);
+        if (!(file instanceof TFile)) {
+            return [];
+        }
+        return this.parse(await this.vault.cachedRead(file));
+    }
+
+    async append(entries: PromptHistoryEntry[]): Promise<void> {
+        const file = await getOrCreateFile(this.vault, this.path, '[]');
+        await this.vault.process(file, (data) => JSON.stringify([...this.parse(data), ...entries], null, 2));
+    }
+
+    async clear(): Promise<void> {
+        const file = this.vault.getAbstractFileByPath(this.path);
+        if (file instanceof TFile) {
+            await this.vault.modify(file, '[]');
+        }
+    }
+
+    /**
+     * Parses the file content, skipping entries that don't look like history.
+     *
+     * @param data - File content
+     * @returns Valid entries
+     * @throws Error if the file isn't a JSON array, so a hand-edited file is never overwritten
+     */
+    private parse(data: string): PromptHistoryEntry[] {
+        if (data.trim().length === 0) {
+            return [];
+        }
+        const parsed = JSON.parse(data) as unknown;
+        if (!Array.isArray(parsed)) {
+            throw new Error(`History file is not a JSON array: ${this.path}`);
+        }
+        return parsed.filter((entry): entry is PromptHistoryEntry =>
+            !!entry && typeof entry === 'object' &&
+            typeof (entry as PromptHistoryEntry).text === 'string' &&
+            typeof (entry as PromptHistoryEntry).timestamp === 'number'
+        );
+    }
+}
+
+/**
+ * Keeps the history as a markdown list, one prompt per line:
+ *
+ * ```
+ * - 2025-01-15T14:30:00.000Z | timed | anthropic | claude-sonnet-4-5 | k3j2h1g0 | The prompt text
+ * ```
+ *
+ * Lines that don't match the format (headings, the user's own notes) are
+ * ignored when reading. Category and tags aren't stored in this format.
+ */
+class VaultMarkdownHistoryStore implements HistoryStore {
+    /** Heading written to a newly created file */
+    private static readonly HEADER = '# Freewriting prompt history\n\n';
+
+    /**
+     * @param vault - Vault containing the file
+     * @param path - Normalized path of the markdown file
+     */
+    constructor(private vault: Vault, private path: string) {}
+
+    async load(): Promise<PromptHistoryEntry[]> {
+        const file = this.vault.getAbstractFileByPath(this.path);
+        if (!(file instanceof TFile)) {
+            return [];
+        }
+
+        const content = await this.vault.cachedRead(file);
+        const entries: PromptHistoryEntry[] = [];
+        content.split('\n').forEach((line, index) => {
+            const entry = this.parseLine(line, index);
+            if (entry) {
+                entries.push(entry);
+            }
+        });
+        return entries;
+    }
+
+    async append(entries: PromptHistoryEntry[]): Promise<void> {
+        const file = await getOrCreateFile(this.vault, this.path, VaultMarkdownHistoryStore.HEADER);
+        await this.vault.process(file, (data) => {
+            const separator = data.length === 0 || data.endsWith('\n') ? '' : '\n';
+            return data + separator + entries.map(entry => this.formatLine(entry)).join('\n') + '\n';
+        });
+    }
+
+    async clear(): Promise<void> {
+        const file = this.vault.getAbstractFileByPath(this.path);
+        if (file instanceof TFile) {
+            await this.vault.modify(file, VaultMarkdownHistoryStore.HEADER);
+        }
+    }
+
+    /**
+     * Formats an entry as a single list item.
+     *
+     * @param entry - Entry to format
+     * @returns Markdown line without trailing newline
+     */
+    private formatLine(entry: PromptHistoryEntry): string {
+        const text = entry.text.replace(/\s+/g, ' ').trim();
+        return `- ${new Date(entry.timestamp).toISOString()} | ${entry.mode} | ${entry.provider} | ${entry.model} | ${entry.sessionId} | ${text}`;
+    }
+
+    /**
+     * Parses a list item written by formatLine.
+     *
+     * The prompt text is the last field, so it may itself contain " | ".
+     *
+     * @param line - Line of the history file
+     * @param index - Line number, used to build a stable ID
+     * @returns The entry, or null if the line isn't a history entry
+     */
+    private parseLine(line: string, index: number): PromptHistoryEntry | null {
+        const match = /^- (\S+) \| (timed|note) \| (\S+) \| (.+?) \| (\S+) \| (.+)$/.exec(line.trim());
+        if (!match) {
+            return null;
+        }
+
+        const timestamp = Date.parse(match[1]);
+        if (isNaN(timestamp)) {
+            return null;
+        }
+
+        return {
+            id: `md-${index}`,
+            text: match[6],
+            mode: match[2] as PromptType,
+            provider: match[3] as ProviderId,
+            model: match[4],
+            timestamp,
+            sessionId: match[5]
+        };
+    }
+}
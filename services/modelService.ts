@@ -1,21 +1,67 @@
 // ABOUTME: Service for managing Claude model list from Anthropic API
-// ABOUTME: Handles fetching, caching with 24-hour TTL, and fallback to hardcoded list
+// ABOUTME: Handles fetching, caching with 24-hour TTL, fallback to hardcoded list, and model metadata
 
 import { Notice } from 'obsidian';
 import { AnthropicClient } from '../api/anthropicClient';
-import { ModelInfo, ModelCache, ANTHROPIC_MODELS } from '../types';
+import { ModelInfo, ModelCache, ANTHROPIC_MODELS, KnownModel, ModelCostTier, ModelFamily, ModelSpeed, ModelStatus } from '../types';
 
 /**
- * Simplified model representation for UI display purposes.
- * Used to populate dropdown menus with user-friendly model names.
+ * Model representation for UI display purposes.
+ * Used to populate dropdown menus with user-friendly model names and to
+ * group, sort, and describe the models.
  */
 export interface ModelOption {
     /** Model identifier (e.g., 'claude-3-5-haiku-latest') */
     id: string;
     /** Human-readable display name for the UI */
     displayName: string;
+    /** Model family */
+    family: ModelFamily;
+    /** Release date (YYYY-MM-DD), empty if unknown */
+    releaseDate: string;
+    /** Relative price */
+    costTier: ModelCostTier;
+    /** Relative response speed */
+    speed: ModelSpeed;
+    /** Whether prompts can be requested as structured output */
+    structuredOutput: boolean;
+    /** Lifecycle status */
+    status: ModelStatus;
 }
 
+/**
+ * Models shown under one heading in the model picker.
+ */
+export interface ModelOptionGroup {
+    /** Group heading */
+    label: string;
+    /** Models in the group, newest first */
+    models: ModelOption[];
+}
+
+/**
+ * Result of checking the selected model against the available models.
+ */
+export interface ModelCheck {
+    /** The selected model, described */
+    model: ModelOption;
+    /** Whether the model is deprecated, retired, or missing from the API's list */
+    problem: 'deprecated' | 'unavailable' | null;
+    /** Suggested model to switch to, if there is a problem */
+    replacement?: ModelOption;
+}
+
+/** Order of the model families in the model picker */
+const FAMILY_ORDER: ModelFamily[] = ['opus', 'sonnet', 'haiku', 'other'];
+
+/** Group headings of the model families */
+const FAMILY_LABELS: Record<ModelFamily, string> = {
+    opus: 'Opus: most capable',
+    sonnet: 'Sonnet: balanced',
+    haiku: 'Haiku: fastest',
+    other: 'Other models'
+};
+
 /**
  * Service responsible for managing the list of available Claude models.
  *
@@ -24,6 +70,8 @@ export interface ModelOption {
  * - Caches results for 24 hours to minimize API calls
  * - Provides fallback to hardcoded model list when API is unavailable
  * - Handles graceful degradation when API key is not configured
+ * - Adds family, release date, cost, speed, and status metadata to every model
+ * - Flags deprecated or vanished selections and suggests replacements
  *
  * The 24-hour cache TTL balances freshness with API efficiency - models don't
  * change frequently enough to warrant more aggressive polling, but we want
@@ -138,6 +186,75 @@ export class ModelService {
         this.hasShownFallbackNotice = false;
     }
 
+    /**
+     * Describes any model ID, whether or not it's in the current list.
+     *
+     * Known models get their metadata from ANTHROPIC_MODELS, matched by ID
+     * without the date or "-latest" suffix. Models the plugin doesn't know
+     * yet get a family from their ID, their release date from the cached API
+     * data, and the family's usual cost and speed.
+     *
+     * @param id - Model ID
+     * @returns Model with metadata
+     */
+    describeModel(id: string): ModelOption {
+        const cached = this.modelCache?.models.find(model => model.id === id);
+        return cached ? this.toModelOption(cached) : this.toModelOption({ id, created_at: '', type: 'model' });
+    }
+
+    /**
+     * Checks whether the selected model is deprecated or no longer available.
+     *
+     * A model counts as unavailable if it's known to be retired, or if the
+     * Models API was reached and no longer lists it. The hardcoded fallback
+     * list isn't complete enough to decide that, so without API data only
+     * known retirements are flagged.
+     *
+     * @param id - Selected model ID
+     * @param models - Models already loaded, to avoid loading them again
+     * @returns The described model, the problem if any, and a suggested replacement
+     */
+    async checkModel(id: string, models?: ModelOption[]): Promise<ModelCheck> {
+        const available = models ?? await this.getAvailableModels();
+        const model = this.describeModel(id);
+        // "-latest" aliases aren't listed, but resolve to a listed snapshot
+        const listed = available.some(option => getBaseId(option.id) === getBaseId(id));
+
+        let problem: ModelCheck['problem'] = null;
+        if (model.status === 'retired' || (this.modelCache !== null && !listed)) {
+            problem = 'unavailable';
+        } else if (model.status === 'deprecated') {
+            problem = 'deprecated';
+        }
+
+        return {
+            model,
+            problem,
+            replacement: problem ? this.suggestReplacement(model, available) : undefined
+        };
+    }
+
+    /**
+     * Suggests a model to replace one that is deprecated or gone.
+     *
+     * Prefers the newest current model of the same family, then the newest
+     * current model with the same cost tier, then the newest current model.
+     *
+     * @param model - Model to replace
+     * @param available - Models to choose from
+     * @returns Suggested model, or undefined if there is no other model
+     */
+    suggestReplacement(model: ModelOption, available: ModelOption[]): ModelOption | undefined {
+        const candidates = available
+            .filter(option => option.id !== model.id)
+            .sort((a, b) => compareStatus(a, b) || b.releaseDate.localeCompare(a.releaseDate));
+        const current = candidates.filter(option => option.status === 'current');
+
+        return current.find(option => option.family === model.family && model.family !== 'other')
+            ?? current.find(option => option.costTier === model.costTier)
+            ?? candidates[0];
+    }
+
     // MARK: - Private Methods
 
     /**
@@ -245,33 +362,143 @@ export class ModelService {
     /**
      * Transforms API model data into UI-friendly format.
      *
-     * Prefers display_name when available for better UX, falls back to
-     * model ID if display_name is missing. Results are sorted alphabetically
-     * for easier scanning in the dropdown.
+     * Results are sorted by family and then newest first, the order the
+     * dropdown shows them in.
      *
      * @param models - Raw model info from API
      * @returns Formatted options ready for dropdown display
      */
     private formatModels(models: ModelInfo[]): ModelOption[] {
-        return models.map(model => ({
+        return sortModels(models.map(model => this.toModelOption(model)));
+    }
+
+    /**
+     * Adds metadata to a model from the API.
+     *
+     * Prefers display_name when available for better UX, falls back to the
+     * known model's name, then to the model ID. The API's created_at is the
+     * release date when present.
+     *
+     * @param model - Raw model info
+     * @returns Model with metadata
+     */
+    private toModelOption(model: ModelInfo): ModelOption {
+        const known = findKnownModel(model.id);
+        const family = known?.family ?? getFamily(model.id);
+        return {
             id: model.id,
-            displayName: model.display_name || model.id
-        })).sort((a, b) => a.displayName.localeCompare(b.displayName));
+            displayName: model.display_name || known?.displayName || model.id,
+            family,
+            releaseDate: model.created_at ? model.created_at.slice(0, 10) : known?.releaseDate ?? '',
+            costTier: known?.costTier ?? (family === 'opus' ? 'high' : family === 'haiku' ? 'low' : 'medium'),
+            speed: known?.speed ?? (family === 'opus' ? 'slow' : family === 'haiku' ? 'fast' : 'balanced'),
+            structuredOutput: this.anthropicClient.supportsStructuredOutput(model.id),
+            status: known?.status ?? 'current'
+        };
     }
 
     /**
      * Provides fallback model list when API is unavailable.
      *
-     * Uses the hardcoded ANTHROPIC_MODELS constant which should be periodically
-     * updated to include newly released models. This ensures the plugin remains
-     * functional even during API outages or when no API key is configured.
+     * Uses the models in the hardcoded ANTHROPIC_MODELS constant that aren't
+     * retired. The constant should be periodically updated to include newly
+     * released models. This ensures the plugin remains functional even during
+     * API outages or when no API key is configured.
      *
      * @returns Array of fallback model options
      */
     private getFallbackModels(): ModelOption[] {
-        return ANTHROPIC_MODELS.map(id => ({
-            id,
-            displayName: id
-        })).sort((a, b) => a.displayName.localeCompare(b.displayName));
+        return sortModels(ANTHROPIC_MODELS
+            .filter(model => model.status !== 'retired')
+            .map(model => this.toModelOption({ id: model.id, display_name: model.displayName, created_at: '', type: 'model' })));
     }
 }
+
+/**
+ * Groups models by family for the model picker, with deprecated models last.
+ *
+ * @param models - Models to group
+ * @returns Non-empty groups in display order
+ */
+export function groupModels(models: ModelOption[]): ModelOptionGroup[] {
+    const sorted = sortModels(models);
+    const groups: ModelOptionGroup[] = FAMILY_ORDER.map(family => ({
+        label: FAMILY_LABELS[family],
+        models: sorted.filter(model => model.family === family && model.status === 'current')
+    }));
+    groups.push({ label: 'Deprecated', models: sorted.filter(model => model.status !== 'current') });
+    return groups.filter(group => group.models.length > 0);
+}
+
+/**
+ * Summarizes a model's metadata in one line.
+ *
+ * @param model - Model to describe
+ * @returns Text such as "Released 2025-10-15 · $ · fast · structured output"
+ */
+export function describeModelOption(model: ModelOption): string {
+    const cost = { low: '$', medium: '$$', high: '$$$' }[model.costTier];
+    return [
+        model.releaseDate ? `Released ${model.releaseDate}` : '',
+        cost,
+        model.speed,
+        model.structuredOutput ? 'structured output' : 'list output only'
+    ].filter(part => part.length > 0).join(' · ');
+}
+
+/**
+ * Finds the known model an ID belongs to.
+ *
+ * @param id - Model ID, with or without a date or "-latest" suffix
+ * @returns Known model with the same base ID, or undefined
+ */
+function findKnownModel(id: string): KnownModel | undefined {
+    const base = getBaseId(id);
+    return ANTHROPIC_MODELS.find(model => model.id === id) ?? ANTHROPIC_MODELS.find(model => getBaseId(model.id) === base);
+}
+
+/**
+ * Removes the date or "-latest" suffix from a model ID.
+ *
+ * @param id - Model ID
+ * @returns ID shared by every snapshot of the model
+ */
+function getBaseId(id: string): string {
+    return id.replace(/-(?:\d{8}|latest)$/, '');
+}
+
+/**
+ * Derives the family from a model ID.
+ *
+ * @param id - Model ID
+ * @returns Family named in the ID, or 'other'
+ */
+function getFamily(id: string): ModelFamily {
+    const match = id.match(/opus|sonnet|haiku/);
+    return match ? match[0] as ModelFamily : 'other';
+}
+
+/**
+ * Sorts models by family, then newest first.
+ *
+ * @param models - Models to sort
+ * @returns Sorted copy
+ */
+function sortModels(models: ModelOption[]): ModelOption[] {
+    return models.slice().sort((a, b) =>
+        FAMILY_ORDER.indexOf(a.family) - FAMILY_ORDER.indexOf(b.family) ||
+        b.releaseDate.localeCompare(a.releaseDate) ||
+        a.displayName.localeCompare(b.displayName));
+}
+
+/**
+ * Orders current models before deprecated and retired ones.
+ *
+ * @param a - First model
+ * @param b - Second model
+ * @returns Negative if a comes first
+ */
+function compareStatus(a: ModelOption, b: ModelOption): number {
+    const order: ModelStatus[] = ['current', 'deprecated', 'retired'];
+    return order.indexOf(a.status) - order.indexOf(b.status);
+}
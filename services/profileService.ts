@@ -0,0 +1,383 @@
+// ABOUTME: Named prompt profiles bundling system prompt, examples, models, counts, and prompt type parameters
+// ABOUTME: Switches, creates, deletes, imports, and exports profiles stored in the plugin settings
+
+import { FreewritingPromptsSettings, ModeParameters, ProfileField, PromptProfile, PromptType } from '../types';
+
+/** Settings copied between the active profile and the top-level settings */
+const PROFILE_FIELDS: ProfileField[] = [
+    'systemPrompt',
+    'timedExamplePrompt',
+    'freewritingExamplePrompt',
+    'model',
+    'openAIModel',
+    'timedCount',
+    'noteCount',
+    'delaySeconds',
+    'modeParameters'
+];
+
+/** Profile fields holding a single string or number */
+const SCALAR_FIELDS = PROFILE_FIELDS.filter((field): field is Exclude<ProfileField, 'modeParameters'> => field !== 'modeParameters');
+
+/** Valid ranges for numeric profile fields, matching validateSettings */
+const NUMERIC_RANGES: Partial<Record<ProfileField, [number, number]>> = {
+    timedCount: [1, 50],
+    noteCount: [1, 20],
+    delaySeconds: [1, 300]
+};
+
+/** Format version written by exportProfiles */
+const EXPORT_VERSION = 1;
+
+/**
+ * Service managing prompt profiles.
+ *
+ * The top-level settings always hold the values of the active profile, so the
+ * settings tab and the commands keep working on plain settings. Switching
+ * profiles copies the profile into the settings; saving copies the settings
+ * back into the active profile (see syncActiveProfile).
+ *
+ * Profiles that aren't active can still be used directly: withProfile()
+ * returns settings with a profile applied, which the per-profile commands use
+ * without changing the active profile.
+ */
+export class ProfileService {
+    /**
+     * Creates a new profile service.
+     *
+     * @param settings - Plugin settings holding the profiles, modified in place
+     */
+    constructor(private settings: FreewritingPromptsSettings) {
+        this.ensureProfiles();
+    }
+
+    // MARK: - Queries
+
+    /**
+     * Returns all profiles in display order.
+     *
+     * @returns Profiles stored in the settings
+     */
+    getProfiles(): PromptProfile[] {
+        return this.settings.profiles;
+    }
+
+    /**
+     * Returns the profile whose values the settings currently hold.
+     *
+     * @returns Active profile
+     */
+    getActiveProfile(): PromptProfile {
+        return this.settings.profiles.find(profile => profile.id === this.settings.activeProfileId)
+            ?? this.settings.profiles[0];
+    }
+
+    /**
+     * Returns the settings with a profile's values applied.
+     *
+     * The plugin settings are left untouched, so a profile can run without
+     * becoming the active one.
+     *
+     * @param profile - Profile to apply
+     * @returns Copy of the settings using the profile's prompts, models, and counts,
+     *   with the profile marked active so it can be named in inserted prompts
+     */
+    withProfile(profile: PromptProfile): FreewritingPromptsSettings {
+        const settings = { ...this.settings, activeProfileId: profile.id };
+        copyFields(profile, settings);
+        return settings;
+    }
+
+    // MARK: - Changes
+
+    /**
+     * Copies the top-level settings into the active profile.
+     * Called before saving so edits in the settings tab land in the active profile.
+     */
+    syncActiveProfile(): void {
+        copyFields(this.settings, this.getActiveProfile());
+    }
+
+    /**
+     * Makes a profile active and loads its values into the settings.
+     *
+     * @param id - ID of the profile to activate
+     * @returns The activated profile, or undefined if no profile has this ID
+     */
+    activate(id: string): PromptProfile | undefined {
+        const profile = this.settings.profiles.find(p => p.id === id);
+        if (!profile) {
+            return undefined;
+        }
+        this.syncActiveProfile();
+        this.settings.activeProfileId = profile.id;
+        copyFields(profile, this.settings);
+        return profile;
+    }
+
+    /**
+     * Creates a profile from the current settings and makes it active.
+     *
+     * @param name - Display name; made unique if another profile already uses it
+     * @returns The new profile
+     */
+    create(name: string): PromptProfile {
+        this.syncActiveProfile();
+        const profile = this.createProfile(this.getUniqueName(name), this.settings);
+        this.settings.profiles = [...this.settings.profiles, profile];
+        this.settings.activeProfileId = profile.id;
+        return profile;
+    }
+
+    /**
+     * Renames a profile.
+     *
+     * @param id - ID of the profile to rename
+     * @param name - New display name, ignored if blank
+     */
+    rename(id: string, name: string): void {
+        const profile = this.settings.profiles.find(p => p.id === id);
+        if (profile && name.trim().length > 0) {
+            profile.name = name.trim();
+        }
+    }
+
+    /**
+     * Deletes a profile. The last remaining profile can't be deleted.
+     *
+     * If the active profile is deleted, the first remaining profile becomes active.
+     *
+     * @param id - ID of the profile to delete
+     * @returns true if the profile was deleted
+     */
+    delete(id: string): boolean {
+        if (this.settings.profiles.length <= 1 || !this.settings.profiles.some(p => p.id === id)) {
+            return false;
+        }
+        this.settings.profiles = this.settings.profiles.filter(p => p.id !== id);
+        if (this.settings.activeProfileId === id) {
+            this.settings.activeProfileId = this.settings.profiles[0].id;
+            copyFields(this.settings.profiles[0], this.settings);
+        }
+        return true;
+    }
+
+    // MARK: - Import and Export
+
+    /**
+     * Serializes all profiles as JSON for sharing or backup.
+     *
+     * IDs are omitted; imported profiles get new ones.
+     *
+     * @returns Pretty-printed JSON document
+     */
+    exportProfiles(): string {
+        this.syncActiveProfile();
+        const profiles = this.settings.profiles.map(profile => {
+            const exported: Record<string, unknown> = { name: profile.name };
+            PROFILE_FIELDS.forEach(field => {
+                exported[field] = profile[field];
+            });
+            return exported;
+        });
+        return JSON.stringify({ version: EXPORT_VERSION, profiles }, null, 2);
+    }
+
+    /**
+     * Adds profiles from exported JSON.
+     *
+     * Accepts the format written by exportProfiles, a bare array of profiles,
+     * or a single profile object. A profile whose name matches an existing
+     * one replaces that profile's values. Missing or invalid fields fall back
+     * to the current settings.
+     *
+     * @param json - JSON document to import
+     * @returns Number of profiles imported
+     * @throws Error with a user-facing message if the document can't be used
+     */
+    importProfiles(json: string): number {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(json);
+        } catch {
+            throw new Error('The text is not valid JSON.');
+        }
+
+        const candidates = Array.isArray(parsed)
+            ? parsed
+            : isRecord(parsed) && Array.isArray(parsed.profiles)
+                ? parsed.profiles as unknown[]
+                : [parsed];
+        const records = candidates.filter(isRecord).filter(c => typeof c.name === 'string' && c.name.trim().length > 0);
+        if (records.length === 0) {
+            throw new Error('No profiles with a name were found.');
+        }
+
+        this.syncActiveProfile();
+        records.forEach(record => {
+            const name = (record.name as string).trim();
+            const existing = this.settings.profiles.find(p => p.name === name);
+            const imported = this.createProfile(name, this.readFields(record, existing ?? this.settings));
+            if (existing) {
+                copyFields(imported, existing);
+            } else {
+                this.settings.profiles = [...this.settings.profiles, imported];
+            }
+        });
+
+        // Re-apply the active profile in case an import replaced its values
+        copyFields(this.getActiveProfile(), this.settings);
+        return records.length;
+    }
+
+    // MARK: - Private Methods
+
+    /**
+     * Makes sure at least one profile exists and the active ID is valid.
+     *
+     * Existing installations have no profiles yet; their current settings
+     * become the "Default" profile so nothing changes for them.
+     */
+    private ensureProfiles(): void {
+        const profiles = Array.isArray(this.settings.profiles) ? this.settings.profiles : [];
+        // Copy so edits never touch the array in DEFAULT_SETTINGS. Profiles
+        // saved before they held prompt type parameters get the current ones.
+        this.settings.profiles = profiles.length > 0
+            ? profiles.map(profile => ({
+                ...profile,
+                modeParameters: readModeParameters(profile.modeParameters, this.settings.modeParameters)
+            }))
+            : [this.createProfile('Default', this.settings)];
+
+        if (!this.settings.profiles.some(p => p.id === this.settings.activeProfileId)) {
+            this.settings.activeProfileId = this.settings.profiles[0].id;
+        }
+    }
+
+    /**
+     * Builds a profile with a new ID.
+     *
+     * @param name - Display name
+     * @param values - Source of the profile's field values
+     * @returns New profile
+     */
+    private createProfile(name: string, values: Pick<FreewritingPromptsSettings, ProfileField>): PromptProfile {
+        const profile = { id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`, name } as PromptProfile;
+        copyFields(values, profile);
+        return profile;
+    }
+
+    /**
+     * Reads profile fields from an imported object, validating types and ranges.
+     *
+     * @param record - Imported object
+     * @param fallback - Values used for missing or invalid fields
+     * @returns Complete set of profile fields
+     */
+    private readFields(
+        record: Record<string, unknown>,
+        fallback: Pick<FreewritingPromptsSettings, ProfileField>
+    ): Pick<FreewritingPromptsSettings, ProfileField> {
+        const values = {} as Record<Exclude<ProfileField, 'modeParameters'>, string | number>;
+        SCALAR_FIELDS.forEach(field => {
+            const value = record[field];
+            const range = NUMERIC_RANGES[field];
+            if (range) {
+                const valid = typeof value === 'number' && Number.isInteger(value) && value >= range[0] && value <= range[1];
+                values[field] = valid ? value : fallback[field];
+            } else {
+                values[field] = typeof value === 'string' && value.trim().length > 0 ? value : fallback[field];
+            }
+        });
+        return { ...values, modeParameters: readModeParameters(record.modeParameters, fallback.modeParameters) } as Pick<FreewritingPromptsSettings, ProfileField>;
+    }
+
+    /**
+     * Appends a counter to a name already used by another profile.
+     *
+     * @param name - Requested name
+     * @returns Name not used by any profile
+     */
+    private getUniqueName(name: string): string {
+        const base = name.trim() || 'Profile';
+        const names = new Set(this.settings.profiles.map(p => p.name));
+        let candidate = base;
+        for (let i = 2; names.has(candidate); i++) {
+            candidate = `${base} ${i}`;
+        }
+        return candidate;
+    }
+}
+
+/**
+ * Copies the profile fields from one object to another.
+ * Prompt type parameters are copied per type so the two never share objects.
+ *
+ * @param source - Object to read the fields from
+ * @param target - Object to write the fields to
+ */
+function copyFields(
+    source: Pick<FreewritingPromptsSettings, ProfileField>,
+    target: Pick<FreewritingPromptsSettings, ProfileField>
+): void {
+    const from = source as Record<ProfileField, unknown>;
+    const to = target as Record<ProfileField, unknown>;
+    SCALAR_FIELDS.forEach(field => {
+        to[field] = from[field];
+    });
+    target.modeParameters = readModeParameters(source.modeParameters, source.modeParameters);
+}
+
+/**
+ * Reads prompt type parameters, validating types and ranges.
+ *
+ * Temperatures up to 2 are accepted since a profile may be used with an
+ * OpenAI-compatible server; validateSettings catches values Claude rejects.
+ *
+ * @param value - Stored or imported parameters, possibly incomplete
+ * @param fallback - Parameters used for missing prompt types and invalid fields
+ * @returns Complete parameters with new objects for every prompt type
+ */
+function readModeParameters(value: unknown, fallback: Record<PromptType, ModeParameters>): Record<PromptType, ModeParameters> {
+    const modes = {} as Record<PromptType, ModeParameters>;
+    (Object.keys(fallback) as PromptType[]).forEach(type => {
+        const saved = isRecord(value) && isRecord(value[type]) ? value[type] : {};
+        const defaults = fallback[type];
+        modes[type] = {
+            model: typeof saved.model === 'string' ? saved.model.trim() : defaults.model,
+            openAIModel: typeof saved.openAIModel === 'string' ? saved.openAIModel.trim() : defaults.openAIModel,
+            temperature: readOptionalNumber(saved.temperature, 0, 2, defaults.temperature),
+            topP: readOptionalNumber(saved.topP, 0, 1, defaults.topP),
+            maxTokens: typeof saved.maxTokens === 'number' && Number.isInteger(saved.maxTokens) && saved.maxTokens >= 50 && saved.maxTokens <= 2000
+                ? saved.maxTokens
+                : defaults.maxTokens
+        };
+    });
+    return modes;
+}
+
+/**
+ * Reads a number that may be null for "use the default".
+ *
+ * @param value - Stored or imported value
+ * @param min - Smallest valid value
+ * @param max - Largest valid value
+ * @param fallback - Value used when the value is missing or invalid
+ * @returns The value if valid, otherwise the fallback
+ */
+function readOptionalNumber(value: unknown, min: number, max: number, fallback: number | null): number | null {
+    if (value === null) {
+        return null;
+    }
+    return typeof value === 'number' && value >= min && value <= max ? value : fallback;
+}
+
+/**
+ * Checks whether a parsed JSON value is a plain object.
+ *
+ * @param value - Parsed value
+ * @returns true for non-null, non-array objects
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
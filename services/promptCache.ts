@@ -0,0 +1,172 @@
+// ABOUTME: Cache of generated prompts by request parameters, persisted alongside the plugin settings
+// ABOUTME: Supports reusing cached lists within the TTL or handing each cached prompt out only once
+
+import { PromptCacheEntry, PromptItem } from '../types';
+
+/**
+ * Size of the cache, shown before clearing it.
+ */
+export interface PromptCacheStats {
+    /** Number of cached request parameter combinations */
+    entries: number;
+    /** Number of cached prompts across all entries */
+    prompts: number;
+}
+
+/**
+ * Service storing generated prompts by cache key.
+ *
+ * The entries are plain data with numeric timestamps, so they're saved in
+ * data.json next to the model cache and survive restarts. Expired entries
+ * are dropped when they're looked up and whenever prompts are stored, and
+ * only the newest MAX_ENTRIES entries are kept, so settings that are no
+ * longer used don't leave entries behind forever.
+ *
+ * The cache policy is applied by PromptGeneratorService: get() serves an
+ * entry as often as it's requested, take() removes what it returns.
+ */
+export class PromptCacheService {
+    /** Maximum number of entries kept */
+    private static readonly MAX_ENTRIES = 50;
+    /** Entries by cache key */
+    private entries: Record<string, PromptCacheEntry>;
+
+    /**
+     * Creates a new prompt cache service.
+     *
+     * @param entries - Entries loaded from plugin data
+     * @param persist - Saves plugin data, called after every change
+     */
+    constructor(
+        entries: Record<string, PromptCacheEntry> | undefined,
+        private persist: () => Promise<void>
+    ) {
+        this.entries = typeof entries === 'object' && entries !== null ? entries : {};
+    }
+
+    // MARK: - Queries
+
+    /**
+     * Returns the prompts of an entry if it's still valid.
+     *
+     * @param key - Cache key
+     * @param ttlMs - Maximum age of the entry in milliseconds
+     * @returns Cached prompts, or null if the entry is missing, empty, or expired
+     */
+    get(key: string, ttlMs: number): PromptItem[] | null {
+        const entry = this.entries[key];
+        if (!entry || !Array.isArray(entry.prompts) || entry.prompts.length === 0 || this.isExpired(entry, ttlMs)) {
+            return null;
+        }
+        return entry.prompts;
+    }
+
+    /**
+     * Counts the cached entries and prompts.
+     *
+     * @returns Number of entries and prompts
+     */
+    getStats(): PromptCacheStats {
+        const entries = Object.values(this.entries);
+        return {
+            entries: entries.length,
+            prompts: entries.reduce((sum, entry) => sum + (Array.isArray(entry.prompts) ? entry.prompts.length : 0), 0)
+        };
+    }
+
+    /**
+     * Returns every entry, for saving in plugin data.
+     *
+     * @returns Entries by cache key
+     */
+    getEntries(): Record<string, PromptCacheEntry> {
+        return this.entries;
+    }
+
+    // MARK: - Changes
+
+    /**
+     * Removes and returns the prompts of an entry.
+     *
+     * @param key - Cache key
+     * @param ttlMs - Maximum age of the entry in milliseconds
+     * @returns Cached prompts, or none if the entry is missing or expired
+     */
+    async take(key: string, ttlMs: number): Promise<PromptItem[]> {
+        const prompts = this.get(key, ttlMs) ?? [];
+        if (!this.entries[key]) {
+            return prompts;
+        }
+        delete this.entries[key];
+        await this.persist();
+        return prompts;
+    }
+
+    /**
+     * Stores prompts under a key, replacing the previous entry.
+     *
+     * @param key - Cache key
+     * @param prompts - Prompts to store
+     * @param ttlMs - Maximum age of entries, used to drop expired ones
+     */
+    async set(key: string, prompts: PromptItem[], ttlMs: number): Promise<void> {
+        this.prune(ttlMs);
+        if (prompts.length > 0) {
+            this.entries[key] = { prompts, generatedAt: Date.now() };
+            this.limitEntries();
+        } else {
+            delete this.entries[key];
+        }
+        await this.persist();
+    }
+
+    /**
+     * Removes every entry.
+     *
+     * @returns Number of entries and prompts that were discarded
+     */
+    async clear(): Promise<PromptCacheStats> {
+        const stats = this.getStats();
+        this.entries = {};
+        await this.persist();
+        return stats;
+    }
+
+    // MARK: - Private Methods
+
+    /**
+     * Checks whether an entry is older than the TTL.
+     *
+     * @param entry - Entry to check
+     * @param ttlMs - Maximum age in milliseconds
+     * @returns true if the entry expired
+     */
+    private isExpired(entry: PromptCacheEntry, ttlMs: number): boolean {
+        return typeof entry.generatedAt !== 'number' || Date.now() - entry.generatedAt > ttlMs;
+    }
+
+    /**
+     * Drops expired entries.
+     *
+     * @param ttlMs - Maximum age in milliseconds
+     */
+    private prune(ttlMs: number): void {
+        Object.keys(this.entries).forEach(key => {
+            if (this.isExpired(this.entries[key], ttlMs)) {
+                delete this.entries[key];
+            }
+        });
+    }
+
+    /**
+     * Drops the oldest entries beyond MAX_ENTRIES.
+     */
+    private limitEntries(): void {
+        Object.entries(this.entries)
+            .sort((a, b) => b[1].generatedAt - a[1].generatedAt)
+            .slice(PromptCacheService.MAX_ENTRIES)
+            .forEach(([key]) => {
+                delete this.entries[key];
+            });
+    }
+}
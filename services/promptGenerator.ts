@@ -1,37 +1,70 @@
 // ABOUTME: Service layer for generating writing prompts with caching and error handling
-// ABOUTME: Coordinates between the Anthropic API client and plugin commands
+// ABOUTME: Coordinates between the selected LLM provider and plugin commands
 
 import { Notice } from 'obsidian';
 import { AnthropicClient } from '../api/anthropicClient';
-import { FreewritingPromptsSettings, GeneratedPrompt } from '../types';
+import { OpenAICompatibleClient } from '../api/openAICompatibleClient';
+import { PromptCallback, PromptItemCallback, PromptProvider } from '../api/promptProvider';
+import { describeError, NetworkError, OverloadedError, RateLimitError, ServerError } from '../api/errors';
+import { DEFAULT_RETRY_POLICY, RetryAttempt } from '../api/retry';
+import { FeedbackService } from './feedbackService';
+import { HistoryService } from './historyService';
+import { PromptLibraryService } from './promptLibrary';
+import { PromptPoolService } from './promptPool';
+import { PromptCacheService, PromptCacheStats } from './promptCache';
+import { formatCost, UsageService } from './usageService';
+import { PromptDeduplicator } from './promptSimilarity';
+import { CachePolicy, FreewritingPromptsSettings, PromptItem, PromptRequest, PromptType } from '../types';
 
 /**
  * Service that coordinates prompt generation between commands and the API client.
  *
  * This service layer provides:
  * - High-level methods for different prompt types (timed vs note)
- * - In-memory caching with 10-minute TTL to avoid redundant API calls
+ * - Provider selection (Anthropic or an OpenAI-compatible server) per settings
+ * - Streaming delivery so commands can show prompts as they arrive
+ * - Persistent caching with a configurable policy and TTL to avoid redundant API calls
+ * - Retry progress notices while a provider backs off from transient failures
+ * - Recording freshly generated prompts in the persistent history
+ * - Favorites as extra examples and filtering of blocked prompts
+ * - Dropping near-duplicates of recent prompts and topping up the list
+ * - Offline prompts from the local library, on request or when the provider fails
+ * - Pools of prefetched prompts, refilled in the background, for instant commands
+ * - Recording token usage of every request and enforcing the monthly budget
  * - Settings validation before attempting generation
  * - User feedback via Obsidian notices
  * - Error handling and propagation
  *
- * The 10-minute cache is relatively short because:
- * 1. Users expect fresh prompts when they explicitly request them
- * 2. The cache prevents rapid-fire duplicate requests during a single session
- * 3. Memory usage is minimal (cache is just strings with timestamps)
+ * The cache policy decides what a cache hit means. 'reuse' serves the same
+ * prompts to identical requests within the TTL, which saves requests but
+ * repeats prompts. 'consume-once' only caches prompts the writer hasn't
+ * seen (extra prompts a model returned beyond the requested count) and
+ * hands each out once, so running a command twice never repeats prompts.
  */
 export class PromptGeneratorService {
     private client: AnthropicClient;
-    /** In-memory cache mapping request parameters to generated prompts */
-    private cache: Map<string, GeneratedPrompt[]> = new Map();
+    /** Client for OpenAI-compatible servers (OpenAI, Ollama, LM Studio, llama.cpp) */
+    private openAICompatibleClient: OpenAICompatibleClient;
     /** In-flight requests to prevent duplicate concurrent API calls */
-    private inFlight: Map<string, Promise<string[]>> = new Map();
-    /** Cache expiry time in milliseconds (10 minutes) */
-    private readonly cacheExpiryMs = 10 * 60 * 1000; // 10 minutes
+    private inFlight: Map<string, Promise<PromptItem[]>> = new Map();
+    /** Pools currently being refilled, so each pool has at most one refill request */
+    private refilling = new Set<string>();
+    /** Prompts generated this session, so deduplication works even with history disabled */
+    private recentlyGenerated: string[] = [];
+    /** How far back deduplication looks in the history (14 days) */
+    private static readonly RECENT_WINDOW_MS = 14 * 24 * 60 * 60 * 1000;
+    /** Maximum number of history prompts new prompts are compared against */
+    private static readonly RECENT_HISTORY_LIMIT = 500;
+    /** Maximum number of prompts kept in recentlyGenerated */
+    private static readonly RECENT_SESSION_LIMIT = 200;
+    /** Follow-up requests made to replace prompts dropped as duplicates */
+    private static readonly MAX_TOP_UPS = 2;
+    /** Maximum number of prompts listed as "avoid" in a top-up request */
+    private static readonly MAX_TOP_UP_AVOID = 50;
 
     /**
-     * Exposes the underlying API client for direct access.
-     * Used by settings tab to test API key connectivity.
+     * Exposes the underlying Anthropic client for direct access.
+     * Used by ModelService to fetch the Claude model list.
      */
     get anthropicClient(): AnthropicClient {
         return this.client;
@@ -40,10 +73,34 @@ export class PromptGeneratorService {
     /**
      * Creates a new prompt generator service.
      *
-     * @param settings - Plugin settings containing API key and configuration
+     * @param settings - Plugin settings containing API keys and configuration
+     * @param history - Persistent history that receives every freshly generated prompt
+     * @param feedback - Favorites and blocklist that steer and filter generation
+     * @param library - Offline prompt library used in offline mode and as a fallback
+     * @param pool - Persistent pools of prefetched prompts
+     * @param cache - Persistent cache of generated prompts
+     * @param usage - Token usage records, also used for the monthly budget
      */
-    constructor(settings: FreewritingPromptsSettings) {
+    constructor(
+        settings: FreewritingPromptsSettings,
+        private history: HistoryService,
+        private feedback: FeedbackService,
+        private library: PromptLibraryService,
+        private pool: PromptPoolService,
+        private cache: PromptCacheService,
+        private usage: UsageService
+    ) {
         this.client = new AnthropicClient(settings.apiKey);
+        this.openAICompatibleClient = new OpenAICompatibleClient(settings.openAIBaseUrl, settings.openAIApiKey);
+        this.updateRetryPolicy(settings.maxRetries);
+        [this.client, this.openAICompatibleClient].forEach(provider => {
+            provider.setUsageListener(tokenUsage => {
+                // Usage is bookkeeping; failing to save it must not affect generation
+                this.usage.record(provider.id, tokenUsage).catch(error => {
+                    console.error('Failed to record token usage:', error);
+                });
+            });
+        });
     }
 
     // MARK: - Public Methods
@@ -56,17 +113,12 @@ export class PromptGeneratorService {
      * to guide style and applies special system instructions for brevity.
      *
      * @param settings - Current plugin settings
+     * @param onPrompt - Optional callback receiving each prompt as soon as it's available
      * @returns Array of short, focused prompts for rapid response
-     * @throws Error if API key is invalid or generation fails
+     * @throws Error if API key is invalid or generation fails (and the library can't fill in)
      */
-    async generateTimedPrompts(settings: FreewritingPromptsSettings): Promise<string[]> {
-        return this.generatePrompts(
-            settings.timedCount,
-            settings.model,
-            settings.systemPrompt,
-            settings.timedExamplePrompt,
-            'timed'
-        );
+    async generateTimedPrompts(settings: FreewritingPromptsSettings, onPrompt?: PromptCallback): Promise<string[]> {
+        return this.generateWithFallback(this.createRequest('timed', settings), settings, onPrompt);
     }
 
     /**
@@ -76,18 +128,67 @@ export class PromptGeneratorService {
      * as text into a note rather than appearing as brief notifications. Uses
      * the freewritingExamplePrompt to guide style.
      *
+     * With context or vault references, the prompts build on the writer's
+     * text or notes instead of standing alone. Library prompts can't build
+     * on them, so in offline mode and after a fallback the prompts stand
+     * alone, and prefetched prompts are only used without sources.
+     *
      * @param settings - Current plugin settings
+     * @param onPrompt - Optional callback receiving each prompt as soon as it's available
+     * @param sources - Optional note or selection text and vault material the prompts should build on
      * @returns Array of creative prompts suitable for note insertion
-     * @throws Error if API key is invalid or generation fails
+     * @throws Error if API key is invalid or generation fails (and the library can't fill in)
+     */
+    async generateNotePrompts(
+        settings: FreewritingPromptsSettings,
+        onPrompt?: PromptCallback,
+        sources: Pick<PromptRequest, 'context' | 'vaultReferences'> = {}
+    ): Promise<string[]> {
+        return this.generateWithFallback({ ...this.createRequest('note', settings), ...sources }, settings, onPrompt);
+    }
+
+    /**
+     * Fills the prompt pools of both prompt types in the background.
+     *
+     * Called once the workspace is ready, so the first command of a session
+     * can already use prefetched prompts. Pools are also refilled after
+     * every generation request.
+     *
+     * @param settings - Current plugin settings
+     */
+    async prefetch(settings: FreewritingPromptsSettings): Promise<void> {
+        await this.refillPool('timed', settings);
+        await this.refillPool('note', settings);
+    }
+
+    /**
+     * Returns the provider selected in settings.
+     *
+     * @param settings - Current plugin settings
+     * @returns Provider that should handle generation and connection tests
+     */
+    getProvider(settings: FreewritingPromptsSettings): PromptProvider {
+        return settings.provider === 'openai-compatible' ? this.openAICompatibleClient : this.client;
+    }
+
+    /**
+     * Returns the model configured for the selected provider.
+     *
+     * Each provider keeps its own model setting so switching between Anthropic
+     * and a local server doesn't lose either selection. Both belong to the
+     * profile, as do the prompt type parameters; a model set for the prompt
+     * type overrides the provider's model.
+     *
+     * @param settings - Current plugin settings
+     * @param type - Prompt type whose model to use, or undefined for the provider's model
+     * @returns Model identifier for the active provider
      */
-    async generateNotePrompts(settings: FreewritingPromptsSettings): Promise<string[]> {
-        return this.generatePrompts(
-            settings.noteCount,
-            settings.model,
-            settings.systemPrompt,
-            settings.freewritingExamplePrompt,
-            'note'
-        );
+    getActiveModel(settings: FreewritingPromptsSettings, type?: PromptType): string {
+        const mode = type ? settings.modeParameters[type] : undefined;
+        if (settings.provider === 'openai-compatible') {
+            return mode?.openAIModel.trim() || settings.openAIModel;
+        }
+        return mode?.model.trim() || settings.model;
     }
 
     /**
@@ -100,7 +201,34 @@ export class PromptGeneratorService {
      */
     updateApiKey(apiKey: string): void {
         this.client.updateApiKey(apiKey);
-        this.clearCache(); // Clear cache when API key changes
+        void this.clearCache(); // Clear cache when API key changes
+    }
+
+    /**
+     * Updates the connection details for the OpenAI-compatible client.
+     *
+     * Clears the cache since prompts from a different server or account
+     * shouldn't be served for the new configuration.
+     *
+     * @param baseUrl - New server base URL
+     * @param apiKey - New server API key (may be empty)
+     */
+    updateOpenAICompatibleConfig(baseUrl: string, apiKey: string): void {
+        this.openAICompatibleClient.updateConfig(baseUrl, apiKey);
+        void this.clearCache();
+    }
+
+    /**
+     * Applies the user's retry limit to both providers.
+     * Called on load and whenever settings are saved.
+     *
+     * @param maxRetries - Number of retries after the first attempt (0 disables retrying)
+     */
+    updateRetryPolicy(maxRetries: number): void {
+        const policy = { ...DEFAULT_RETRY_POLICY, maxRetries };
+        const onRetry = (attempt: RetryAttempt) => this.notifyRetry(attempt);
+        this.client.configureRetries(policy, onRetry);
+        this.openAICompatibleClient.configureRetries(policy, onRetry);
     }
 
     /**
@@ -108,91 +236,566 @@ export class PromptGeneratorService {
      *
      * Forces fresh generation on next request. Useful when users want to
      * ensure they're getting completely new prompts rather than cached ones.
+     *
+     * @returns Number of entries and prompts that were discarded
      */
-    clearCache(): void {
-        this.cache.clear();
+    async clearCache(): Promise<PromptCacheStats> {
+        return this.cache.clear();
     }
 
     // MARK: - Private Methods
 
     /**
-     * Core prompt generation method with caching logic.
+     * Builds the request for a prompt type from the settings.
+     *
+     * @param type - Prompt type to request
+     * @param settings - Current plugin settings
+     * @returns Request with count, model, instructions, example, and feedback guidance
+     */
+    private createRequest(type: PromptType, settings: FreewritingPromptsSettings): PromptRequest {
+        const mode = settings.modeParameters[type];
+        return {
+            count: type === 'timed' ? settings.timedCount : settings.noteCount,
+            model: this.getActiveModel(settings, type),
+            systemPrompt: settings.systemPrompt,
+            examplePrompt: type === 'timed' ? settings.timedExamplePrompt : settings.freewritingExamplePrompt,
+            type,
+            structuredOutput: settings.structuredOutput,
+            temperature: mode.temperature ?? undefined,
+            topP: mode.topP ?? undefined,
+            maxTokens: mode.maxTokens,
+            ...this.getFeedbackGuidance(settings)
+        };
+    }
+
+    /**
+     * Collects favorites and blocked prompts to include in a request.
+     *
+     * @param settings - Current plugin settings
+     * @returns Favorite examples (if enabled) and prompts to avoid
+     */
+    private getFeedbackGuidance(settings: FreewritingPromptsSettings): Pick<PromptRequest, 'favoriteExamples' | 'avoidPrompts'> {
+        return {
+            favoriteExamples: settings.useFavoritesAsExamples ? this.feedback.getFavoriteExamples() : [],
+            avoidPrompts: this.feedback.getAvoidPrompts()
+        };
+    }
+
+    /**
+     * Generates prompts from the provider or the offline library.
+     *
+     * In offline mode the provider isn't contacted at all. Otherwise, if the
+     * provider fails (including a missing API key) and the library fallback is
+     * enabled, the library fills in whatever the provider didn't deliver, so
+     * prompts that already streamed in are kept.
+     *
+     * Prefetched prompts are delivered first and only the rest is requested;
+     * the pool is topped up in the background afterwards. They've left the
+     * pool by then, so without a callback or the library fallback a failed
+     * request still returns them rather than losing them.
+     *
+     * @param request - Count, model, instructions, example, and prompt type
+     * @param settings - Current plugin settings
+     * @param onPrompt - Optional callback receiving each prompt as soon as it's available
+     * @returns Array of prompt strings
+     * @throws Error if generation fails, no prefetched prompts are left to return, and the library is disabled or has no prompts
+     */
+    private async generateWithFallback(
+        request: PromptRequest,
+        settings: FreewritingPromptsSettings,
+        onPrompt?: PromptCallback
+    ): Promise<string[]> {
+        if (settings.offlineMode) {
+            return this.takeFromLibrary(request.type, request.count, settings, onPrompt);
+        }
+
+        // Pooled and generated prompts of one command run form one history session
+        const sessionId = HistoryService.createSessionId();
+        const delivered: string[] = [];
+        // Only wrap an existing callback: passing one enables streaming
+        const track: PromptCallback | undefined = onPrompt && (text => {
+            delivered.push(text);
+            onPrompt(text);
+        });
+
+        try {
+            const pooled = await this.takeFromPool(request, settings, sessionId);
+            pooled.forEach(text => {
+                delivered.push(text);
+                onPrompt?.(text);
+            });
+            if (pooled.length >= request.count) {
+                return pooled;
+            }
+
+            const generated = await this.generatePrompts(this.getProvider(settings), {
+                ...request,
+                count: request.count - pooled.length,
+                avoidPrompts: [...(request.avoidPrompts ?? []), ...pooled]
+            }, settings, sessionId, track);
+            return [...pooled, ...generated];
+        } catch (error) {
+            if (settings.libraryFallback) {
+                const fallback = await this.takeFromLibrary(request.type, request.count - delivered.length, settings, onPrompt, delivered);
+                return [...delivered, ...fallback];
+            }
+            // Without a callback the prefetched prompts haven't reached the caller yet
+            if (!onPrompt && delivered.length > 0) {
+                new Notice(`Using ${delivered.length} prefetched prompts instead of ${request.count}`);
+                return delivered;
+            }
+            throw error;
+        } finally {
+            void this.refillPool(request.type, settings);
+        }
+    }
+
+    /**
+     * Takes prefetched prompts for a request from its pool.
+     *
+     * Requests with context or vault references need prompts made for them,
+     * so they never use the pool. Blocked prompts and near-duplicates of
+     * recent prompts are dropped from the pool instead of being used. Taken
+     * prompts are recorded in the history as if they were generated now.
+     *
+     * @param request - Request to take prompts for
+     * @param settings - Current plugin settings (pool size and deduplication)
+     * @param sessionId - History session the prompts are recorded under
+     * @returns Prompt texts, possibly fewer than requested
+     */
+    private async takeFromPool(request: PromptRequest, settings: FreewritingPromptsSettings, sessionId: string): Promise<string[]> {
+        if (settings.promptPoolSize === 0 || request.context || request.vaultReferences) {
+            return [];
+        }
+        const key = this.getPoolKey(request.type, settings);
+        const signature = this.getPoolSignature(settings, request.type);
+        if (this.pool.getPrompts(key, signature).length === 0) {
+            return [];
+        }
+
+        const deduplicator = settings.deduplicatePrompts
+            ? new PromptDeduplicator(await this.getRecentPrompts(), settings.similarityThreshold)
+            : null;
+        const prompts = await this.pool.take(key, signature, request.count, item =>
+            !this.feedback.isBlocked(item.text) && (!deduplicator || deduplicator.accept(item.text)));
+        if (prompts.length === 0) {
+            return [];
+        }
+
+        this.rememberGenerated(prompts);
+        try {
+            await this.history.record(prompts, {
+                mode: request.type,
+                provider: settings.provider,
+                model: request.model,
+                sessionId
+            });
+        } catch (error) {
+            console.error('Failed to record prefetched prompts in the history:', error);
+        }
+        return prompts.map(item => item.text);
+    }
+
+    /**
+     * Tops up the pool of a prompt type in the background.
+     *
+     * Requests the missing prompts without streaming. Failures are only
+     * logged, since no command is waiting for the prompts. Only one refill
+     * per pool runs at a time.
+     *
+     * @param type - Prompt type whose pool should be filled
+     * @param settings - Settings of the profile the pool belongs to
+     */
+    private async refillPool(type: PromptType, settings: FreewritingPromptsSettings): Promise<void> {
+        const provider = this.getProvider(settings);
+        if (settings.promptPoolSize === 0 || settings.offlineMode || !provider.isConfigured()) {
+            return;
+        }
+        // Background spending stops at the budget, even when it only warns
+        if (this.usage.isOverBudget(settings.monthlyBudget, settings.modelPrices)) {
+            return;
+        }
+        const key = this.getPoolKey(type, settings);
+        const signature = this.getPoolSignature(settings, type);
+        const pooled = this.pool.getPrompts(key, signature).map(item => item.text);
+        const missing = settings.promptPoolSize - pooled.length;
+        if (missing <= 0 || this.refilling.has(key)) {
+            return;
+        }
+
+        this.refilling.add(key);
+        try {
+            const request = this.createRequest(type, settings);
+            const items = await provider.generatePrompts({
+                ...request,
+                count: missing,
+                avoidPrompts: [...(request.avoidPrompts ?? []), ...pooled].slice(-PromptGeneratorService.MAX_TOP_UP_AVOID)
+            });
+            const deduplicator = settings.deduplicatePrompts
+                ? new PromptDeduplicator([...await this.getRecentPrompts(), ...pooled], settings.similarityThreshold)
+                : null;
+            const accepted = this.feedback.filterBlocked(items)
+                .filter(item => !deduplicator || deduplicator.accept(item.text))
+                .slice(0, missing);
+            await this.pool.add(key, signature, accepted);
+        } catch (error) {
+            console.warn('Failed to refill the prompt pool:', error);
+        } finally {
+            this.refilling.delete(key);
+        }
+    }
+
+    /**
+     * Returns the key of the pool for a prompt type and the active profile.
+     *
+     * @param type - Prompt type
+     * @param settings - Current plugin settings
+     * @returns Pool key
+     */
+    private getPoolKey(type: PromptType, settings: FreewritingPromptsSettings): string {
+        return `${settings.activeProfileId}:${type}`;
+    }
+
+    /**
+     * Describes the settings pooled prompts depend on.
+     *
+     * Changing the provider, server, model, system prompt, example, output
+     * format, or the prompt type's generation parameters changes the
+     * signature, so prompts pooled before the change are discarded.
+     *
+     * @param settings - Current plugin settings
+     * @param type - Prompt type, selecting the example and parameters
+     * @returns JSON string identifying the generation settings
+     */
+    private getPoolSignature(settings: FreewritingPromptsSettings, type: PromptType): string {
+        return JSON.stringify({
+            provider: settings.provider,
+            server: settings.provider === 'openai-compatible' ? settings.openAIBaseUrl : '',
+            model: this.getActiveModel(settings, type),
+            systemPrompt: settings.systemPrompt.trim(),
+            examplePrompt: (type === 'timed' ? settings.timedExamplePrompt : settings.freewritingExamplePrompt).trim(),
+            structuredOutput: settings.structuredOutput,
+            parameters: settings.modeParameters[type]
+        });
+    }
+
+    /**
+     * Picks prompts from the offline library.
+     *
+     * Blocked prompts are skipped and prompts unlike the recent ones come
+     * first. A small library runs out of unseen prompts quickly, so recent
+     * prompts are reused rather than returning fewer than requested.
+     *
+     * Library prompts aren't recorded in the history, which lists generated
+     * prompts by provider and model; they're only remembered for
+     * deduplication during this session.
+     *
+     * @param type - Prompt type to pick
+     * @param count - Number of prompts to pick
+     * @param settings - Current plugin settings (library and deduplication)
+     * @param onPrompt - Optional callback receiving each prompt
+     * @param exclude - Prompts already delivered in this request
+     * @returns Array of library prompt strings
+     * @throws Error if the library has no matching prompts
+     */
+    private async takeFromLibrary(
+        type: PromptType,
+        count: number,
+        settings: FreewritingPromptsSettings,
+        onPrompt?: PromptCallback,
+        exclude: string[] = []
+    ): Promise<string[]> {
+        let available: PromptItem[];
+        try {
+            available = this.feedback.filterBlocked(await this.library.getPrompts(type, settings))
+                .filter(item => !exclude.includes(item.text));
+        } catch (error) {
+            new Notice(`No offline prompts available: ${error instanceof Error ? error.message : String(error)}`, 8000);
+            throw error;
+        }
+
+        const deduplicator = settings.deduplicatePrompts
+            ? new PromptDeduplicator([...await this.getRecentPrompts(), ...exclude], settings.similarityThreshold)
+            : null;
+        const fresh = deduplicator ? available.filter(item => deduplicator.accept(item.text)) : available;
+        const prompts = [...fresh, ...available.filter(item => !fresh.includes(item))].slice(0, count);
+
+        prompts.forEach(item => onPrompt?.(item.text));
+        this.rememberGenerated(prompts);
+        new Notice(`Using ${prompts.length} prompts from the offline library`);
+        return prompts.map(item => item.text);
+    }
+
+    /**
+     * Core prompt generation method with caching and deduplication logic.
      *
      * Implements the full generation flow:
-     * 1. Validates API key configuration
-     * 2. Checks cache for matching prompts within TTL
-     * 3. Calls API if cache miss or expired
-     * 4. Stores results in cache with timestamp
-     * 5. Shows user feedback via notices
-     *
-     * The cache key is derived from all generation parameters to ensure
-     * cached prompts match the current settings exactly.
-     *
-     * @param count - Number of prompts to generate
-     * @param model - Claude model ID to use
-     * @param systemPrompt - Base system instructions
-     * @param examplePrompt - Example to guide style
-     * @param type - Prompt type ('timed' or 'note') affecting format and length
+     * 1. Validates provider configuration
+     * 2. Checks cache for matching prompts within TTL, per the cache policy
+     * 3. Calls the provider for the prompts the cache didn't cover (streaming when enabled)
+     * 4. Drops blocked prompts and near-duplicates of recent prompts, and
+     *    requests replacements (up to MAX_TOP_UPS follow-up requests)
+     * 5. Stores the results ('reuse') or the unused extra prompts ('consume-once') in cache;
+     *    with 'consume-once', prompts that never reached the caller go back if the request fails
+     * 6. Shows user feedback via notices
+     *
+     * When onPrompt is given, every returned prompt is also passed to it exactly
+     * once and in order: as it streams in, or all at once for cache hits,
+     * shared in-flight requests, and non-streaming generation.
+     *
+     * The cache key is derived from the provider and all generation parameters
+     * to ensure cached prompts match the current settings exactly. With the
+     * 'reuse' policy, cached prompts were recorded when they were generated,
+     * so with deduplication enabled they would all count as repeats; the
+     * cache is bypassed instead. 'consume-once' prompts were never shown, so
+     * they go through deduplication like new ones. Concurrent identical
+     * requests only share one API call with 'reuse', since sharing hands out
+     * the same prompts twice.
+     *
+     * @param provider - Provider that should generate the prompts
+     * @param request - Count, model, instructions, example, and prompt type
+     * @param settings - Current plugin settings (streaming and deduplication)
+     * @param sessionId - History session the prompts are recorded under
+     * @param onPrompt - Optional callback receiving each prompt as soon as it's available
      * @returns Array of generated prompt strings
-     * @throws Error if API key is missing or API call fails
+     * @throws Error if the provider is not configured or the call fails
      */
     private async generatePrompts(
-        count: number,
-        model: string,
-        systemPrompt: string,
-        examplePrompt: string,
-        type: 'timed' | 'note'
+        provider: PromptProvider,
+        request: PromptRequest,
+        settings: FreewritingPromptsSettings,
+        sessionId: string,
+        onPrompt?: PromptCallback
     ): Promise<string[]> {
-        if (!this.client.validateApiKey()) {
-            new Notice('Please configure your Anthropic API key in settings');
-            throw new Error('API key not configured');
+        if (!provider.isConfigured()) {
+            new Notice(provider.id === 'anthropic'
+                ? 'Please configure your Anthropic API key in settings'
+                : 'Please configure your server URL in settings');
+            throw new Error(`${provider.displayName} not configured`);
         }
 
-        const cacheKey = this.createCacheKey(count, model, systemPrompt, examplePrompt, type);
-        const cachedPrompts = this.getCachedPrompts(cacheKey);
+        this.checkBudget(settings);
+
+        const { count, model, type } = request;
+        const policy = settings.cachePolicy;
+        const ttlMs = settings.cacheTtlMinutes * 60 * 1000;
+        const cacheKey = this.createCacheKey(provider.id, request, policy);
+        const cachedPrompts = policy === 'reuse' && !settings.deduplicatePrompts ? this.cache.get(cacheKey, ttlMs) : null;
 
         if (cachedPrompts) {
-            return cachedPrompts.map(p => p.text);
+            // Prompts may have been blocked since they were cached
+            const texts = this.feedback.filterBlocked(cachedPrompts).map(p => p.text);
+            texts.forEach(text => onPrompt?.(text));
+            return texts;
         }
 
         // Deduplicate concurrent requests with identical parameters
-        const existing = this.inFlight.get(cacheKey);
+        const existing = policy === 'reuse' ? this.inFlight.get(cacheKey) : undefined;
         if (existing) {
-            return existing;
+            const shared = this.feedback.filterBlocked(await existing).slice(0, count).map(item => item.text);
+            shared.forEach(text => onPrompt?.(text));
+            return shared;
         }
 
-        try {
-            new Notice('Generating prompts...');
-            const pending = this.client.generatePrompts(count, model, systemPrompt, examplePrompt, type);
-            this.inFlight.set(cacheKey, pending);
-            let prompts = await pending;
-
-            // Enforce requested count - models can occasionally over-generate
-            // This ensures deterministic UX and correct cache key matching
-            if (prompts.length > count) {
-                prompts = prompts.slice(0, count);
+        new Notice('Generating prompts...');
+        const deduplicator = settings.deduplicatePrompts
+            ? new PromptDeduplicator(await this.getRecentPrompts(), settings.similarityThreshold)
+            : null;
+
+        // Track which prompts reached the caller so streaming never
+        // delivers more than requested or repeats prompts after a fallback
+        // or top-up. Blocked prompts and near-duplicates are skipped;
+        // usable prompts beyond the count are kept as surplus.
+        const accepted: PromptItem[] = [];
+        const surplus: PromptItem[] = [];
+        const deliver = (item: PromptItem) => {
+            if (accepted.some(a => a.text === item.text) || surplus.some(s => s.text === item.text)) {
+                return;
+            }
+            if (this.feedback.isBlocked(item.text) || (deduplicator && !deduplicator.accept(item.text))) {
+                return;
             }
+            if (accepted.length >= count) {
+                surplus.push(item);
+                return;
+            }
+            accepted.push(item);
+            onPrompt?.(item.text);
+        };
+
+        const stream = settings.streamPrompts && onPrompt !== undefined;
+        const requestPrompts = (promptRequest: PromptRequest): Promise<PromptItem[]> => {
+            const deliveredBefore = accepted.length;
+            return stream
+                ? this.streamWithFallback(provider, promptRequest, deliver, () => accepted.length - deliveredBefore)
+                : provider.generatePrompts(promptRequest);
+        };
 
-            const generatedPrompts: GeneratedPrompt[] = prompts.map(text => ({
-                text,
-                timestamp: new Date()
-            }));
+        const run = async (): Promise<PromptItem[]> => {
+            if (policy === 'consume-once') {
+                (await this.cache.take(cacheKey, ttlMs)).forEach(deliver);
+            }
+
+            // Streamed prompts were already delivered; this hands over the
+            // rest (non-streaming path) and enforces the requested count
+            if (accepted.length < count) {
+                (await requestPrompts({ ...request, count: count - accepted.length })).forEach(deliver);
+            }
 
-            this.cache.set(cacheKey, generatedPrompts);
-            new Notice(`Generated ${prompts.length} writing prompts`);
+            for (let topUp = 0; deduplicator && accepted.length < count && topUp < PromptGeneratorService.MAX_TOP_UPS; topUp++) {
+                const avoidPrompts = [
+                    ...(request.avoidPrompts ?? []),
+                    ...accepted.map(item => item.text),
+                    ...deduplicator.getRejected()
+                ].slice(-PromptGeneratorService.MAX_TOP_UP_AVOID);
+                (await requestPrompts({ ...request, count: count - accepted.length, avoidPrompts })).forEach(deliver);
+            }
+            return accepted;
+        };
 
-            return prompts;
+        let prompts: PromptItem[];
+        try {
+            const pending = run();
+            if (policy === 'reuse') {
+                this.inFlight.set(cacheKey, pending);
+            }
+            prompts = await pending;
         } catch (error) {
             console.error('Error in PromptGeneratorService:', error);
-            if (error instanceof Error) {
-                new Notice(`Error generating prompts: ${error.message}`);
-            } else {
-                new Notice('Unknown error occurred while generating prompts');
+            new Notice(`Error generating prompts: ${describeError(error, provider.displayName).message}`, 8000);
+            // Without a callback, prompts taken from the cache or generated
+            // before the failure never reached the caller; keep them for next time
+            if (policy === 'consume-once' && !onPrompt && accepted.length + surplus.length > 0) {
+                await this.storeInCache(cacheKey, [...accepted, ...surplus], ttlMs);
             }
             throw error;
         } finally {
             this.inFlight.delete(cacheKey);
         }
+
+        // The prompts are the caller's from here on, so failing to store
+        // them must not turn into a generation error
+        if (policy === 'reuse') {
+            await this.storeInCache(cacheKey, prompts, ttlMs);
+        } else if (policy === 'consume-once' && surplus.length > 0) {
+            await this.storeInCache(cacheKey, surplus, ttlMs);
+        }
+        this.rememberGenerated(prompts);
+        const skipped = deduplicator?.getRejected().length ?? 0;
+        new Notice(skipped > 0
+            ? `Generated ${prompts.length} writing prompts (skipped ${skipped} repeats)`
+            : `Generated ${prompts.length} writing prompts`);
+
+        await this.history.record(prompts, {
+            mode: type,
+            provider: provider.id,
+            model,
+            sessionId
+        });
+
+        return prompts.map(item => item.text);
+    }
+
+    /**
+     * Stores prompts in the cache, replacing the entry for the key.
+     * Failures are only logged: a missed cache entry costs a request later.
+     *
+     * @param key - Cache key
+     * @param prompts - Prompts to store
+     * @param ttlMs - Maximum age of cache entries
+     */
+    private async storeInCache(key: string, prompts: PromptItem[], ttlMs: number): Promise<void> {
+        try {
+            await this.cache.set(key, prompts, ttlMs);
+        } catch (error) {
+            console.error('Failed to store prompts in the cache:', error);
+        }
+    }
+
+    /**
+     * Applies the monthly budget before a request.
+     *
+     * Shows a warning once the estimated cost of the month reaches the
+     * budget, or blocks the request if the budget action says so. A blocked
+     * request falls back to the offline library like any failed request.
+     *
+     * @param settings - Settings with the budget, budget action, and prices
+     * @throws Error if the budget is reached and the action is 'block'
+     */
+    private checkBudget(settings: FreewritingPromptsSettings): void {
+        if (!this.usage.isOverBudget(settings.monthlyBudget, settings.modelPrices)) {
+            return;
+        }
+
+        const spent = `${formatCost(this.usage.getMonthCost(settings.modelPrices))} of ${formatCost(settings.monthlyBudget)}`;
+        if (settings.budgetAction === 'block') {
+            new Notice(`Monthly budget reached (${spent}). Raise the budget in settings to keep generating prompts.`, 8000);
+            throw new Error('Monthly budget reached');
+        }
+        new Notice(`Monthly budget exceeded: ${spent} spent this month`);
+    }
+
+    /**
+     * Collects the prompts new prompts must differ from.
+     *
+     * Combines the history of the last 14 days with prompts generated since
+     * the plugin loaded. A history that can't be read only weakens
+     * deduplication, so it never blocks generation.
+     *
+     * @returns Recent prompt texts
+     */
+    private async getRecentPrompts(): Promise<string[]> {
+        let recorded: string[] = [];
+        try {
+            recorded = await this.history.getRecentPrompts(
+                PromptGeneratorService.RECENT_WINDOW_MS,
+                PromptGeneratorService.RECENT_HISTORY_LIMIT
+            );
+        } catch (error) {
+            console.error('Failed to read prompt history for deduplication:', error);
+        }
+        return [...recorded, ...this.recentlyGenerated];
+    }
+
+    /**
+     * Remembers freshly generated prompts for deduplication.
+     *
+     * @param items - Prompts returned to the caller
+     */
+    private rememberGenerated(items: PromptItem[]): void {
+        this.recentlyGenerated = [...this.recentlyGenerated, ...items.map(item => item.text)]
+            .slice(-PromptGeneratorService.RECENT_SESSION_LIMIT);
+    }
+
+    /**
+     * Streams prompts, falling back to a buffered request if streaming is unavailable.
+     *
+     * Streaming uses fetch, which can fail where requestUrl succeeds (e.g., a
+     * local server without CORS headers). Providers report those failures as a
+     * NetworkError; if nothing was delivered yet we retry once without streaming
+     * so the command still works, just without incremental display.
+     *
+     * @param provider - Provider that should generate the prompts
+     * @param request - Count, model, instructions, example, and prompt type
+     * @param deliver - Callback receiving each prompt as it completes
+     * @param deliveredCount - Returns how many prompts have reached the caller
+     * @returns Array of all generated prompt items
+     */
+    private async streamWithFallback(
+        provider: PromptProvider,
+        request: PromptRequest,
+        deliver: PromptItemCallback,
+        deliveredCount: () => number
+    ): Promise<PromptItem[]> {
+        try {
+            return await provider.streamPrompts(request, deliver);
+        } catch (error) {
+            if (error instanceof NetworkError && deliveredCount() === 0) {
+                console.warn('Streaming unavailable, falling back to a buffered request:', error);
+                return provider.generatePrompts(request);
+            }
+            throw error;
+        }
     }
 
     /**
@@ -200,66 +803,67 @@ export class PromptGeneratorService {
      *
      * The key is a JSON string containing all parameters that affect output.
      * This ensures we only serve cached prompts when ALL settings match,
-     * preventing incorrect reuse when the user changes any configuration.
+     * preventing incorrect reuse when the user changes any configuration,
+     * including favorites and the blocklist.
      *
-     * @param count - Number of prompts
-     * @param model - Model ID
-     * @param systemPrompt - System instructions
-     * @param examplePrompt - Example prompt
-     * @param type - Prompt type
+     * 'consume-once' entries hold leftover prompts that suit any count, so
+     * the count is left out of their key.
+     *
+     * @param provider - Provider ID
+     * @param request - Generation parameters
+     * @param policy - Cache policy the key is used with
      * @returns JSON string uniquely identifying this parameter combination
      */
-    private createCacheKey(
-        count: number,
-        model: string,
-        systemPrompt: string,
-        examplePrompt: string,
-        type: 'timed' | 'note'
-    ): string {
+    private createCacheKey(provider: string, request: PromptRequest, policy: CachePolicy): string {
         const keyData = {
-            count,
-            model,
-            systemPrompt: systemPrompt.trim(),
-            examplePrompt: examplePrompt.trim(),
-            type
+            provider,
+            count: policy === 'consume-once' ? null : request.count,
+            model: request.model,
+            systemPrompt: request.systemPrompt.trim(),
+            examplePrompt: request.examplePrompt.trim(),
+            type: request.type,
+            structuredOutput: request.structuredOutput,
+            temperature: request.temperature ?? null,
+            topP: request.topP ?? null,
+            maxTokens: request.maxTokens ?? null,
+            favoriteExamples: request.favoriteExamples ?? [],
+            avoidPrompts: request.avoidPrompts ?? [],
+            context: request.context ?? '',
+            vaultReferences: request.vaultReferences ?? null
         };
         return JSON.stringify(keyData);
     }
 
     /**
-     * Retrieves cached prompts if they exist and are still valid.
+     * Tells the user why generation is taking longer and when it will retry.
      *
-     * Checks both existence and age of cached prompts. Returns null if:
-     * - No cache entry exists for this key
-     * - Cache entry is empty (defensive guard)
-     * - Cache is older than 10 minutes (expired)
-     *
-     * Expired entries are automatically removed from the cache map.
+     * @param attempt - Details of the upcoming retry
+     */
+    private notifyRetry(attempt: RetryAttempt): void {
+        const seconds = Math.max(1, Math.ceil(attempt.delayMs / 1000));
+        new Notice(`${this.describeRetryReason(attempt.error)}. Retrying in ${seconds}s (attempt ${attempt.attempt} of ${attempt.maxAttempts})...`);
+    }
+
+    /**
+     * Summarizes a transient failure in a few words for the retry notice.
      *
-     * @param cacheKey - Cache key to look up
-     * @returns Array of cached prompts if valid, null otherwise
+     * @param error - Error that triggered the retry
+     * @returns Short, user-facing reason
      */
-    private getCachedPrompts(cacheKey: string): GeneratedPrompt[] | null {
-        const cached = this.cache.get(cacheKey);
-        if (!cached) {
-            return null;
+    private describeRetryReason(error: Error): string {
+        if (error instanceof RateLimitError) {
+            return 'Rate limited';
         }
-
-        // Guard against empty cache arrays
-        if (cached.length === 0) {
-            this.cache.delete(cacheKey);
-            return null;
+        if (error instanceof OverloadedError) {
+            return 'Service overloaded';
         }
-
-        const now = new Date().getTime();
-        const cacheTime = cached[0].timestamp.getTime();
-
-        if (now - cacheTime > this.cacheExpiryMs) {
-            this.cache.delete(cacheKey);
-            return null;
+        if (error instanceof ServerError) {
+            return 'Server error';
         }
-
-        return cached;
+        if (error instanceof NetworkError) {
+            return 'Network error';
+        }
+        return 'Request failed';
     }
 
     // MARK: - Validation Methods
@@ -269,10 +873,13 @@ export class PromptGeneratorService {
      *
      * Checks all settings that affect prompt generation to provide early
      * feedback before making API calls. Validates:
-     * - API key is present
-     * - Model ID is specified
+     * - API key (Anthropic) or server URL (OpenAI-compatible) is present
+     * - Model ID is specified for the selected provider
      * - Numeric settings are within acceptable ranges
      *
+     * Provider settings aren't required in offline mode or when the library
+     * fallback can step in for an unconfigured provider.
+     *
      * This validation prevents API errors and gives users clear guidance
      * about what needs to be fixed in their configuration.
      *
@@ -282,12 +889,25 @@ export class PromptGeneratorService {
     validateSettings(settings: FreewritingPromptsSettings): { isValid: boolean; errors: string[] } {
         const errors: string[] = [];
 
-        if (!settings.apiKey || settings.apiKey.trim().length === 0) {
-            errors.push('API key is required');
-        }
+        // The offline library stands in for a missing provider configuration
+        if (!settings.offlineMode && !settings.libraryFallback) {
+            if (settings.provider === 'openai-compatible') {
+                if (!settings.openAIBaseUrl || settings.openAIBaseUrl.trim().length === 0) {
+                    errors.push('Server URL is required');
+                }
+
+                if (!settings.openAIModel || settings.openAIModel.trim().length === 0) {
+                    errors.push('Model name is required');
+                }
+            } else {
+                if (!settings.apiKey || settings.apiKey.trim().length === 0) {
+                    errors.push('API key is required');
+                }
 
-        if (!settings.model || settings.model.trim().length === 0) {
-            errors.push('Claude model is required');
+                if (!settings.model || settings.model.trim().length === 0) {
+                    errors.push('Claude model is required');
+                }
+            }
         }
 
         if (settings.timedCount < 1 || settings.timedCount > 50) {
@@ -298,10 +918,100 @@ export class PromptGeneratorService {
             errors.push('Delay seconds must be between 1 and 300');
         }
 
+        if (settings.pacingMode === 'adaptive') {
+            if (settings.idleSeconds < 1 || settings.idleSeconds > 120) {
+                errors.push('Pause length must be between 1 and 120 seconds');
+            }
+
+            if (settings.minDelaySeconds < 1 || settings.minDelaySeconds > 300) {
+                errors.push('Minimum time per prompt must be between 1 and 300 seconds');
+            }
+
+            if (settings.maxDelaySeconds < 1 || settings.maxDelaySeconds > 600) {
+                errors.push('Maximum time per prompt must be between 1 and 600 seconds');
+            }
+
+            if (settings.minDelaySeconds > settings.maxDelaySeconds) {
+                errors.push('Minimum time per prompt must not exceed the maximum');
+            }
+        }
+
         if (settings.noteCount < 1 || settings.noteCount > 20) {
             errors.push('Note count must be between 1 and 20');
         }
 
+        if (settings.contextTokenBudget < 100 || settings.contextTokenBudget > 8000) {
+            errors.push('Context budget must be between 100 and 8000 tokens');
+        }
+
+        if (settings.vaultSampleSize < 1 || settings.vaultSampleSize > 30) {
+            errors.push('Notes sampled must be between 1 and 30');
+        }
+
+        if (settings.noteTemplatePreset === 'custom' && !/\{\{\s*prompt\s*\}\}/.test(settings.noteTemplate)) {
+            errors.push('Note template must contain {{prompt}}');
+        }
+
+        if (settings.cacheTtlMinutes < 1 || settings.cacheTtlMinutes > 1440) {
+            errors.push('Cache duration must be between 1 and 1440 minutes');
+        }
+
+        if (settings.promptPoolSize < 0 || settings.promptPoolSize > 50) {
+            errors.push('Prefetched prompts must be between 0 and 50');
+        }
+
+        if (settings.sprintRounds < 1 || settings.sprintRounds > 12) {
+            errors.push('Sprint rounds must be between 1 and 12');
+        }
+
+        if (settings.sprintRoundMinutes < 1 || settings.sprintRoundMinutes > 120) {
+            errors.push('Round length must be between 1 and 120 minutes');
+        }
+
+        if (settings.sprintBreakMinutes < 0 || settings.sprintBreakMinutes > 60) {
+            errors.push('Break length must be between 0 and 60 minutes');
+        }
+
+        if (settings.maxRetries < 0 || settings.maxRetries > 5) {
+            errors.push('Retries must be between 0 and 5');
+        }
+
+        if (settings.similarityThreshold < 0.3 || settings.similarityThreshold > 1) {
+            errors.push('Similarity threshold must be between 0.3 and 1');
+        }
+
+        if (settings.historyMaxEntries < 100 || settings.historyMaxEntries > 20000) {
+            errors.push('Maximum history entries must be between 100 and 20000');
+        }
+
+        if (settings.monthlyBudget < 0) {
+            errors.push('Monthly budget must not be negative');
+        }
+
+        // Claude accepts temperatures up to 1, OpenAI-compatible servers up to 2
+        const maxTemperature = settings.provider === 'openai-compatible' ? 2 : 1;
+        (Object.keys(settings.modeParameters) as PromptType[]).forEach(type => {
+            const { temperature, topP, maxTokens } = settings.modeParameters[type];
+            const label = type.charAt(0).toUpperCase() + type.slice(1);
+
+            if (temperature !== null && (temperature < 0 || temperature > maxTemperature)) {
+                errors.push(`${label} temperature must be between 0 and ${maxTemperature}`);
+            }
+
+            if (topP !== null && (topP < 0 || topP > 1)) {
+                errors.push(`${label} top P must be between 0 and 1`);
+            }
+
+            // Newer Claude models reject requests that set both
+            if (settings.provider === 'anthropic' && temperature !== null && topP !== null) {
+                errors.push(`${label} prompts can use a temperature or top P with Claude, not both`);
+            }
+
+            if (maxTokens < 50 || maxTokens > 2000) {
+                errors.push(`${label} max tokens must be between 50 and 2000`);
+            }
+        });
+
         return {
             isValid: errors.length === 0,
             errors
@@ -0,0 +1,220 @@
+// ABOUTME: Offline prompt library combining the built-in prompts with a user library in the vault
+// ABOUTME: Parses categorized markdown or JSON libraries and picks prompts by type and category
+
+import { normalizePath, TFile, Vault } from 'obsidian';
+import { BUILT_IN_PROMPTS } from './builtInPrompts';
+import { FreewritingPromptsSettings, PromptItem, PromptType } from '../types';
+
+/**
+ * A library prompt with the prompt type it's meant for.
+ */
+interface LibraryEntry extends PromptItem {
+    /** Prompt type, undefined if the prompt suits both */
+    type?: PromptType;
+}
+
+/**
+ * Service providing prompts without a provider.
+ *
+ * The library combines the prompts bundled with the plugin and an optional
+ * user library file in the vault. The user file can be markdown:
+ *
+ * ```
+ * # Timed
+ * ## Senses
+ * - First sound you hear:
+ *
+ * # Note
+ * ## Memory
+ * - Describe the kitchen of a house you used to live in.
+ * ```
+ *
+ * A top-level "Timed" or "Note" heading sets the type of the prompts below
+ * it; prompts outside those headings suit both. Other headings name the
+ * category. List items (bulleted, numbered, or tasks) are the prompts.
+ *
+ * Or JSON: an array of strings or { "text", "category", "type" } objects,
+ * or an object mapping category names to arrays of prompts.
+ *
+ * The user file is read on every request, so edits apply immediately.
+ */
+export class PromptLibraryService {
+    /**
+     * Creates a new prompt library service.
+     *
+     * @param vault - Vault holding the user library file
+     */
+    constructor(private vault: Vault) {}
+
+    // MARK: - Public Methods
+
+    /**
+     * Returns the library prompts for a prompt type in random order.
+     *
+     * @param type - Prompt type to return prompts for
+     * @param settings - Settings with the library file, built-in toggle, and category filter
+     * @returns Shuffled matching prompts
+     * @throws Error if no prompt matches the type and category filter
+     */
+    async getPrompts(type: PromptType, settings: FreewritingPromptsSettings): Promise<PromptItem[]> {
+        const entries = [
+            ...(settings.useBuiltInLibrary ? this.getBuiltInEntries() : []),
+            ...await this.loadUserEntries(settings.libraryPath)
+        ];
+
+        const categories = settings.libraryCategories
+            .split(',')
+            .map(category => category.trim().toLowerCase())
+            .filter(category => category.length > 0);
+        const matching = entries.filter(entry =>
+            (entry.type === undefined || entry.type === type) &&
+            (categories.length === 0 || categories.includes((entry.category ?? '').toLowerCase())));
+
+        if (matching.length === 0) {
+            throw new Error(categories.length > 0
+                ? 'The offline library has no prompts in the selected categories'
+                : 'The offline library is empty');
+        }
+        return shuffle(matching).map(({ text, category }) => ({ text, category }));
+    }
+
+    // MARK: - Private Methods
+
+    /**
+     * Flattens the built-in prompts into entries.
+     *
+     * @returns Built-in prompts of both types
+     */
+    private getBuiltInEntries(): LibraryEntry[] {
+        const entries: LibraryEntry[] = [];
+        (Object.keys(BUILT_IN_PROMPTS) as PromptType[]).forEach(type => {
+            Object.entries(BUILT_IN_PROMPTS[type]).forEach(([category, prompts]) => {
+                prompts.forEach(text => entries.push({ text, category, type }));
+            });
+        });
+        return entries;
+    }
+
+    /**
+     * Reads and parses the user library file.
+     *
+     * A missing or unreadable file only leaves out the user prompts, so the
+     * built-in library keeps working.
+     *
+     * @param path - Vault path of the library file, empty for none
+     * @returns Prompts from the file
+     */
+    private async loadUserEntries(path: string): Promise<LibraryEntry[]> {
+        if (!path.trim()) {
+            return [];
+        }
+        const file = this.vault.getAbstractFileByPath(normalizePath(path.trim()));
+        if (!(file instanceof TFile)) {
+            console.warn(`Prompt library file not found: ${path}`);
+            return [];
+        }
+
+        try {
+            const content = await this.vault.cachedRead(file);
+            return file.extension === 'json' ? parseJsonLibrary(content) : parseMarkdownLibrary(content);
+        } catch (error) {
+            console.error('Failed to read the prompt library:', error);
+            return [];
+        }
+    }
+}
+
+/**
+ * Parses a markdown library: headings set the type and category, list items are prompts.
+ *
+ * @param content - Markdown content
+ * @returns Parsed prompts
+ */
+function parseMarkdownLibrary(content: string): LibraryEntry[] {
+    const entries: LibraryEntry[] = [];
+    let type: PromptType | undefined;
+    let category: string | undefined;
+
+    content.split('\n').forEach(line => {
+        const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+        if (heading) {
+            const title = heading[2].trim();
+            if (heading[1].length === 1) {
+                const lower = title.toLowerCase();
+                type = lower === 'timed' || lower === 'note' ? lower : undefined;
+                category = type ? undefined : title;
+            } else {
+                category = title;
+            }
+            return;
+        }
+
+        const item = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?(.+)$/);
+        const text = item?.[1].trim();
+        if (text) {
+            entries.push({ text, category, type });
+        }
+    });
+    return entries;
+}
+
+/**
+ * Parses a JSON library.
+ *
+ * @param content - JSON content
+ * @returns Parsed prompts
+ * @throws Error if the content isn't valid JSON
+ */
+function parseJsonLibrary(content: string): LibraryEntry[] {
+    const parsed: unknown = JSON.parse(content);
+    if (Array.isArray(parsed)) {
+        return parsed.map(value => toEntry(value)).filter((entry): entry is LibraryEntry => entry !== null);
+    }
+    if (typeof parsed === 'object' && parsed !== null) {
+        return Object.entries(parsed).flatMap(([category, prompts]) => Array.isArray(prompts)
+            ? prompts.map(value => toEntry(value, category)).filter((entry): entry is LibraryEntry => entry !== null)
+            : []);
+    }
+    return [];
+}
+
+/**
+ * Converts a JSON value into a library entry.
+ *
+ * @param value - String or object with text, category, and type
+ * @param category - Category to use if the value doesn't name one
+ * @returns Entry, or null if the value has no prompt text
+ */
+function toEntry(value: unknown, category?: string): LibraryEntry | null {
+    if (typeof value === 'string') {
+        return value.trim() ? { text: value.trim(), category } : null;
+    }
+    if (typeof value !== 'object' || value === null) {
+        return null;
+    }
+
+    const record = value as Record<string, unknown>;
+    if (typeof record.text !== 'string' || !record.text.trim()) {
+        return null;
+    }
+    return {
+        text: record.text.trim(),
+        category: typeof record.category === 'string' ? record.category : category,
+        type: record.type === 'timed' || record.type === 'note' ? record.type : undefined
+    };
+}
+
+/**
+ * Returns the items in random order (Fisher-Yates), leaving the input untouched.
+ *
+ * @param items - Items to shuffle
+ * @returns Shuffled copy
+ */
+function shuffle<T>(items: T[]): T[] {
+    const result = items.slice();
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
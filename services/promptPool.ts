@@ -0,0 +1,116 @@
+// ABOUTME: Pool of prefetched prompts per prompt type and profile, persisted alongside the plugin settings
+// ABOUTME: Drops prompts generated with settings that no longer match the current ones
+
+import { PromptItem, PromptPoolEntry } from '../types';
+
+/**
+ * Service holding prompts generated ahead of time.
+ *
+ * Each pool is identified by a key (prompt type and profile) and carries a
+ * signature of the settings its prompts were generated with. A pool whose
+ * signature doesn't match the current one, because the system prompt, an
+ * example, or the model changed, is discarded rather than served.
+ *
+ * The service only stores prompts; PromptGeneratorService decides when to
+ * take from and refill the pools.
+ */
+export class PromptPoolService {
+    /** Pools by key */
+    private pools: Record<string, PromptPoolEntry>;
+
+    /**
+     * Creates a new prompt pool service.
+     *
+     * @param pools - Pools loaded from plugin data
+     * @param persist - Saves plugin data, called after every change
+     */
+    constructor(
+        pools: Record<string, PromptPoolEntry> | undefined,
+        private persist: () => Promise<void>
+    ) {
+        this.pools = typeof pools === 'object' && pools !== null ? pools : {};
+    }
+
+    // MARK: - Queries
+
+    /**
+     * Returns the prompts in a pool.
+     *
+     * @param key - Pool key
+     * @param signature - Signature of the current generation settings
+     * @returns Pooled prompts, oldest first, or none if the pool is missing or stale
+     */
+    getPrompts(key: string, signature: string): PromptItem[] {
+        const pool = this.pools[key];
+        return pool && pool.signature === signature && Array.isArray(pool.prompts) ? pool.prompts : [];
+    }
+
+    /**
+     * Returns every pool, for saving in plugin data.
+     *
+     * @returns Pools by key
+     */
+    getPools(): Record<string, PromptPoolEntry> {
+        return this.pools;
+    }
+
+    // MARK: - Changes
+
+    /**
+     * Removes prompts from a pool, oldest first.
+     *
+     * Prompts the filter rejects are removed too, since they'd be rejected
+     * next time as well.
+     *
+     * @param key - Pool key
+     * @param signature - Signature of the current generation settings
+     * @param count - Maximum number of prompts to take
+     * @param accept - Returns false for prompts that must not be used
+     * @returns Taken prompts
+     */
+    async take(key: string, signature: string, count: number, accept: (item: PromptItem) => boolean): Promise<PromptItem[]> {
+        const available = this.getPrompts(key, signature);
+        if (available.length === 0) {
+            if (this.pools[key]) {
+                // Stale pool
+                delete this.pools[key];
+                await this.persist();
+            }
+            return [];
+        }
+
+        const taken: PromptItem[] = [];
+        let index = 0;
+        for (; index < available.length && taken.length < count; index++) {
+            if (accept(available[index])) {
+                taken.push(available[index]);
+            }
+        }
+        this.pools[key] = { signature, prompts: available.slice(index) };
+        await this.persist();
+        return taken;
+    }
+
+    /**
+     * Adds prompts to a pool, replacing the pool if it's stale.
+     *
+     * @param key - Pool key
+     * @param signature - Signature of the settings the prompts were generated with
+     * @param items - Prompts to add
+     */
+    async add(key: string, signature: string, items: PromptItem[]): Promise<void> {
+        if (items.length === 0) {
+            return;
+        }
+        this.pools[key] = { signature, prompts: [...this.getPrompts(key, signature), ...items] };
+        await this.persist();
+    }
+
+    /**
+     * Removes every pooled prompt.
+     */
+    async clear(): Promise<void> {
+        this.pools = {};
+        await this.persist();
+    }
+}
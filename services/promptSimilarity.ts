@@ -0,0 +1,128 @@
+// ABOUTME: Similarity scoring for writing prompts using normalized text and token overlap
+// ABOUTME: Lets the prompt generator drop near-duplicates of recently generated prompts
+
+import { normalizePromptText } from '../api/promptProvider';
+
+/**
+ * Common words that carry no meaning for comparing prompts.
+ * Prompts share lots of framing words ("write about a time you..."), so
+ * counting them would make unrelated prompts look similar.
+ */
+const STOP_WORDS = new Set([
+    'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'about',
+    'from', 'by', 'as', 'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that',
+    'these', 'those', 'you', 'your', 'yours', 'i', 'me', 'my', 'we', 'our', 'they', 'their',
+    'he', 'she', 'his', 'her', 'them', 'what', 'when', 'where', 'who', 'how', 'why', 'which',
+    'if', 'so', 'do', 'did', 'does', 'have', 'has', 'had', 'will', 'would', 'could', 'can',
+    'write', 'describe', 'imagine', 'explore', 'tell', 'story', 'prompt'
+]);
+
+/**
+ * Splits a prompt into its meaningful tokens.
+ *
+ * Uses normalized text, drops stop words, and reduces simple plurals so
+ * "memories of rivers" and "memory of a river" share tokens.
+ *
+ * @param text - Prompt text
+ * @returns Set of content tokens
+ */
+function tokenizePrompt(text: string): Set<string> {
+    const tokens = normalizePromptText(text)
+        .split(' ')
+        .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+        .map(token => token.length > 3 ? token.replace(/ies$/, 'y').replace(/([^s])s$/, '$1') : token);
+    return new Set(tokens);
+}
+
+/**
+ * Scores how similar two prompts are from their tokens.
+ *
+ * Uses the Dice coefficient: twice the shared tokens divided by the total
+ * number of tokens in both prompts.
+ *
+ * @param a - Tokens of the first prompt
+ * @param b - Tokens of the second prompt
+ * @returns Similarity between 0 and 1, 0 if either set is empty
+ */
+function tokenSimilarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) {
+        return 0;
+    }
+    let shared = 0;
+    a.forEach(token => {
+        if (b.has(token)) {
+            shared++;
+        }
+    });
+    return (2 * shared) / (a.size + b.size);
+}
+
+/**
+ * Accepts prompts one at a time, rejecting near-duplicates.
+ *
+ * A prompt is rejected if its normalized text matches, or its token
+ * similarity reaches the threshold, for any reference prompt (recent history)
+ * or any prompt accepted earlier in the same batch. Reference
+ * prompts are tokenized once up front, so checking a streamed prompt is cheap.
+ */
+export class PromptDeduplicator {
+    /** Normalized text of every prompt compared against */
+    private normalized = new Set<string>();
+    /** Tokens of every prompt compared against */
+    private tokenSets: Array<Set<string>> = [];
+    /** Prompts rejected as near-duplicates */
+    private rejected: string[] = [];
+
+    /**
+     * Creates a deduplicator.
+     *
+     * @param reference - Recent prompts new prompts must differ from
+     * @param threshold - Similarity at or above which a prompt counts as a duplicate (0-1)
+     */
+    constructor(reference: string[], private threshold: number) {
+        reference.forEach(text => this.remember(text));
+    }
+
+    /**
+     * Checks a prompt and remembers it if it's new.
+     *
+     * @param text - Prompt text
+     * @returns true if the prompt is sufficiently different, false if it's a near-duplicate
+     */
+    accept(text: string): boolean {
+        const normalized = normalizePromptText(text);
+        const tokens = tokenizePrompt(text);
+        const duplicate = this.normalized.has(normalized) ||
+            this.tokenSets.some(other => tokenSimilarity(tokens, other) >= this.threshold);
+
+        if (duplicate) {
+            this.rejected.push(text);
+            return false;
+        }
+        this.remember(text, normalized, tokens);
+        return true;
+    }
+
+    /**
+     * Returns the prompts rejected so far.
+     *
+     * @returns Rejected prompt texts, in the order they arrived
+     */
+    getRejected(): string[] {
+        return this.rejected;
+    }
+
+    // MARK: - Private Methods
+
+    /**
+     * Adds a prompt to the set new prompts are compared against.
+     *
+     * @param text - Prompt text
+     * @param normalized - Normalized text, computed if omitted
+     * @param tokens - Content tokens, computed if omitted
+     */
+    private remember(text: string, normalized = normalizePromptText(text), tokens = tokenizePrompt(text)): void {
+        this.normalized.add(normalized);
+        this.tokenSets.push(tokens);
+    }
+}
@@ -0,0 +1,144 @@
+// ABOUTME: Template rendering for prompts inserted into notes, with variables and an each block
+// ABOUTME: Provides built-in presets for lists, tasks, callouts, tables, and headings per prompt
+
+import { NoteTemplatePreset } from '../types';
+
+/**
+ * Values available to a note template.
+ */
+export interface PromptTemplateContext {
+    /** Prompts to render, in order */
+    prompts: string[];
+    /** Localized date, e.g. "Jan 15, 2025" */
+    date: string;
+    /** Localized time, e.g. "02:30 PM" */
+    time: string;
+    /** Localized date and time, e.g. "Jan 15, 2025, 02:30 PM" */
+    datetime: string;
+    /** Model that generated the prompts, empty for re-inserted prompts */
+    model: string;
+    /** Name of the profile the prompts were generated with */
+    profile: string;
+}
+
+/**
+ * Built-in template presets with their display names.
+ * 'custom' has no entry; it uses the template from the settings.
+ */
+export const NOTE_TEMPLATE_PRESETS: Record<Exclude<NoteTemplatePreset, 'custom'>, { name: string; template: string }> = {
+    'numbered-list': {
+        name: 'Numbered list',
+        template: '## Writing Prompts ({{datetime}})\n\n{{#each prompts}}{{index}}. {{prompt}}\n\n{{/each}}'
+    },
+    'task-list': {
+        name: 'Task list',
+        template: '## Writing Prompts ({{datetime}})\n\n{{#each prompts}}- [ ] {{prompt}}\n{{/each}}\n'
+    },
+    'callout': {
+        name: 'Callout',
+        template: '> [!example] Writing Prompts ({{datetime}})\n{{#each prompts}}> {{index}}. {{prompt}}\n{{/each}}\n'
+    },
+    'table': {
+        name: 'Table',
+        template: '## Writing Prompts ({{datetime}})\n\n| # | Prompt |\n| --- | --- |\n{{#each prompts}}| {{index}} | {{prompt | table}} |\n{{/each}}\n'
+    },
+    'headings': {
+        name: 'Heading per prompt',
+        template: '{{#each prompts}}### {{prompt}}\n\n\n\n{{/each}}'
+    }
+};
+
+/** Matches the block repeated for every prompt */
+const EACH_BLOCK = /\{\{#each prompts\}\}([\s\S]*?)\{\{\/each\}\}/g;
+
+/** Matches a variable such as {{date}}, optionally with a filter such as {{prompt | table}} */
+const VARIABLE = /\{\{\s*(\w+)\s*(?:\|\s*(\w+)\s*)?\}\}/g;
+
+/**
+ * Filters that adapt a value to where it's inserted.
+ * - table: Escapes pipes and turns line breaks into <br> so the value stays in one table cell
+ */
+const FILTERS: Record<string, (value: string) => string> = {
+    table: value => value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>')
+};
+
+/**
+ * Returns the template a preset stands for.
+ *
+ * @param preset - Selected preset
+ * @param customTemplate - Template used for the 'custom' preset
+ * @returns Template text
+ */
+export function getNoteTemplate(preset: NoteTemplatePreset, customTemplate: string): string {
+    if (preset === 'custom') {
+        return customTemplate;
+    }
+    return (NOTE_TEMPLATE_PRESETS[preset] ?? NOTE_TEMPLATE_PRESETS['numbered-list']).template;
+}
+
+/**
+ * Renders a note template.
+ *
+ * Supported syntax:
+ * - {{date}}, {{time}}, {{datetime}}, {{model}}, {{profile}}, {{count}}
+ * - {{#each prompts}}...{{/each}} repeats its content for every prompt,
+ *   with {{index}} (starting at 1) and {{prompt}} available inside
+ * - {{name | table}} escapes the value for a markdown table cell
+ *
+ * Outside an each block, {{prompt}} and {{index}} refer to the first prompt,
+ * so single-prompt templates need no block. Unknown variables are left as
+ * written, as are variables with an unknown filter. Prompt text is never
+ * treated as template syntax.
+ *
+ * @param template - Template text
+ * @param context - Values for the variables
+ * @returns Rendered markdown
+ */
+export function renderPromptTemplate(template: string, context: PromptTemplateContext): string {
+    const prompts = context.prompts.map(prompt => String(prompt).replace(/\s+/g, ' ').trim());
+    const variables: Record<string, string> = {
+        date: context.date,
+        time: context.time,
+        datetime: context.datetime,
+        model: context.model,
+        profile: context.profile,
+        count: String(prompts.length),
+        index: prompts.length > 0 ? '1' : '',
+        prompt: prompts[0] ?? ''
+    };
+
+    // Fill each segment separately so prompt text is never parsed as a template
+    let rendered = '';
+    let last = 0;
+    EACH_BLOCK.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = EACH_BLOCK.exec(template)) !== null) {
+        rendered += fillVariables(template.slice(last, match.index), variables);
+        const body = match[1];
+        prompts.forEach((prompt, index) => {
+            rendered += fillVariables(body, { ...variables, index: String(index + 1), prompt });
+        });
+        last = match.index + match[0].length;
+    }
+    rendered += fillVariables(template.slice(last), variables);
+    return rendered;
+}
+
+/**
+ * Replaces the variables in a piece of template text.
+ *
+ * @param text - Template text without each blocks
+ * @param variables - Values by variable name
+ * @returns Text with known variables replaced and filtered
+ */
+function fillVariables(text: string, variables: Record<string, string>): string {
+    return text.replace(VARIABLE, (placeholder, name: string, filter: string | undefined) => {
+        if (!Object.prototype.hasOwnProperty.call(variables, name)) {
+            return placeholder;
+        }
+        if (filter === undefined) {
+            return variables[name];
+        }
+        return Object.prototype.hasOwnProperty.call(FILTERS, filter) ? FILTERS[filter](variables[name]) : placeholder;
+    });
+}
@@ -0,0 +1,177 @@
+// ABOUTME: Token usage per day and model, persisted alongside the plugin settings
+// ABOUTME: Estimates costs from an editable per-model price table and checks the monthly budget
+
+import { moment } from 'obsidian';
+import { ModelPrice, ProviderId, TokenUsage, UsageRecord } from '../types';
+
+/**
+ * Usage summed over a set of records, with the estimated cost.
+ */
+export interface UsageTotals {
+    /** Number of generation requests */
+    requests: number;
+    /** Number of input tokens */
+    inputTokens: number;
+    /** Number of output tokens */
+    outputTokens: number;
+    /** Estimated cost in dollars of the priced usage */
+    cost: number;
+    /** Whether some usage belongs to models without a price */
+    hasUnpriced: boolean;
+}
+
+/**
+ * Service recording the tokens every generation request used.
+ *
+ * Usage is summed per local day, provider, and model, so the data stays
+ * small no matter how many prompts are generated. Records older than
+ * RETENTION_DAYS are dropped.
+ *
+ * Costs aren't stored: they're estimated from the price table whenever
+ * they're shown, so correcting a price also corrects past costs. Prices
+ * match by model ID prefix, the longest prefix winning, so one entry covers
+ * every dated version of a model.
+ */
+export class UsageService {
+    /** Days of usage kept */
+    private static readonly RETENTION_DAYS = 400;
+    /** Usage records, oldest first */
+    private records: UsageRecord[];
+
+    /**
+     * Creates a new usage service.
+     *
+     * @param records - Usage loaded from plugin data
+     * @param persist - Saves plugin data, called after every change
+     */
+    constructor(
+        records: UsageRecord[] | undefined,
+        private persist: () => Promise<void>
+    ) {
+        this.records = Array.isArray(records) ? records : [];
+    }
+
+    // MARK: - Queries
+
+    /**
+     * Returns the usage records.
+     *
+     * @returns Records, oldest first
+     */
+    getRecords(): UsageRecord[] {
+        return this.records;
+    }
+
+    /**
+     * Sums the records from a date on.
+     *
+     * @param prices - Price table used to estimate the cost
+     * @param since - First date (YYYY-MM-DD) to include, or undefined for all records
+     * @param records - Records to sum, defaulting to all records
+     * @returns Totals with the estimated cost
+     */
+    getTotals(prices: ModelPrice[], since?: string, records: UsageRecord[] = this.records): UsageTotals {
+        return records
+            .filter(record => since === undefined || record.date >= since)
+            .reduce<UsageTotals>((totals, record) => {
+                const price = findModelPrice(record.model, prices);
+                return {
+                    requests: totals.requests + record.requests,
+                    inputTokens: totals.inputTokens + record.inputTokens,
+                    outputTokens: totals.outputTokens + record.outputTokens,
+                    cost: totals.cost + (price ? calculateCost(record, price) : 0),
+                    hasUnpriced: totals.hasUnpriced || (!price && record.inputTokens + record.outputTokens > 0)
+                };
+            }, { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0, hasUnpriced: false });
+    }
+
+    /**
+     * Estimates the cost of the current calendar month.
+     *
+     * @param prices - Price table used to estimate the cost
+     * @returns Estimated cost in dollars
+     */
+    getMonthCost(prices: ModelPrice[]): number {
+        return this.getTotals(prices, moment().startOf('month').format('YYYY-MM-DD')).cost;
+    }
+
+    /**
+     * Checks whether this month's estimated cost reached the budget.
+     *
+     * @param budget - Monthly budget in dollars, 0 for no budget
+     * @param prices - Price table used to estimate the cost
+     * @returns true if a budget is set and reached
+     */
+    isOverBudget(budget: number, prices: ModelPrice[]): boolean {
+        return budget > 0 && this.getMonthCost(prices) >= budget;
+    }
+
+    // MARK: - Changes
+
+    /**
+     * Adds the usage of one request to today's record for its model.
+     *
+     * @param provider - Provider the request went to
+     * @param usage - Model and token counts reported by the provider
+     */
+    async record(provider: ProviderId, usage: TokenUsage): Promise<void> {
+        const date = moment().format('YYYY-MM-DD');
+        const existing = this.records.find(record =>
+            record.date === date && record.provider === provider && record.model === usage.model);
+
+        if (existing) {
+            existing.requests += 1;
+            existing.inputTokens += usage.inputTokens;
+            existing.outputTokens += usage.outputTokens;
+        } else {
+            const cutoff = moment().subtract(UsageService.RETENTION_DAYS, 'days').format('YYYY-MM-DD');
+            this.records = [
+                ...this.records.filter(record => record.date >= cutoff),
+                { date, provider, model: usage.model, requests: 1, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens }
+            ];
+        }
+        await this.persist();
+    }
+
+    /**
+     * Removes all usage records.
+     */
+    async clear(): Promise<void> {
+        this.records = [];
+        await this.persist();
+    }
+}
+
+/**
+ * Finds the price of a model, preferring the longest matching ID prefix.
+ *
+ * @param model - Model ID
+ * @param prices - Price table
+ * @returns Matching price, or undefined if the model has none
+ */
+export function findModelPrice(model: string, prices: ModelPrice[]): ModelPrice | undefined {
+    return prices
+        .filter(price => price.model.trim().length > 0 && model.startsWith(price.model.trim()))
+        .sort((a, b) => b.model.trim().length - a.model.trim().length)[0];
+}
+
+/**
+ * Estimates the cost of token usage.
+ *
+ * @param usage - Input and output token counts
+ * @param price - Price per million tokens
+ * @returns Cost in dollars
+ */
+export function calculateCost(usage: Pick<UsageRecord, 'inputTokens' | 'outputTokens'>, price: ModelPrice): number {
+    return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1000000;
+}
+
+/**
+ * Formats a cost in dollars, with more decimals for fractions of a cent.
+ *
+ * @param cost - Cost in dollars
+ * @returns Text such as "$1.23" or "$0.0042"
+ */
+export function formatCost(cost: number): string {
+    return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,47 @@
+// ABOUTME: Helpers for plugin-managed files in the vault, such as the history and sprint log
+// ABOUTME: Creates missing files and parent folders on first write
+
+import { TFile, Vault } from 'obsidian';
+
+/**
+ * Returns the file at a path, creating it and its parent folders if needed.
+ *
+ * @param vault - Vault to look in
+ * @param path - Normalized vault path
+ * @param initialContent - Content for a newly created file
+ * @returns The existing or newly created file
+ * @throws Error if a folder exists at the path
+ */
+export async function getOrCreateFile(vault: Vault, path: string, initialContent: string): Promise<TFile> {
+    const existing = vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) {
+        return existing;
+    }
+    if (existing) {
+        throw new Error(`Path is a folder, not a file: ${path}`);
+    }
+
+    const slash = path.lastIndexOf('/');
+    if (slash > 0) {
+        const folder = path.slice(0, slash);
+        if (!vault.getAbstractFileByPath(folder)) {
+            await vault.createFolder(folder);
+        }
+    }
+    return vault.create(path, initialContent);
+}
+
+/**
+ * Appends text to the end of a file, separated from existing content by a blank line.
+ *
+ * @param vault - Vault containing the file
+ * @param file - File to append to
+ * @param text - Text to append
+ */
+export async function appendToFile(vault: Vault, file: TFile, text: string): Promise<void> {
+    await vault.process(file, (data) => {
+        const trimmed = data.replace(/\s+$/, '');
+        const separator = trimmed.length === 0 ? '' : '\n\n';
+        return `${trimmed}${separator}${text.replace(/\s+$/, '')}\n`;
+    });
+}
@@ -0,0 +1,204 @@
+// ABOUTME: Samples note titles, tags, and headings from the vault for vault-aware prompts
+// ABOUTME: Turns note titles mentioned in generated prompts into wikilinks
+
+import { App, getAllTags, normalizePath, TFile } from 'obsidian';
+import { FreewritingPromptsSettings, VaultReferences } from '../types';
+
+/**
+ * Material sampled for one request, with the notes the titles belong to.
+ */
+export interface VaultSample {
+    /** Titles, tags, and headings sent to the model */
+    references: VaultReferences;
+    /** Sampled notes, used to link their titles in the prompts */
+    files: TFile[];
+}
+
+/**
+ * Service sampling material from the vault via the metadata cache.
+ *
+ * Notes are filtered by the configured folder and tag, then sampled at
+ * random from the most recently modified ones, so prompts draw on what the
+ * writer is working on without always picking the same notes. Tags come
+ * from the whole filtered set, most frequent first; headings come from the
+ * sampled notes.
+ *
+ * Models are asked to write note titles as [[Title]]. linkReferences()
+ * also links titles a model wrote without brackets, and points links at
+ * the right note when several notes share a title.
+ */
+export class VaultSampler {
+    /** Recent notes the sample is drawn from, at least, as a multiple of the sample size */
+    private static readonly POOL_FACTOR = 3;
+    /** Minimum number of recent notes the sample is drawn from */
+    private static readonly MIN_POOL_SIZE = 30;
+    /** Maximum number of tags sent to the model */
+    private static readonly MAX_TAGS = 10;
+    /** Deepest heading level considered; deeper headings are too specific */
+    private static readonly MAX_HEADING_LEVEL = 3;
+
+    /**
+     * Creates a new vault sampler.
+     *
+     * @param app - Obsidian app instance providing the vault and metadata cache
+     */
+    constructor(private app: App) {}
+
+    // MARK: - Public Methods
+
+    /**
+     * Samples note titles, tags, and headings matching the configured filters.
+     *
+     * @param settings - Settings with the folder, tag, and sample size
+     * @returns Sampled material, with no notes if nothing matches the filters
+     */
+    sample(settings: FreewritingPromptsSettings): VaultSample {
+        const candidates = this.getCandidates(settings)
+            .sort((a, b) => b.stat.mtime - a.stat.mtime);
+        const poolSize = Math.max(VaultSampler.MIN_POOL_SIZE, settings.vaultSampleSize * VaultSampler.POOL_FACTOR);
+        const files = shuffle(candidates.slice(0, poolSize)).slice(0, settings.vaultSampleSize);
+
+        return {
+            references: {
+                notes: files.map(file => file.basename),
+                tags: this.collectTags(candidates),
+                headings: this.collectHeadings(files)
+            },
+            files
+        };
+    }
+
+    /**
+     * Turns mentions of sampled note titles in a prompt into wikilinks.
+     *
+     * Bare titles are wrapped in brackets. Links are rewritten to the note's
+     * shortest unambiguous link text, keeping the title as display text
+     * when the two differ.
+     *
+     * @param prompt - Generated prompt
+     * @param sample - Sample the prompt was generated from
+     * @param sourcePath - Path of the note the prompt is inserted into
+     * @returns Prompt with wikilinks
+     */
+    linkReferences(prompt: string, sample: VaultSample, sourcePath: string): string {
+        const byTitle = new Map(sample.files.map(file => [file.basename.toLowerCase(), file] as const));
+        // Longest first, so a title containing another title wins
+        const titles = sample.files.map(file => file.basename).sort((a, b) => b.length - a.length);
+
+        // Split into existing links and plain text, and only link plain text
+        const linked = prompt.split(/(\[\[[^\]]*\]\])/).map(part => {
+            if (part.startsWith('[[')) {
+                return part;
+            }
+            return titles.reduce((text, title) =>
+                text.replace(new RegExp(`(^|[^\\w\\[])(${escapeRegExp(title)})(?![\\w\\]])`, 'gi'), '$1[[$2]]'), part);
+        }).join('');
+
+        return linked.replace(/\[\[([^\]|]+)(\|[^\]]*)?\]\]/g, (link, target: string, alias?: string) => {
+            const file = byTitle.get(target.trim().toLowerCase());
+            if (!file) {
+                return link;
+            }
+            const linkText = this.app.metadataCache.fileToLinktext(file, sourcePath, true);
+            const display = alias ? alias.slice(1) : target.trim();
+            return linkText === display ? `[[${linkText}]]` : `[[${linkText}|${display}]]`;
+        });
+    }
+
+    // MARK: - Private Methods
+
+    /**
+     * Returns the markdown notes matching the folder and tag filters.
+     *
+     * @param settings - Settings with the folder and tag filters
+     * @returns Matching notes
+     */
+    private getCandidates(settings: FreewritingPromptsSettings): TFile[] {
+        const folder = settings.vaultPromptFolder.trim() ? normalizePath(settings.vaultPromptFolder.trim()) : '';
+        const tag = settings.vaultPromptTag.trim().replace(/^#/, '').toLowerCase();
+
+        return this.app.vault.getMarkdownFiles().filter(file => {
+            if (folder && folder !== '/' && !file.path.startsWith(`${folder}/`)) {
+                return false;
+            }
+            if (!tag) {
+                return true;
+            }
+            // Nested tags count too: #writing matches #writing/fiction
+            return this.getTags(file).some(fileTag => fileTag === tag || fileTag.startsWith(`${tag}/`));
+        });
+    }
+
+    /**
+     * Returns the tags of a note, lowercased and without the leading #.
+     *
+     * @param file - Note to read the tags of
+     * @returns Tags from the frontmatter and the body
+     */
+    private getTags(file: TFile): string[] {
+        const cache = this.app.metadataCache.getFileCache(file);
+        return (cache ? getAllTags(cache) ?? [] : []).map(tag => tag.replace(/^#/, '').toLowerCase());
+    }
+
+    /**
+     * Collects the most frequent tags of the candidate notes.
+     *
+     * @param files - Candidate notes
+     * @returns Up to MAX_TAGS tags with the leading #
+     */
+    private collectTags(files: TFile[]): string[] {
+        const counts = new Map<string, number>();
+        files.forEach(file => {
+            new Set(this.getTags(file)).forEach(tag => {
+                counts.set(tag, (counts.get(tag) ?? 0) + 1);
+            });
+        });
+        return Array.from(counts.entries())
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, VaultSampler.MAX_TAGS)
+            .map(([tag]) => `#${tag}`);
+    }
+
+    /**
+     * Picks one heading from each sampled note that has headings.
+     *
+     * @param files - Sampled notes
+     * @returns Heading texts
+     */
+    private collectHeadings(files: TFile[]): string[] {
+        const headings: string[] = [];
+        files.forEach(file => {
+            const candidates = (this.app.metadataCache.getFileCache(file)?.headings ?? [])
+                .filter(heading => heading.level <= VaultSampler.MAX_HEADING_LEVEL && heading.heading.trim().length > 0);
+            if (candidates.length > 0) {
+                headings.push(candidates[Math.floor(Math.random() * candidates.length)].heading.trim());
+            }
+        });
+        return headings;
+    }
+}
+
+/**
+ * Returns the items in random order (Fisher-Yates), leaving the input untouched.
+ *
+ * @param items - Items to shuffle
+ * @returns Shuffled copy
+ */
+function shuffle<T>(items: T[]): T[] {
+    const result = items.slice();
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
+
+/**
+ * Escapes regular expression special characters in a string.
+ *
+ * @param text - Text to match literally
+ * @returns Escaped pattern
+ */
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,10 +1,16 @@
 // ABOUTME: Settings interface and SettingTab implementation for the Freewriting Prompts plugin
 // ABOUTME: Handles user configuration including API key, model selection, and prompt customization
 
-import { App, ButtonComponent, DropdownComponent, Notice, PluginSettingTab, Setting } from 'obsidian';
+import { App, ButtonComponent, DropdownComponent, moment, Notice, PluginSettingTab, Setting } from 'obsidian';
 import FreewritingPromptsPlugin from './main';
-import { FreewritingPromptsSettings } from './types';
-import { ModelOption } from './services/modelService';
+import { BudgetAction, CachePolicy, FreewritingPromptsSettings, HistoryStorage, ModelPrice, ModeParameters, NoteTemplatePreset, PacingMode, PromptLogFormat, PromptType, ProviderId, SprintSummaryTarget } from './types';
+import { getSprintMinutes } from './commands/sprintCommand';
+import { NOTE_TEMPLATE_PRESETS } from './services/promptTemplate';
+import { describeModelOption, groupModels, ModelOption } from './services/modelService';
+import { PromptCacheStats } from './services/promptCache';
+import { formatCost } from './services/usageService';
+import { ProfileImportModal } from './ui/profileImportModal';
+import { UsageModal } from './ui/usageModal';
 
 /**
  * Default plugin settings applied on first installation.
@@ -16,35 +22,162 @@ import { ModelOption } from './services/modelService';
  * - Maintain reasonable limits on prompt counts
  */
 export const DEFAULT_SETTINGS: FreewritingPromptsSettings = {
+    /** Anthropic remains the default backend for existing users */
+    provider: 'anthropic',
     /** Empty by default - user must provide their own API key */
     apiKey: '',
     /** Haiku is the fastest and most cost-effective model for prompt generation */
     model: 'claude-3-5-haiku-latest' as const,
+    /** Ollama's default OpenAI-compatible endpoint, the most common local setup */
+    openAIBaseUrl: 'http://localhost:11434/v1',
+    /** Local servers usually don't need a key */
+    openAIApiKey: '',
+    /** A small general-purpose model that runs on most machines */
+    openAIModel: 'llama3.2',
     /** 10 prompts provides a good freewriting session length */
     timedCount: 10,
     /** 6 seconds allows time to read and respond without feeling rushed */
     delaySeconds: 6,
+    /** A fixed delay is predictable; adaptive pacing is opt-in */
+    pacingMode: 'fixed',
+    /** 5 seconds without typing is a natural break between sentences */
+    idleSeconds: 5,
+    /** 10 seconds gives time to read and start on a prompt */
+    minDelaySeconds: 10,
+    /** 2 minutes keeps a long burst of writing from stalling the session */
+    maxDelaySeconds: 120,
+    /** The whole vault, until the writer narrows it down */
+    vaultPromptFolder: '',
+    /** No tag filter, so every note can be sampled */
+    vaultPromptTag: '',
+    /** 8 notes give the model choice without crowding the request */
+    vaultSampleSize: 8,
+    /** Keeps freewriting out of the vault root */
+    newNoteFolder: 'Freewriting',
+    /** Sorts chronologically and allows several notes a day */
+    newNoteFilenamePattern: 'YYYY-MM-DD HHmm [Freewriting]',
+    /** Starting a timed session is opt-in, since the note already has prompts */
+    newNoteStartTimed: false,
+    /** 3 rounds make a session of about an hour with breaks */
+    sprintRounds: 3,
+    /** 15 minutes is a classic sprint length */
+    sprintRoundMinutes: 15,
+    /** 5 minutes of rest between rounds, as in the Pomodoro technique */
+    sprintBreakMinutes: 5,
+    /** The summary is most useful next to the text it describes */
+    sprintSummaryTarget: 'note',
+    /** Top-level file, easy to find when the log is chosen */
+    sprintLogPath: 'Freewriting sprints',
     /** 3 prompts is enough for a note without being overwhelming */
     noteCount: 3,
+    /** About 750 words: enough to follow the thread without slowing requests down */
+    contextTokenBudget: 1000,
+    /** The numbered list under a heading is the format the plugin always used */
+    noteTemplatePreset: 'numbered-list',
+    /** Starts custom templates from the default format, ready to edit */
+    noteTemplate: '## Writing Prompts ({{datetime}})\n\n{{#each prompts}}{{index}}. {{prompt}}\n\n{{/each}}',
+    /** Streaming shows the first prompt almost immediately */
+    streamPrompts: true,
+    /** Structured output avoids scraping prompts out of free-form text */
+    structuredOutput: true,
+    /** 3 retries rides out brief rate limits and overload without stalling a session */
+    maxRetries: 3,
+    /** Prefetching spends requests in the background, so it's opt-in */
+    promptPoolSize: 0,
+    /** Running a command twice should never insert the same prompts */
+    cachePolicy: 'consume-once',
+    /** 10 minutes covers repeated requests in one session without serving stale prompts */
+    cacheTtlMinutes: 10,
+    /** Notices are the familiar default; the sidebar is opt-in */
+    useSessionView: false,
+    /** Writing into the note is opt-in, since it changes the writer's text */
+    logTimedPrompts: false,
+    /** Callouts stand out from the writing without hiding the prompt */
+    promptLogFormat: 'callout',
     /** Base system prompt guiding the AI's creative writing style */
     systemPrompt: 'You are a creative writing assistant. Generate engaging, thought-provoking writing prompts that inspire creativity and help writers overcome blocks. Focus on variety, originality, and emotional depth.',
     /** Example demonstrating short, immediate style for timed prompts */
     timedExamplePrompt: 'The interesting thing about a rose is…',
     /** Example demonstrating more elaborate style for note prompts */
-    freewritingExamplePrompt: 'Describe a world where colors have been outlawed and only exist in secret underground galleries.'
+    freewritingExamplePrompt: 'Describe a world where colors have been outlawed and only exist in secret underground galleries.',
+    /** The provider is the main source; offline mode is opt-in */
+    offlineMode: false,
+    /** Library prompts beat a session that doesn't start */
+    libraryFallback: true,
+    /** The bundled prompts work without any setup */
+    useBuiltInLibrary: true,
+    /** No user library until the writer creates one */
+    libraryPath: '',
+    /** Every category, until the writer narrows it down */
+    libraryCategories: '',
+    /** Favorites are the clearest signal of the style a writer wants */
+    useFavoritesAsExamples: true,
+    /** Keeping history lets users find and reuse prompts they liked */
+    historyEnabled: true,
+    /** Plugin data keeps the vault clean until users opt into a visible file */
+    historyStorage: 'plugin-data',
+    /** Top-level file, easy to find when vault storage is chosen */
+    historyFilePath: 'Freewriting prompt history',
+    /** About 100 timed sessions, plenty for search and repeat detection without bloating data.json */
+    historyMaxEntries: 1000,
+    /** Freewriting relies on fresh material; repeats break the flow */
+    deduplicatePrompts: true,
+    /** 0.6 catches rewordings of the same idea while allowing prompts that share a theme */
+    similarityThreshold: 0.6,
+    /** List prices in dollars per million tokens at the time of writing; editable as prices change */
+    modelPrices: [
+        { model: 'claude-3-haiku', inputPerMillion: 0.25, outputPerMillion: 1.25 },
+        { model: 'claude-3-5-haiku', inputPerMillion: 0.8, outputPerMillion: 4 },
+        { model: 'claude-haiku-4-5', inputPerMillion: 1, outputPerMillion: 5 },
+        { model: 'claude-3-sonnet', inputPerMillion: 3, outputPerMillion: 15 },
+        { model: 'claude-3-5-sonnet', inputPerMillion: 3, outputPerMillion: 15 },
+        { model: 'claude-3-7-sonnet', inputPerMillion: 3, outputPerMillion: 15 },
+        { model: 'claude-sonnet-4', inputPerMillion: 3, outputPerMillion: 15 },
+        { model: 'claude-3-opus', inputPerMillion: 15, outputPerMillion: 75 },
+        { model: 'claude-opus-4', inputPerMillion: 15, outputPerMillion: 75 },
+        { model: 'claude-opus-4-5', inputPerMillion: 5, outputPerMillion: 25 },
+        { model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+        { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 }
+    ],
+    /** No budget until the writer sets one */
+    monthlyBudget: 0,
+    /** Warning keeps a session going; blocking is opt-in */
+    budgetAction: 'warn',
+    /**
+     * Both prompt types use the profile's model and the model's default sampling;
+     * timed prompts get a small token budget for speed, note prompts room for detail
+     */
+    modeParameters: {
+        timed: { model: '', openAIModel: '', temperature: null, topP: null, maxTokens: 256 },
+        note: { model: '', openAIModel: '', temperature: null, topP: null, maxTokens: 1000 }
+    },
+    /** Filled on first load with a "Default" profile built from the settings above */
+    profiles: [],
+    /** Set to the "Default" profile on first load */
+    activeProfileId: ''
 };
 
 /**
  * Settings UI tab for the Freewriting Prompts plugin.
  *
  * This class builds the settings interface with several key sections:
- * - API Configuration: API key, model selection, connection testing
+ * - Profiles: Switching, creating, deleting, importing, and exporting prompt profiles
+ * - API Configuration: Provider selection, credentials, model selection, connection testing
+ * - Prompt Types: Model, temperature, top P, and token budget of timed and note prompts
  * - Command Configuration: Counts and timing for different prompt types
+ * - Vault Prompts: Folder, tag, and sample size for prompts drawn from the vault
+ * - New Notes: Folder, file name, and session start of new freewriting notes
+ * - Sprints: Rounds, durations, and where sprint summaries go
  * - Prompt Customization: System prompt and examples to guide style
+ * - Offline Library: Offline mode, fallback, and the prompt library file
+ * - History: Whether and where generated prompts are recorded
+ * - Favorites and blocklist: How rated prompts feed back into generation
+ * - Usage and costs: Monthly usage, budget, and the per-model price table
  * - Actions: Cache clearing and other utility functions
  *
  * Key UX considerations:
  * - Model dropdown loads asynchronously to avoid blocking UI
+ * - Models are grouped by family, newest first, with deprecated models last
  * - API key is masked as a password field
  * - Model refresh happens automatically when API key is entered
  * - Fallback to hardcoded models if API is unavailable
@@ -54,6 +187,10 @@ export class FreewritingPromptsSettingTab extends PluginSettingTab {
     plugin: FreewritingPromptsPlugin;
     /** Reference to model dropdown for dynamic updates */
     private modelDropdown: DropdownComponent | null = null;
+    /** Reference to the model setting, whose description shows the model's metadata */
+    private modelSetting: Setting | null = null;
+    /** Model dropdowns of the prompt types, filled when the model list arrives */
+    private modeModelDropdowns = new Map<PromptType, DropdownComponent>();
     /** Cached list of available models for the dropdown */
     private availableModels: ModelOption[] = [];
     /** Debounce timer for API key changes to avoid excessive API calls */
@@ -116,6 +253,8 @@ export class FreewritingPromptsSettingTab extends PluginSettingTab {
         const { containerEl } = this;
         containerEl.empty();
 
+        this.displayProfileSettings(containerEl);
+
         // MARK: - API Configuration
 
         new Setting(containerEl)
@@ -123,67 +262,44 @@ export class FreewritingPromptsSettingTab extends PluginSettingTab {
             .setHeading();
 
         new Setting(containerEl)
-            .setName('Anthropic API key')
-            .setDesc('Your Anthropic API key for Claude. Get one at https://console.anthropic.com/')
-            .addText(text => text
-                .setPlaceholder('sk-ant-...')
-                .setValue(this.plugin.settings.apiKey)
-                .onChange((value) => {
-                    this.plugin.settings.apiKey = value;
-
-                    // Clear any existing debounce timer
-                    if (this.apiKeyDebounceTimer !== null) {
-                        window.clearTimeout(this.apiKeyDebounceTimer);
-                        this.apiKeyDebounceTimer = null;
-                    }
-
-                    // Debounce both saving and model refresh to reduce disk writes and API calls
-                    this.apiKeyDebounceTimer = window.setTimeout(() => {
-                        void (async () => {
-                            await this.plugin.saveSettings();
-                            // Note: updateApiKey is called by saveSettings only if key changed
-                            // This avoids clearing the prompt cache twice
+            .setName('Provider')
+            .setDesc('Which service generates the prompts. OpenAI-compatible servers include OpenAI, Ollama, LM Studio and llama.cpp.')
+            .addDropdown(dropdown => dropdown
+                .addOption('anthropic', 'Anthropic (Claude)')
+                .addOption('openai-compatible', 'OpenAI-compatible server')
+                .setValue(this.plugin.settings.provider)
+                .onChange(async (value) => {
+                    this.plugin.settings.provider = value as ProviderId;
+                    await this.plugin.saveSettings();
+                    // Re-render to show the fields for the selected provider
+                    this.display();
+                }));
 
-                            // Refresh models if API key has content
-                            if (value.trim().length > 0) {
-                                await this.refreshModels();
-                            }
-                            this.apiKeyDebounceTimer = null;
-                        })();
-                    }, this.API_KEY_DEBOUNCE_MS);
-                }))
-            .then(setting => {
-                // Make it a password field
-                setting.controlEl.querySelector('input')?.setAttribute('type', 'password');
-            });
+        if (this.plugin.settings.provider === 'openai-compatible') {
+            this.displayOpenAICompatibleSettings(containerEl);
+        } else {
+            this.displayAnthropicSettings(containerEl);
+        }
 
         new Setting(containerEl)
-            .setName('Test API key')
-            .setDesc('Test your API key to verify it works correctly')
+            .setName('Test connection')
+            .setDesc('Send a minimal request to verify the provider and model work correctly')
             .addButton(button => button
                 .setButtonText('Test connection')
                 .onClick(() => {
                     void this.testApiKey(button);
                 }));
 
+        // MARK: - Prompt Types
+
         new Setting(containerEl)
-            .setName('Claude model')
-            .setDesc('Which Claude model to use for generating prompts')
-            .addDropdown(dropdown => {
-                this.modelDropdown = dropdown;
-                this.populateModelDropdown(dropdown);
-                // Only set value if models are loaded to avoid setting non-existent options
-                if (this.availableModels.length > 0) {
-                    dropdown.setValue(this.plugin.settings.model);
-                }
-                dropdown.onChange((value) => {
-                    this.plugin.settings.model = value;
-                    this.debounceSaveSettings();
-                });
-            });
+            .setName('Models and parameters per prompt type')
+            .setDesc('Timed prompts can use a fast, inexpensive model while note prompts use a stronger one at higher creativity. Prompts based on a note, a selection, or your vault use the note prompt settings. These settings belong to the active profile, and a model set here overrides the profile\'s model above.')
+            .setHeading();
 
-        // Load models asynchronously without blocking UI
-        void this.loadModelsAsync();
+        this.modeModelDropdowns.clear();
+        this.displayModeSettings(containerEl, 'timed', 'Timed prompts');
+        this.displayModeSettings(containerEl, 'note', 'Note prompts');
 
         // MARK: - Command Configuration
 
@@ -237,6 +353,91 @@ export class FreewritingPromptsSettingTab extends PluginSettingTab {
                 }
             });
 
+        new Setting(containerEl)
+            .setName('Pacing')
+            .setDesc('Fixed shows each prompt for the delay above. Adaptive shows the next prompt when you pause typing, and holds it while you write.')
+            .addDropdown(dropdown => dropdown
+                .addOption('fixed', 'Fixed delay')
+                .addOption('adaptive', 'Adaptive to typing')
+                .setValue(this.plugin.settings.pacingMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.pacingMode = value as PacingMode;
+                    await this.plugin.saveSettings();
+                    // Show or hide the adaptive pacing settings
+                    this.display();
+                }));
+
+        if (this.plugin.settings.pacingMode === 'adaptive') {
+            new Setting(containerEl)
+                .setName('Pause length')
+                .setDesc('Seconds without typing that count as a pause (1-120)')
+                .addText(text => text
+                    .setPlaceholder('5')
+                    .setValue(this.plugin.settings.idleSeconds.toString())
+                    .onChange(async (value) => {
+                        const seconds = parseInt(value);
+                        if (!isNaN(seconds) && seconds >= 1 && seconds <= 120) {
+                            this.plugin.settings.idleSeconds = seconds;
+                            await this.plugin.saveSettings();
+                        }
+                    }))
+                .then(setting => {
+                    const input = setting.controlEl.querySelector('input');
+                    if (input) {
+                        input.setAttribute('type', 'number');
+                        input.setAttribute('min', '1');
+                        input.setAttribute('max', '120');
+                        input.setAttribute('step', '1');
+                    }
+                });
+
+            new Setting(containerEl)
+                .setName('Minimum time per prompt')
+                .setDesc('Seconds a prompt stays at least, even if you stop typing right away (1-300)')
+                .addText(text => text
+                    .setPlaceholder('10')
+                    .setValue(this.plugin.settings.minDelaySeconds.toString())
+                    .onChange(async (value) => {
+                        const seconds = parseInt(value);
+                        if (!isNaN(seconds) && seconds >= 1 && seconds <= 300) {
+                            this.plugin.settings.minDelaySeconds = seconds;
+                            await this.plugin.saveSettings();
+                        }
+                    }))
+                .then(setting => {
+                    const input = setting.controlEl.querySelector('input');
+                    if (input) {
+                        input.setAttribute('type', 'number');
+                        input.setAttribute('min', '1');
+                        input.setAttribute('max', '300');
+                        input.setAttribute('step', '1');
+                    }
+                });
+
+            new Setting(containerEl)
+                .setName('Maximum time per prompt')
+                .setDesc('Seconds after which the next prompt appears even if you keep typing (1-600)')
+                .addText(text => text
+                    .setPlaceholder('120')
+                    .setValue(this.plugin.settings.maxDelaySeconds.toString())
+                    .onChange(async (value) => {
+                        const seconds = parseInt(value);
+                        if (!isNaN(seconds) && seconds >= 1 && seconds <= 600) {
+                            this.plugin.settings.maxDelaySeconds = seconds;
+                            await this.plugin.saveSettings();
+                        }
+                    }))
+                .then(setting => {
+                    const input = setting.controlEl.querySelector('input');
+                    if (input) {
+                        input.setAttribute('type', 'number');
+                        input.setAttribute('min', '1');
+                        input.setAttribute('max', '600');
+                        input.setAttribute('step', '1');
+                    }
+                });
+        }
+
         new Setting(containerEl)
             .setName('Note prompts count')
             .setDesc('Number of prompts to append to the current note (1-20)')
@@ -260,156 +461,1295 @@ export class FreewritingPromptsSettingTab extends PluginSettingTab {
                 }
             });
 
-        // MARK: - Prompt Customization
+        new Setting(containerEl)
+            .setName('Context budget')
+            .setDesc('Approximate tokens of your note or selection sent with "Add prompts based on note or selection" (100-8000). Longer text is shortened, keeping the part before the cursor.')
+            .addText(text => text
+                .setPlaceholder('1000')
+                .setValue(this.plugin.settings.contextTokenBudget.toString())
+                .onChange(async (value) => {
+                    const budget = parseInt(value);
+                    if (!isNaN(budget) && budget >= 100 && budget <= 8000) {
+                        this.plugin.settings.contextTokenBudget = budget;
+                        await this.plugin.saveSettings();
+                    }
+                }))
+            .then(setting => {
+                const input = setting.controlEl.querySelector('input');
+                if (input) {
+                    input.setAttribute('type', 'number');
+                    input.setAttribute('min', '100');
+                    input.setAttribute('max', '8000');
+                    input.setAttribute('step', '100');
+                }
+            });
 
         new Setting(containerEl)
-            .setName('Prompt customization')
-            .setHeading();
+            .setName('Show timed prompts in sidebar')
+            .setDesc('Open the prompt session view when timed prompts start and show prompts there instead of as notifications, so they never cover your text')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.useSessionView)
+                .onChange(async (value) => {
+                    this.plugin.settings.useSessionView = value;
+                    await this.plugin.saveSettings();
+                }));
 
         new Setting(containerEl)
-            .setName('System prompt')
-            .setDesc('Instructions for the AI on how to generate prompts')
-            .addTextArea(text => text
-                .setPlaceholder('You are a creative writing assistant...')
-                .setValue(this.plugin.settings.systemPrompt)
-                .onChange((value) => {
-                    this.plugin.settings.systemPrompt = value;
-                    this.debounceSaveSettings();
+            .setName('Log timed prompts in note')
+            .setDesc('Insert each timed prompt at the cursor of the note you started the session in when it appears, so you can tell which prompt inspired which paragraph')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.logTimedPrompts)
+                .onChange(async (value) => {
+                    this.plugin.settings.logTimedPrompts = value;
+                    await this.plugin.saveSettings();
+                    // Show or hide the log format setting
+                    this.display();
+                }));
+
+        if (this.plugin.settings.logTimedPrompts) {
+            new Setting(containerEl)
+                .setName('Log format')
+                .setDesc('How logged prompts look in the note. Comments are hidden in reading view.')
+                .addDropdown(dropdown => dropdown
+                    .addOption('callout', 'Callout')
+                    .addOption('heading', 'Heading')
+                    .addOption('comment', 'Comment')
+                    .setValue(this.plugin.settings.promptLogFormat)
+                    .onChange(async (value) => {
+                        this.plugin.settings.promptLogFormat = value as PromptLogFormat;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName('Stream prompts')
+            .setDesc('Show each prompt as soon as it is generated instead of waiting for the full list')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.streamPrompts)
+                .onChange(async (value) => {
+                    this.plugin.settings.streamPrompts = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Structured output')
+            .setDesc('Request prompts as validated JSON instead of parsing a numbered list. Models without support fall back to list parsing automatically.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.structuredOutput)
+                .onChange(async (value) => {
+                    this.plugin.settings.structuredOutput = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Retries')
+            .setDesc('How often to retry when the API is rate limited, overloaded, or unreachable (0-5, 0 disables retrying)')
+            .addText(text => text
+                .setPlaceholder('3')
+                .setValue(this.plugin.settings.maxRetries.toString())
+                .onChange(async (value) => {
+                    const retries = parseInt(value);
+                    if (!isNaN(retries) && retries >= 0 && retries <= 5) {
+                        this.plugin.settings.maxRetries = retries;
+                        await this.plugin.saveSettings();
+                    }
                 }))
             .then(setting => {
-                setting.controlEl.querySelector('textarea')?.setAttribute('rows', '3');
+                const input = setting.controlEl.querySelector('input');
+                if (input) {
+                    input.setAttribute('type', 'number');
+                    input.setAttribute('min', '0');
+                    input.setAttribute('max', '5');
+                    input.setAttribute('step', '1');
+                }
             });
 
         new Setting(containerEl)
-            .setName('Timed prompts example')
-            .setDesc('Example prompt to guide the style for timed notifications')
-            .addTextArea(text => text
-                .setPlaceholder('Write about a character who...')
-                .setValue(this.plugin.settings.timedExamplePrompt)
-                .onChange((value) => {
-                    this.plugin.settings.timedExamplePrompt = value;
-                    this.debounceSaveSettings();
+            .setName('Prefetched prompts')
+            .setDesc('Prompts kept ready for timed and note prompts, so commands start without waiting for the API. Refilled in the background after each use (0-50, 0 disables prefetching).')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(this.plugin.settings.promptPoolSize.toString())
+                .onChange(async (value) => {
+                    const size = parseInt(value);
+                    if (!isNaN(size) && size >= 0 && size <= 50) {
+                        this.plugin.settings.promptPoolSize = size;
+                        await this.plugin.saveSettings();
+                    }
                 }))
             .then(setting => {
-                setting.controlEl.querySelector('textarea')?.setAttribute('rows', '2');
+                const input = setting.controlEl.querySelector('input');
+                if (input) {
+                    input.setAttribute('type', 'number');
+                    input.setAttribute('min', '0');
+                    input.setAttribute('max', '50');
+                    input.setAttribute('step', '1');
+                }
             });
 
         new Setting(containerEl)
-            .setName('Note prompts example')
-            .setDesc('Example prompt to guide the style for note prompts')
-            .addTextArea(text => text
-                .setPlaceholder('Describe a world where...')
-                .setValue(this.plugin.settings.freewritingExamplePrompt)
+            .setName('Cache')
+            .setDesc('How generated prompts are cached. "Reuse" gives identical requests the same prompts again, "Use once" only keeps extra prompts that were never shown and hands each out once.')
+            .addDropdown(dropdown => dropdown
+                .addOption('consume-once', 'Use once')
+                .addOption('reuse', 'Reuse')
+                .addOption('disabled', 'Disabled')
+                .setValue(this.plugin.settings.cachePolicy)
+                .onChange(async (value) => {
+                    this.plugin.settings.cachePolicy = value as CachePolicy;
+                    await this.plugin.saveSettings();
+                    // Show or hide the cache duration
+                    this.display();
+                }));
+
+        if (this.plugin.settings.cachePolicy !== 'disabled') {
+            new Setting(containerEl)
+                .setName('Cache duration')
+                .setDesc('Minutes cached prompts stay valid (1-1440)')
+                .addText(text => text
+                    .setPlaceholder('10')
+                    .setValue(this.plugin.settings.cacheTtlMinutes.toString())
+                    .onChange(async (value) => {
+                        const minutes = parseInt(value);
+                        if (!isNaN(minutes) && minutes >= 1 && minutes <= 1440) {
+                            this.plugin.settings.cacheTtlMinutes = minutes;
+                            await this.plugin.saveSettings();
+                        }
+                    }))
+                .then(setting => {
+                    const input = setting.controlEl.querySelector('input');
+                    if (input) {
+                        input.setAttribute('type', 'number');
+                        input.setAttribute('min', '1');
+                        input.setAttribute('max', '1440');
+                        input.setAttribute('step', '1');
+                    }
+                });
+        }
+
+        // MARK: - Vault Prompts
+
+        new Setting(containerEl)
+            .setName('Vault prompts')
+            .setDesc('The "Add prompts from your vault" command samples note titles, tags, and headings from recently edited notes and asks for prompts that reference them. Referenced notes are linked in the inserted prompts.')
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('Folder')
+            .setDesc('Only sample notes in this folder and its subfolders. Leave empty for the whole vault.')
+            .addText(text => text
+                .setPlaceholder('Journal')
+                .setValue(this.plugin.settings.vaultPromptFolder)
                 .onChange((value) => {
-                    this.plugin.settings.freewritingExamplePrompt = value;
+                    this.plugin.settings.vaultPromptFolder = value;
+                    this.debounceSaveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Tag')
+            .setDesc('Only sample notes with this tag, including nested tags. Leave empty for any note.')
+            .addText(text => text
+                .setPlaceholder('#memories')
+                .setValue(this.plugin.settings.vaultPromptTag)
+                .onChange((value) => {
+                    this.plugin.settings.vaultPromptTag = value;
                     this.debounceSaveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Notes sampled')
+            .setDesc('Number of note titles sent with each request (1-30)')
+            .addText(text => text
+                .setPlaceholder('8')
+                .setValue(this.plugin.settings.vaultSampleSize.toString())
+                .onChange(async (value) => {
+                    const size = parseInt(value);
+                    if (!isNaN(size) && size >= 1 && size <= 30) {
+                        this.plugin.settings.vaultSampleSize = size;
+                        await this.plugin.saveSettings();
+                    }
                 }))
             .then(setting => {
-                setting.controlEl.querySelector('textarea')?.setAttribute('rows', '2');
+                const input = setting.controlEl.querySelector('input');
+                if (input) {
+                    input.setAttribute('type', 'number');
+                    input.setAttribute('min', '1');
+                    input.setAttribute('max', '30');
+                    input.setAttribute('step', '1');
+                }
             });
 
-        // MARK: - Actions
+        // MARK: - New Notes
 
         new Setting(containerEl)
-            .setName('Actions')
+            .setName('New freewriting notes')
+            .setDesc('The "New freewriting note" command creates a note with note prompts and opens it, ready for writing.')
             .setHeading();
 
         new Setting(containerEl)
-            .setName('Clear cache')
-            .setDesc('Clear the cached prompts to force regeneration')
-            .addButton(button => button
-                .setButtonText('Clear cache')
-                .onClick(() => {
-                    this.plugin.promptGenerator.clearCache();
-                    // Show a temporary notice
-                    const notice = new Notice('Cache cleared');
-                    setTimeout(() => notice.hide(), 2000);
+            .setName('Folder')
+            .setDesc('Folder new notes are created in. It is created if it does not exist.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.newNoteFolder)
+                .setValue(this.plugin.settings.newNoteFolder)
+                .onChange((value) => {
+                    this.plugin.settings.newNoteFolder = value;
+                    this.debounceSaveSettings();
                 }));
 
         new Setting(containerEl)
-            .setName('Clear model list cache')
-            .setDesc('Clear cached Claude model list to force a fresh fetch from the API')
-            .addButton(button => button
-                .setButtonText('Clear models cache')
-                .onClick(() => {
-                    this.plugin.modelService.clearCache();
-                    // Show a temporary notice
-                    const notice = new Notice('Model list cache cleared');
-                    setTimeout(() => notice.hide(), 2000);
-                    // Persist the cleared cache so it doesn't restore on restart
-                    void this.plugin.saveSettings();
+            .setName('File name')
+            .setDesc('Moment.js date format for the file name; put literal text in square brackets. A number is added if the file already exists.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.newNoteFilenamePattern)
+                .setValue(this.plugin.settings.newNoteFilenamePattern)
+                .onChange((value) => {
+                    this.plugin.settings.newNoteFilenamePattern = value;
+                    this.debounceSaveSettings();
                 }));
-    }
 
-    // MARK: - Model Loading
+        new Setting(containerEl)
+            .setName('Start timed prompts')
+            .setDesc('Start a timed prompt session as soon as the new note is open')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.newNoteStartTimed)
+                .onChange(async (value) => {
+                    this.plugin.settings.newNoteStartTimed = value;
+                    await this.plugin.saveSettings();
+                }));
 
-    /**
-     * Loads available models from the API.
-     *
-     * This is the core model-fetching method that calls the ModelService.
-     * Errors are logged but not shown to the user here - they're shown by
-     * the ModelService itself via Notice popups.
-     */
-    private async loadModels(): Promise<void> {
-        try {
-            this.availableModels = await this.plugin.modelService.getAvailableModels();
-        } catch (error) {
-            console.error('Error loading models:', error);
-            // Error already shown by ModelService via Notice
-            // availableModels will be empty array, dropdown will be disabled
-        }
-    }
+        // MARK: - Sprints
 
-    /**
-     * Loads models asynchronously without blocking UI rendering.
-     *
-     * This method is called after the UI is displayed to avoid blocking
-     * the settings tab from appearing. The dropdown starts in a "Loading..."
-     * state and updates when models arrive.
-     *
-     * If the current model is no longer available (e.g., deprecated), falls
-     * back to the first available model and updates settings.
-     */
-    private async loadModelsAsync(): Promise<void> {
-        await this.loadModels();
+        new Setting(containerEl)
+            .setName('Sprints')
+            .setDesc('A sprint alternates writing rounds and breaks. Each round spreads the timed prompts count over its duration and tracks the words you write in the note.')
+            .setHeading();
 
-        // Update dropdown after models are loaded
-        if (this.modelDropdown) {
-            this.populateModelDropdown(this.modelDropdown);
+        // Updated by the inputs below so the total always matches them
+        const sprintLength = new Setting(containerEl)
+            .setName('Sprint length');
+        this.updateSprintLength(sprintLength);
 
-            // Restore selected model if it still exists
-            const currentModel = this.plugin.settings.model;
-            const modelExists = this.availableModels.some(m => m.id === currentModel);
-            if (modelExists) {
-                this.modelDropdown.setValue(currentModel);
-            } else {
-                // Fall back to first available model if current one is gone
-                const fallbackModel = this.availableModels[0];
-                if (!fallbackModel) {
-                    // Edge case: both API and fallback returned empty
-                    this.modelDropdown.setDisabled(true);
-                    this.modelDropdown.selectEl.empty();
-                    this.modelDropdown.addOption('', 'No models available');
-                } else if (this.plugin.settings.model !== fallbackModel.id) {
-                    this.modelDropdown.setValue(fallbackModel.id);
-                    this.plugin.settings.model = fallbackModel.id;
-                    await this.plugin.saveSettings();
-                    new Notice(`Your selected model is no longer available. Defaulting to ${fallbackModel.displayName} (${fallbackModel.id})`);
-                }
-            }
-        }
-    }
+        new Setting(containerEl)
+            .setName('Rounds')
+            .setDesc('Number of writing rounds per sprint (1-12)')
+            .addText(text => text
+                .setPlaceholder('3')
+                .setValue(this.plugin.settings.sprintRounds.toString())
+                .onChange(async (value) => {
+                    const rounds = parseInt(value);
+                    if (!isNaN(rounds) && rounds >= 1 && rounds <= 12) {
+                        this.plugin.settings.sprintRounds = rounds;
+                        this.updateSprintLength(sprintLength);
+                        await this.plugin.saveSettings();
+                    }
+                }))
+            .then(setting => {
+                const input = setting.controlEl.querySelector('input');
+                if (input) {
+                    input.setAttribute('type', 'number');
+                    input.setAttribute('min', '1');
+                    input.setAttribute('max', '12');
+                    input.setAttribute('step', '1');
+                }
+            });
+
+        new Setting(containerEl)
+            .setName('Round length')
+            .setDesc('Minutes of writing per round (1-120)')
+            .addText(text => text
+                .setPlaceholder('15')
+                .setValue(this.plugin.settings.sprintRoundMinutes.toString())
+                .onChange(async (value) => {
+                    const minutes = parseInt(value);
+                    if (!isNaN(minutes) && minutes >= 1 && minutes <= 120) {
+                        this.plugin.settings.sprintRoundMinutes = minutes;
+                        this.updateSprintLength(sprintLength);
+                        await this.plugin.saveSettings();
+                    }
+                }))
+            .then(setting => {
+                const input = setting.controlEl.querySelector('input');
+                if (input) {
+                    input.setAttribute('type', 'number');
+                    input.setAttribute('min', '1');
+                    input.setAttribute('max', '120');
+                    input.setAttribute('step', '1');
+                }
+            });
+
+        new Setting(containerEl)
+            .setName('Break length')
+            .setDesc('Minutes of break between rounds (0-60, 0 for no break)')
+            .addText(text => text
+                .setPlaceholder('5')
+                .setValue(this.plugin.settings.sprintBreakMinutes.toString())
+                .onChange(async (value) => {
+                    const minutes = parseInt(value);
+                    if (!isNaN(minutes) && minutes >= 0 && minutes <= 60) {
+                        this.plugin.settings.sprintBreakMinutes = minutes;
+                        this.updateSprintLength(sprintLength);
+                        await this.plugin.saveSettings();
+                    }
+                }))
+            .then(setting => {
+                const input = setting.controlEl.querySelector('input');
+                if (input) {
+                    input.setAttribute('type', 'number');
+                    input.setAttribute('min', '0');
+                    input.setAttribute('max', '60');
+                    input.setAttribute('step', '1');
+                }
+            });
+
+        new Setting(containerEl)
+            .setName('Sprint summary')
+            .setDesc('Where to write the prompts used, words per round, and duration when a sprint ends')
+            .addDropdown(dropdown => dropdown
+                .addOption('note', 'Append to the note')
+                .addOption('log-file', 'Append to sprint log')
+                .setValue(this.plugin.settings.sprintSummaryTarget)
+                .onChange(async (value) => {
+                    this.plugin.settings.sprintSummaryTarget = value as SprintSummaryTarget;
+                    await this.plugin.saveSettings();
+                    // Show or hide the log path setting
+                    this.display();
+                }));
+
+        if (this.plugin.settings.sprintSummaryTarget === 'log-file') {
+            new Setting(containerEl)
+                .setName('Sprint log file')
+                .setDesc('Vault path of the sprint log. The .md extension is added automatically.')
+                .addText(text => text
+                    .setPlaceholder(DEFAULT_SETTINGS.sprintLogPath)
+                    .setValue(this.plugin.settings.sprintLogPath)
+                    .onChange((value) => {
+                        this.plugin.settings.sprintLogPath = value;
+                        this.debounceSaveSettings();
+                    }));
+        }
+
+        // MARK: - Prompt Customization
+
+        new Setting(containerEl)
+            .setName('Prompt customization')
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('System prompt')
+            .setDesc('Instructions for the AI on how to generate prompts')
+            .addTextArea(text => text
+                .setPlaceholder('You are a creative writing assistant...')
+                .setValue(this.plugin.settings.systemPrompt)
+                .onChange((value) => {
+                    this.plugin.settings.systemPrompt = value;
+                    this.debounceSaveSettings();
+                }))
+            .then(setting => {
+                setting.controlEl.querySelector('textarea')?.setAttribute('rows', '3');
+            });
+
+        new Setting(containerEl)
+            .setName('Timed prompts example')
+            .setDesc('Example prompt to guide the style for timed notifications')
+            .addTextArea(text => text
+                .setPlaceholder('Write about a character who...')
+                .setValue(this.plugin.settings.timedExamplePrompt)
+                .onChange((value) => {
+                    this.plugin.settings.timedExamplePrompt = value;
+                    this.debounceSaveSettings();
+                }))
+            .then(setting => {
+                setting.controlEl.querySelector('textarea')?.setAttribute('rows', '2');
+            });
+
+        new Setting(containerEl)
+            .setName('Note prompts example')
+            .setDesc('Example prompt to guide the style for note prompts')
+            .addTextArea(text => text
+                .setPlaceholder('Describe a world where...')
+                .setValue(this.plugin.settings.freewritingExamplePrompt)
+                .onChange((value) => {
+                    this.plugin.settings.freewritingExamplePrompt = value;
+                    this.debounceSaveSettings();
+                }))
+            .then(setting => {
+                setting.controlEl.querySelector('textarea')?.setAttribute('rows', '2');
+            });
+
+        new Setting(containerEl)
+            .setName('Note prompts format')
+            .setDesc('How note prompts are inserted. Choose a preset or write your own template.')
+            .addDropdown(dropdown => {
+                Object.entries(NOTE_TEMPLATE_PRESETS).forEach(([id, preset]) => {
+                    dropdown.addOption(id, preset.name);
+                });
+                dropdown
+                    .addOption('custom', 'Custom template')
+                    .setValue(this.plugin.settings.noteTemplatePreset)
+                    .onChange(async (value) => {
+                        this.plugin.settings.noteTemplatePreset = value as NoteTemplatePreset;
+                        await this.plugin.saveSettings();
+                        // Show or hide the template editor
+                        this.display();
+                    });
+            });
+
+        if (this.plugin.settings.noteTemplatePreset === 'custom') {
+            new Setting(containerEl)
+                .setName('Note template')
+                .setDesc('Variables: {{date}}, {{time}}, {{datetime}}, {{model}}, {{profile}}, {{count}}. Wrap text in {{#each prompts}}...{{/each}} to repeat it for every prompt, using {{index}} and {{prompt}} inside. Add | table, as in {{prompt | table}}, to escape a value for a table cell.')
+                .addTextArea(text => text
+                    .setPlaceholder(DEFAULT_SETTINGS.noteTemplate)
+                    .setValue(this.plugin.settings.noteTemplate)
+                    .onChange((value) => {
+                        this.plugin.settings.noteTemplate = value;
+                        this.debounceSaveSettings();
+                    }))
+                .then(setting => {
+                    setting.controlEl.querySelector('textarea')?.setAttribute('rows', '6');
+                });
+        }
+
+        // MARK: - Offline Library
+
+        new Setting(containerEl)
+            .setName('Offline library')
+            .setDesc('Prompts bundled with the plugin and your own prompt file, used without a provider.')
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('Offline mode')
+            .setDesc('Always use prompts from the library instead of the provider. Context-aware and vault prompts then stand alone.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.offlineMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.offlineMode = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Fall back to the library')
+            .setDesc('Use library prompts when the provider isn\'t configured or a request fails, e.g. without an internet connection')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.libraryFallback)
+                .onChange(async (value) => {
+                    this.plugin.settings.libraryFallback = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Include built-in prompts')
+            .setDesc('Use the prompts bundled with the plugin in addition to your prompt file')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.useBuiltInLibrary)
+                .onChange(async (value) => {
+                    this.plugin.settings.useBuiltInLibrary = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Prompt file')
+            .setDesc('Markdown or JSON file with your own prompts. In markdown, "# Timed" and "# Note" headings set the prompt type, other headings the category, and list items are prompts. In JSON, use an array of prompts or an object of categories.')
+            .addText(text => text
+                .setPlaceholder('Freewriting prompts.md')
+                .setValue(this.plugin.settings.libraryPath)
+                .onChange((value) => {
+                    this.plugin.settings.libraryPath = value;
+                    this.debounceSaveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Categories')
+            .setDesc('Comma-separated categories to draw from. Leave empty for all. Built-in categories: Senses, Memory, Feelings, Objects, Words (timed); Memory, Character, Place, Reflection, What if (note).')
+            .addText(text => text
+                .setPlaceholder('Memory, Senses')
+                .setValue(this.plugin.settings.libraryCategories)
+                .onChange((value) => {
+                    this.plugin.settings.libraryCategories = value;
+                    this.debounceSaveSettings();
+                }));
+
+        // MARK: - History
+
+        new Setting(containerEl)
+            .setName('History')
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('Record prompt history')
+            .setDesc('Keep every generated prompt so you can search, re-insert, or re-run it later')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.historyEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.historyEnabled = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('History storage')
+            .setDesc('Plugin data stays out of your vault; a vault file can be read, linked, and synced like any note')
+            .addDropdown(dropdown => dropdown
+                .addOption('plugin-data', 'Plugin data')
+                .addOption('vault-markdown', 'Markdown file in vault')
+                .addOption('vault-json', 'JSON file in vault')
+                .setValue(this.plugin.settings.historyStorage)
+                .onChange(async (value) => {
+                    this.plugin.settings.historyStorage = value as HistoryStorage;
+                    await this.plugin.saveSettings();
+                    // Show or hide the file path setting
+                    this.display();
+                }));
+
+        if (this.plugin.settings.historyStorage === 'plugin-data') {
+            new Setting(containerEl)
+                .setName('Maximum history entries')
+                .setDesc('Prompts kept in plugin data (100-20000). The oldest prompts are removed first.')
+                .addText(text => text
+                    .setPlaceholder('1000')
+                    .setValue(this.plugin.settings.historyMaxEntries.toString())
+                    .onChange(async (value) => {
+                        const maxEntries = parseInt(value);
+                        if (!isNaN(maxEntries) && maxEntries >= 100 && maxEntries <= 20000) {
+                            this.plugin.settings.historyMaxEntries = maxEntries;
+                            await this.plugin.saveSettings();
+                        }
+                    }))
+                .then(setting => {
+                    const input = setting.controlEl.querySelector('input');
+                    if (input) {
+                        input.setAttribute('type', 'number');
+                        input.setAttribute('min', '100');
+                        input.setAttribute('max', '20000');
+                        input.setAttribute('step', '100');
+                    }
+                });
+        } else {
+            new Setting(containerEl)
+                .setName('History file')
+                .setDesc('Vault path of the history file. The .md or .json extension is added automatically.')
+                .addText(text => text
+                    .setPlaceholder(DEFAULT_SETTINGS.historyFilePath)
+                    .setValue(this.plugin.settings.historyFilePath)
+                    .onChange((value) => {
+                        this.plugin.settings.historyFilePath = value;
+                        this.debounceSaveSettings();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName('Skip repeated prompts')
+            .setDesc('Drop prompts that closely resemble ones generated in the last two weeks and request replacements')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.deduplicatePrompts)
+                .onChange(async (value) => {
+                    this.plugin.settings.deduplicatePrompts = value;
+                    await this.plugin.saveSettings();
+                    // Show or hide the similarity setting
+                    this.display();
+                }));
+
+        if (this.plugin.settings.deduplicatePrompts) {
+            new Setting(containerEl)
+                .setName('Similarity threshold')
+                .setDesc('How alike two prompts must be to count as a repeat. Lower values skip more prompts.')
+                .addSlider(slider => slider
+                    .setLimits(0.3, 1, 0.05)
+                    .setValue(this.plugin.settings.similarityThreshold)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        this.plugin.settings.similarityThreshold = value;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName('Clear history')
+            .setDesc(this.plugin.settings.historyStorage === 'plugin-data'
+                ? `Remove all prompts from the history. Plugin data holds ${this.plugin.historyService.getPluginDataEntries().length} prompts.`
+                : 'Remove all prompts from the selected history storage')
+            .addButton(button => button
+                .setButtonText('Clear history')
+                .setWarning()
+                .onClick(async () => {
+                    try {
+                        await this.plugin.historyService.clear();
+                        new Notice('Prompt history cleared');
+                        // Update the prompt count in the description
+                        this.display();
+                    } catch (error) {
+                        console.error('Failed to clear prompt history:', error);
+                        new Notice('Could not clear the prompt history. Check the history file.');
+                    }
+                }));
+
+        // MARK: - Favorites and Blocklist
+
+        new Setting(containerEl)
+            .setName('Favorites and blocklist')
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('Use favorites as examples')
+            .setDesc('Send your most recent favorite prompts to the model as extra style examples')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.useFavoritesAsExamples)
+                .onChange(async (value) => {
+                    this.plugin.settings.useFavoritesAsExamples = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        const feedback = this.plugin.feedbackService;
+
+        new Setting(containerEl)
+            .setName('Favorites')
+            .setDesc(`${feedback.getFavorites().length} favorite prompts`)
+            .addButton(button => button
+                .setButtonText('Clear favorites')
+                .setDisabled(feedback.getFavorites().length === 0)
+                .onClick(async () => {
+                    await feedback.clearFavorites();
+                    new Notice('Favorites cleared');
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('Blocklist')
+            .setDesc(`${feedback.getBlocklist().length} blocked prompts`)
+            .addButton(button => button
+                .setButtonText('Clear blocklist')
+                .setDisabled(feedback.getBlocklist().length === 0)
+                .onClick(async () => {
+                    await feedback.clearBlocklist();
+                    new Notice('Blocklist cleared');
+                    this.display();
+                }));
+
+        this.displayUsageSettings(containerEl);
+
+        // MARK: - Actions
+
+        new Setting(containerEl)
+            .setName('Actions')
+            .setHeading();
+
+        const cacheStats = this.plugin.promptCache.getStats();
+        new Setting(containerEl)
+            .setName('Clear cache')
+            .setDesc(`Clear the cached prompts to force regeneration. The cache holds ${formatCacheStats(cacheStats)}.`)
+            .addButton(button => button
+                .setButtonText('Clear cache')
+                .setDisabled(cacheStats.entries === 0)
+                .onClick(() => {
+                    void this.plugin.promptGenerator.clearCache().then(cleared => {
+                        // Show a temporary notice
+                        const notice = new Notice(`Cache cleared: discarded ${formatCacheStats(cleared)}`);
+                        setTimeout(() => notice.hide(), 2000);
+                        // Update the cache size in the description
+                        this.display();
+                    });
+                }));
+
+        new Setting(containerEl)
+            .setName('Clear prefetched prompts')
+            .setDesc('Discard the prompts kept ready, so the next commands use freshly generated ones')
+            .addButton(button => button
+                .setButtonText('Clear prefetched prompts')
+                .onClick(() => {
+                    void this.plugin.promptPool.clear().then(() => {
+                        const notice = new Notice('Prefetched prompts cleared');
+                        setTimeout(() => notice.hide(), 2000);
+                    });
+                }));
+
+        new Setting(containerEl)
+            .setName('Clear model list cache')
+            .setDesc('Clear cached Claude model list to force a fresh fetch from the API')
+            .addButton(button => button
+                .setButtonText('Clear models cache')
+                .onClick(() => {
+                    this.plugin.modelService.clearCache();
+                    // Show a temporary notice
+                    const notice = new Notice('Model list cache cleared');
+                    setTimeout(() => notice.hide(), 2000);
+                    // Persist the cleared cache so it doesn't restore on restart
+                    void this.plugin.saveSettings();
+                }));
+    }
+
+    // MARK: - Profile Settings
+
+    /**
+     * Renders the profile selector and profile management buttons.
+     *
+     * Models, counts, delay, system prompt, and examples further down belong
+     * to the active profile; switching profiles re-renders the tab with the
+     * selected profile's values.
+     *
+     * @param containerEl - Container to render into
+     */
+    private displayProfileSettings(containerEl: HTMLElement): void {
+        const profiles = this.plugin.profileService;
+        const active = profiles.getActiveProfile();
+
+        new Setting(containerEl)
+            .setName('Profiles')
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('Active profile')
+            .setDesc('Models, per prompt type settings, counts, system prompt, and examples below belong to this profile. Every profile also gets its own commands.')
+            .addDropdown(dropdown => {
+                profiles.getProfiles().forEach(profile => {
+                    dropdown.addOption(profile.id, profile.name);
+                });
+                dropdown
+                    .setValue(active.id)
+                    .onChange(async (value) => {
+                        profiles.activate(value);
+                        await this.plugin.saveSettings();
+                        // Show the selected profile's values
+                        this.display();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Profile name')
+            .setDesc('Shown in the profile selector and in command names')
+            .addText(text => text
+                .setValue(active.name)
+                .onChange((value) => {
+                    profiles.rename(active.id, value);
+                    this.debounceSaveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Manage profiles')
+            .setDesc('New profiles start as a copy of the active profile')
+            .addButton(button => button
+                .setButtonText('New profile')
+                .onClick(async () => {
+                    profiles.create(`${active.name} copy`);
+                    await this.plugin.saveSettings();
+                    this.display();
+                }))
+            .addButton(button => button
+                .setButtonText('Delete profile')
+                .setWarning()
+                .setDisabled(profiles.getProfiles().length <= 1)
+                .onClick(async () => {
+                    if (profiles.delete(active.id)) {
+                        await this.plugin.saveSettings();
+                        new Notice(`Deleted profile "${active.name}"`);
+                        this.display();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Import and export')
+            .setDesc('Share profiles between vaults as JSON')
+            .addButton(button => button
+                .setButtonText('Export to clipboard')
+                .onClick(async () => {
+                    try {
+                        await navigator.clipboard.writeText(profiles.exportProfiles());
+                        new Notice('Profiles copied to clipboard');
+                    } catch (error) {
+                        console.error('Failed to copy profiles:', error);
+                        new Notice('Could not copy profiles to the clipboard');
+                    }
+                }))
+            .addButton(button => button
+                .setButtonText('Import')
+                .onClick(() => {
+                    new ProfileImportModal(this.app, this.plugin, () => this.display()).open();
+                }));
+    }
+
+    // MARK: - Usage Settings
+
+    /**
+     * Renders this month's usage, the monthly budget, and the price table.
+     *
+     * Prices are edited in place; adding or removing a row re-renders the
+     * tab. Every change assigns a new price array, so the defaults are never
+     * modified.
+     *
+     * @param containerEl - Container to render into
+     */
+    private displayUsageSettings(containerEl: HTMLElement): void {
+        const usage = this.plugin.usageService;
+        const monthStart = moment().startOf('month').format('YYYY-MM-DD');
+        const month = usage.getTotals(this.plugin.settings.modelPrices, monthStart);
+
+        new Setting(containerEl)
+            .setName('Usage and costs')
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('This month')
+            .setDesc(`${month.requests} requests, ${month.inputTokens.toLocaleString()} input and ${month.outputTokens.toLocaleString()} output tokens, about ${formatCost(month.cost)}${month.hasUnpriced ? ' (some models have no price)' : ''}`)
+            .addButton(button => button
+                .setButtonText('Show usage')
+                .onClick(() => {
+                    new UsageModal(this.app, this.plugin).open();
+                }));
+
+        new Setting(containerEl)
+            .setName('Monthly budget')
+            .setDesc('Estimated cost in dollars per calendar month, 0 for no budget')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(this.plugin.settings.monthlyBudget.toString())
+                .onChange(async (value) => {
+                    const budget = parseFloat(value);
+                    if (!isNaN(budget) && budget >= 0) {
+                        this.plugin.settings.monthlyBudget = budget;
+                        await this.plugin.saveSettings();
+                    }
+                }))
+            .then(setting => {
+                const input = setting.controlEl.querySelector('input');
+                if (input) {
+                    input.setAttribute('type', 'number');
+                    input.setAttribute('min', '0');
+                    input.setAttribute('step', '0.01');
+                }
+            });
+
+        new Setting(containerEl)
+            .setName('When the budget is reached')
+            .setDesc('Warn before each generation, or stop generating until next month. Offline library prompts are still used when the fallback is on.')
+            .addDropdown(dropdown => dropdown
+                .addOption('warn', 'Warn')
+                .addOption('block', 'Block generation')
+                .setValue(this.plugin.settings.budgetAction)
+                .onChange(async (value) => {
+                    this.plugin.settings.budgetAction = value as BudgetAction;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Model prices')
+            .setDesc('Dollars per million input and output tokens. A model ID prefix covers every version of the model; the longest matching prefix wins.');
+
+        this.plugin.settings.modelPrices.forEach((price, index) => {
+            new Setting(containerEl)
+                .setClass('freewriting-model-price')
+                .addText(text => text
+                    .setPlaceholder('Model ID prefix')
+                    .setValue(price.model)
+                    .onChange((value) => {
+                        this.updateModelPrice(index, { model: value.trim() });
+                        this.debounceSaveSettings();
+                    }))
+                .addText(text => text
+                    .setPlaceholder('Input')
+                    .setValue(price.inputPerMillion.toString())
+                    .onChange((value) => {
+                        const amount = parseFloat(value);
+                        if (!isNaN(amount) && amount >= 0) {
+                            this.updateModelPrice(index, { inputPerMillion: amount });
+                            this.debounceSaveSettings();
+                        }
+                    }))
+                .addText(text => text
+                    .setPlaceholder('Output')
+                    .setValue(price.outputPerMillion.toString())
+                    .onChange((value) => {
+                        const amount = parseFloat(value);
+                        if (!isNaN(amount) && amount >= 0) {
+                            this.updateModelPrice(index, { outputPerMillion: amount });
+                            this.debounceSaveSettings();
+                        }
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove price')
+                    .onClick(async () => {
+                        this.plugin.settings.modelPrices = this.plugin.settings.modelPrices.filter((_, i) => i !== index);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add model price')
+                .onClick(async () => {
+                    this.plugin.settings.modelPrices = [
+                        ...this.plugin.settings.modelPrices,
+                        { model: '', inputPerMillion: 0, outputPerMillion: 0 }
+                    ];
+                    await this.plugin.saveSettings();
+                    this.display();
+                }))
+            .addButton(button => button
+                .setButtonText('Reset prices')
+                .onClick(async () => {
+                    this.plugin.settings.modelPrices = DEFAULT_SETTINGS.modelPrices.map(price => ({ ...price }));
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        new Setting(containerEl)
+            .setName('Reset usage')
+            .setDesc(`Delete all recorded usage. ${usage.getRecords().length} daily records are stored.`)
+            .addButton(button => button
+                .setButtonText('Reset usage')
+                .setWarning()
+                .setDisabled(usage.getRecords().length === 0)
+                .onClick(async () => {
+                    await usage.clear();
+                    new Notice('Usage reset');
+                    this.display();
+                }));
+    }
+
+    /**
+     * Replaces a price table row with an edited copy.
+     *
+     * @param index - Row to edit
+     * @param change - Fields to change
+     */
+    private updateModelPrice(index: number, change: Partial<ModelPrice>): void {
+        this.plugin.settings.modelPrices = this.plugin.settings.modelPrices.map((price, i) =>
+            i === index ? { ...price, ...change } : price);
+    }
+
+    // MARK: - Prompt Type Settings
+
+    /**
+     * Renders the model, temperature, top P, and token budget of a prompt type.
+     *
+     * The model is a Claude dropdown or a free-text server model name,
+     * matching the provider. Empty values fall back to the provider's model
+     * and the model's default sampling.
+     *
+     * @param containerEl - Container to render into
+     * @param type - Prompt type to configure
+     * @param label - Name of the prompt type in the setting names
+     */
+    private displayModeSettings(containerEl: HTMLElement, type: PromptType, label: string): void {
+        const parameters = this.plugin.settings.modeParameters[type];
+        const isOpenAICompatible = this.plugin.settings.provider === 'openai-compatible';
+
+        if (isOpenAICompatible) {
+            new Setting(containerEl)
+                .setName(`${label}: model`)
+                .setDesc('Model name for this prompt type, overriding the model name above. Leave empty to use the model name above.')
+                .addText(text => text
+                    .setPlaceholder(this.plugin.settings.openAIModel)
+                    .setValue(parameters.openAIModel)
+                    .onChange((value) => {
+                        this.updateModeParameters(type, { openAIModel: value.trim() });
+                        this.debounceSaveSettings();
+                    }));
+        } else {
+            new Setting(containerEl)
+                .setName(`${label}: model`)
+                .setDesc('Claude model for this prompt type, overriding the Claude model above')
+                .addDropdown(dropdown => {
+                    this.modeModelDropdowns.set(type, dropdown);
+                    this.populateModelDropdown(dropdown, parameters.model, 'Same as Claude model');
+                    // Only set value if models are loaded to avoid setting non-existent options
+                    if (this.availableModels.length > 0) {
+                        dropdown.setValue(parameters.model);
+                    }
+                    dropdown.onChange(async (value) => {
+                        this.updateModeParameters(type, { model: value });
+                        await this.plugin.saveSettings();
+                    });
+                });
+        }
+
+        // Claude accepts temperatures up to 1, OpenAI-compatible servers up to 2
+        const maxTemperature = isOpenAICompatible ? 2 : 1;
+        new Setting(containerEl)
+            .setName(`${label}: temperature`)
+            .setDesc(`Higher values give more varied, surprising prompts (0-${maxTemperature}). Leave empty for the model's default.`)
+            .addText(text => text
+                .setPlaceholder('Default')
+                .setValue(parameters.temperature?.toString() ?? '')
+                .onChange(async (value) => {
+                    const temperature = value.trim() ? parseFloat(value) : null;
+                    if (temperature === null || (!isNaN(temperature) && temperature >= 0 && temperature <= maxTemperature)) {
+                        this.updateModeParameters(type, { temperature });
+                        await this.plugin.saveSettings();
+                    }
+                }))
+            .then(setting => {
+                const input = setting.controlEl.querySelector('input');
+                if (input) {
+                    input.setAttribute('type', 'number');
+                    input.setAttribute('min', '0');
+                    input.setAttribute('max', maxTemperature.toString());
+                    input.setAttribute('step', '0.1');
+                }
+            });
+
+        new Setting(containerEl)
+            .setName(`${label}: top P`)
+            .setDesc(`Samples only from the most likely words that together reach this probability (0-1). Leave empty for the model's default.${isOpenAICompatible ? '' : ' Claude takes a temperature or top P, not both.'}`)
+            .addText(text => text
+                .setPlaceholder('Default')
+                .setValue(parameters.topP?.toString() ?? '')
+                .onChange(async (value) => {
+                    const topP = value.trim() ? parseFloat(value) : null;
+                    if (topP === null || (!isNaN(topP) && topP >= 0 && topP <= 1)) {
+                        this.updateModeParameters(type, { topP });
+                        await this.plugin.saveSettings();
+                    }
+                }))
+            .then(setting => {
+                const input = setting.controlEl.querySelector('input');
+                if (input) {
+                    input.setAttribute('type', 'number');
+                    input.setAttribute('min', '0');
+                    input.setAttribute('max', '1');
+                    input.setAttribute('step', '0.05');
+                }
+            });
+
+        new Setting(containerEl)
+            .setName(`${label}: max tokens`)
+            .setDesc('Output tokens the model may use for the prompts (50-2000), doubled for structured output')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.modeParameters[type].maxTokens.toString())
+                .setValue(parameters.maxTokens.toString())
+                .onChange(async (value) => {
+                    const maxTokens = parseInt(value);
+                    if (!isNaN(maxTokens) && maxTokens >= 50 && maxTokens <= 2000) {
+                        this.updateModeParameters(type, { maxTokens });
+                        await this.plugin.saveSettings();
+                    }
+                }))
+            .then(setting => {
+                const input = setting.controlEl.querySelector('input');
+                if (input) {
+                    input.setAttribute('type', 'number');
+                    input.setAttribute('min', '50');
+                    input.setAttribute('max', '2000');
+                    input.setAttribute('step', '50');
+                }
+            });
+    }
+
+    /**
+     * Replaces a prompt type's parameters with an edited copy.
+     *
+     * New objects are assigned so the defaults are never modified.
+     *
+     * @param type - Prompt type to edit
+     * @param change - Fields to change
+     */
+    private updateModeParameters(type: PromptType, change: Partial<ModeParameters>): void {
+        const modeParameters = this.plugin.settings.modeParameters;
+        this.plugin.settings.modeParameters = { ...modeParameters, [type]: { ...modeParameters[type], ...change } };
+    }
+
+    // MARK: - Provider Settings
+
+    /**
+     * Renders the Anthropic-specific settings: API key and Claude model.
+     *
+     * The model dropdown loads asynchronously so the tab renders immediately.
+     *
+     * @param containerEl - Container to render into
+     */
+    private displayAnthropicSettings(containerEl: HTMLElement): void {
+        new Setting(containerEl)
+            .setName('Anthropic API key')
+            .setDesc('Your Anthropic API key for Claude. Get one at https://console.anthropic.com/')
+            .addText(text => text
+                .setPlaceholder('sk-ant-...')
+                .setValue(this.plugin.settings.apiKey)
+                .onChange((value) => {
+                    this.plugin.settings.apiKey = value;
+
+                    // Clear any existing debounce timer
+                    if (this.apiKeyDebounceTimer !== null) {
+                        window.clearTimeout(this.apiKeyDebounceTimer);
+                        this.apiKeyDebounceTimer = null;
+                    }
+
+                    // Debounce both saving and model refresh to reduce disk writes and API calls
+                    this.apiKeyDebounceTimer = window.setTimeout(() => {
+                        void (async () => {
+                            await this.plugin.saveSettings();
+                            // Note: updateApiKey is called by saveSettings only if key changed
+                            // This avoids clearing the prompt cache twice
+
+                            // Refresh models if API key has content
+                            if (value.trim().length > 0) {
+                                await this.refreshModels();
+                            }
+                            this.apiKeyDebounceTimer = null;
+                        })();
+                    }, this.API_KEY_DEBOUNCE_MS);
+                }))
+            .then(setting => {
+                // Make it a password field
+                setting.controlEl.querySelector('input')?.setAttribute('type', 'password');
+            });
+
+        this.modelSetting = new Setting(containerEl)
+            .setName('Claude model')
+            .setDesc('Which Claude model to use for generating prompts')
+            .addDropdown(dropdown => {
+                this.modelDropdown = dropdown;
+                this.populateModelDropdown(dropdown);
+                // Only set value if models are loaded to avoid setting non-existent options
+                if (this.availableModels.length > 0) {
+                    dropdown.setValue(this.plugin.settings.model);
+                    this.updateModelDescription();
+                }
+                dropdown.onChange((value) => {
+                    this.plugin.settings.model = value;
+                    this.updateModelDescription();
+                    this.debounceSaveSettings();
+                });
+            });
+
+        // Load models asynchronously without blocking UI
+        void this.loadModelsAsync();
+    }
+
+    /**
+     * Renders the OpenAI-compatible server settings: URL, optional key, and model name.
+     *
+     * The model is a free-text field because local servers expose whatever
+     * models the user has pulled, which we can't know in advance.
+     *
+     * @param containerEl - Container to render into
+     */
+    private displayOpenAICompatibleSettings(containerEl: HTMLElement): void {
+        // No Claude dropdown on this screen; drop the stale references
+        this.modelDropdown = null;
+        this.modelSetting = null;
+
+        new Setting(containerEl)
+            .setName('Server URL')
+            .setDesc('Base URL including the version path. Ollama: http://localhost:11434/v1, LM Studio: http://localhost:1234/v1, OpenAI: https://api.openai.com/v1')
+            .addText(text => text
+                .setPlaceholder('http://localhost:11434/v1')
+                .setValue(this.plugin.settings.openAIBaseUrl)
+                .onChange((value) => {
+                    this.plugin.settings.openAIBaseUrl = value.trim();
+                    this.debounceSaveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Server API key')
+            .setDesc('Optional. Leave empty for local servers that don\'t require authentication.')
+            .addText(text => text
+                .setPlaceholder('sk-...')
+                .setValue(this.plugin.settings.openAIApiKey)
+                .onChange((value) => {
+                    this.plugin.settings.openAIApiKey = value;
+                    this.debounceSaveSettings();
+                }))
+            .then(setting => {
+                // Make it a password field
+                setting.controlEl.querySelector('input')?.setAttribute('type', 'password');
+            });
+
+        new Setting(containerEl)
+            .setName('Model name')
+            .setDesc('Model to request from the server (e.g., llama3.2, mistral, gpt-4o-mini)')
+            .addText(text => text
+                .setPlaceholder('llama3.2')
+                .setValue(this.plugin.settings.openAIModel)
+                .onChange((value) => {
+                    this.plugin.settings.openAIModel = value.trim();
+                    this.debounceSaveSettings();
+                }));
+    }
+
+    // MARK: - Model Loading
+
+    /**
+     * Loads available models from the API.
+     *
+     * This is the core model-fetching method that calls the ModelService.
+     * Errors are logged but not shown to the user here - they're shown by
+     * the ModelService itself via Notice popups.
+     */
+    private async loadModels(): Promise<void> {
+        try {
+            this.availableModels = await this.plugin.modelService.getAvailableModels();
+        } catch (error) {
+            console.error('Error loading models:', error);
+            // Error already shown by ModelService via Notice
+            // availableModels will be empty array, dropdown will be disabled
+        }
+    }
+
+    /**
+     * Loads models asynchronously without blocking UI rendering.
+     *
+     * This method is called after the UI is displayed to avoid blocking
+     * the settings tab from appearing. The dropdown starts in a "Loading..."
+     * state and updates when models arrive.
+     */
+    private async loadModelsAsync(): Promise<void> {
+        await this.loadModels();
+        await this.applyModelList();
+    }
+
+    /**
+     * Fills the dropdown with the loaded models and checks the selection.
+     *
+     * If the current model is no longer available (e.g., retired), switches
+     * to the suggested replacement, preferring the newest model of the same
+     * family, and updates settings.
+     */
+    private async applyModelList(): Promise<void> {
+        if (!this.modelDropdown) {
+            return;
+        }
+        this.populateModelDropdown(this.modelDropdown);
+
+        if (this.availableModels.length === 0) {
+            // Edge case: both API and fallback returned empty
+            this.modelDropdown.setDisabled(true);
+            this.modelDropdown.selectEl.empty();
+            this.modelDropdown.addOption('', 'No models available');
+            return;
+        }
+
+        const check = await this.plugin.modelService.checkModel(this.plugin.settings.model, this.availableModels);
+        if (check.problem === 'unavailable' && check.replacement) {
+            const replacement = check.replacement;
+            this.plugin.settings.model = replacement.id;
+            // Rebuild without the vanished model
+            this.populateModelDropdown(this.modelDropdown);
+            await this.plugin.saveSettings();
+            new Notice(`${check.model.displayName} is no longer available. Switched to ${replacement.displayName} (${replacement.id})`);
+        }
+        this.modelDropdown.setValue(this.plugin.settings.model);
+        this.updateModelDescription();
+
+        this.modeModelDropdowns.forEach((dropdown, type) => {
+            const selected = this.plugin.settings.modeParameters[type].model;
+            this.populateModelDropdown(dropdown, selected, 'Same as Claude model');
+            dropdown.setValue(selected);
+        });
+    }
 
     /**
-     * Populates the model dropdown with available models.
+     * Populates the model dropdown with available models, grouped by family.
      *
      * If no models are available yet, shows a "Loading models..." placeholder
      * and disables the dropdown. Once models load, this is called again to
-     * populate the real options.
+     * populate the real options. A selected model missing from the list, such
+     * as a "-latest" alias, is added so the selection stays visible.
      *
      * @param dropdown - Dropdown component to populate
+     * @param selected - Model ID the dropdown should be able to show
+     * @param defaultLabel - Label of an empty first option, if the dropdown has one
      */
-    private populateModelDropdown(dropdown: DropdownComponent): void {
+    private populateModelDropdown(dropdown: DropdownComponent, selected = this.plugin.settings.model, defaultLabel?: string): void {
         if (this.availableModels.length === 0) {
             // No models available yet, disable dropdown
             dropdown.addOption('', 'Loading models...');
@@ -419,15 +1759,65 @@ export class FreewritingPromptsSettingTab extends PluginSettingTab {
 
         // Clear existing options
         dropdown.selectEl.empty();
+        if (defaultLabel) {
+            dropdown.addOption('', defaultLabel);
+        }
+
+        const models = this.availableModels.some(model => model.id === selected) || !selected
+            ? this.availableModels
+            : [...this.availableModels, this.plugin.modelService.describeModel(selected)];
 
-        // Add all available models
-        this.availableModels.forEach(model => {
-            dropdown.addOption(model.id, model.displayName);
+        // Add the models under a heading per family
+        groupModels(models).forEach(group => {
+            const groupEl = dropdown.selectEl.createEl('optgroup', { attr: { label: group.label } });
+            group.models.forEach(model => {
+                groupEl.createEl('option', {
+                    value: model.id,
+                    text: model.status === 'current' ? model.displayName : `${model.displayName} (${model.status})`
+                });
+            });
         });
 
         dropdown.setDisabled(false);
     }
 
+    /**
+     * Shows the total sprint length, rounds plus the breaks between them.
+     *
+     * @param setting - Setting whose description shows the total
+     */
+    private updateSprintLength(setting: Setting): void {
+        const { sprintRounds, sprintRoundMinutes, sprintBreakMinutes } = this.plugin.settings;
+        const breaks = sprintRounds > 1 && sprintBreakMinutes > 0
+            ? ` + ${sprintRounds - 1} × ${sprintBreakMinutes} minute breaks`
+            : '';
+        setting.setDesc(`${getSprintMinutes(this.plugin.settings)} minutes in total: ${sprintRounds} × ${sprintRoundMinutes} minute rounds${breaks}`);
+    }
+
+    /**
+     * Shows the selected model's metadata in the model setting's description.
+     *
+     * Deprecated models get a warning naming the suggested replacement.
+     */
+    private updateModelDescription(): void {
+        if (!this.modelSetting) {
+            return;
+        }
+        const modelService = this.plugin.modelService;
+        const model = modelService.describeModel(this.plugin.settings.model);
+        const descEl = this.modelSetting.descEl;
+        descEl.empty();
+        descEl.createDiv({ text: describeModelOption(model) });
+
+        if (model.status !== 'current') {
+            const replacement = modelService.suggestReplacement(model, this.availableModels);
+            descEl.createDiv({
+                text: `This model is ${model.status}${replacement ? `. Consider ${replacement.displayName}.` : '.'}`,
+                cls: 'freewriting-model-warning'
+            });
+        }
+    }
+
     /**
      * Forces a refresh of the model list from the API.
      *
@@ -435,8 +1825,8 @@ export class FreewritingPromptsSettingTab extends PluginSettingTab {
      * models available for their specific account. Shows a "Refreshing..."
      * state during the fetch.
      *
-     * If the current model is no longer available after refresh, falls back
-     * to the first available model and notifies the user.
+     * If the current model is no longer available after refresh, switches
+     * to the suggested replacement and notifies the user.
      */
     private async refreshModels(): Promise<void> {
         try {
@@ -449,28 +1839,7 @@ export class FreewritingPromptsSettingTab extends PluginSettingTab {
 
             // Fetch new models
             this.availableModels = await this.plugin.modelService.refreshModels();
-
-            // Update dropdown
-            if (this.modelDropdown) {
-                this.populateModelDropdown(this.modelDropdown);
-
-                // Restore selected model if it still exists
-                const currentModel = this.plugin.settings.model;
-                const modelExists = this.availableModels.some(m => m.id === currentModel);
-                if (modelExists) {
-                    this.modelDropdown.setValue(currentModel);
-                } else {
-                    // Fall back to first available model if current one is gone
-                    const fallbackModel = this.availableModels[0];
-                    if (fallbackModel && this.plugin.settings.model !== fallbackModel.id) {
-                        this.modelDropdown.setValue(fallbackModel.id);
-                        this.plugin.settings.model = fallbackModel.id;
-                        new Notice(`Your selected model is no longer available. Defaulting to ${fallbackModel.displayName} (${fallbackModel.id})`);
-                        // Save only if model actually changed
-                        await this.plugin.saveSettings();
-                    }
-                }
-            }
+            await this.applyModelList();
         } catch (error) {
             console.error('Error refreshing models:', error);
             // Error already shown by ModelService via Notice
@@ -480,10 +1849,10 @@ export class FreewritingPromptsSettingTab extends PluginSettingTab {
     // MARK: - API Testing
 
     /**
-     * Tests the configured API key by making a minimal request to Claude.
+     * Tests the selected provider by making a minimal request.
      *
      * This provides immediate feedback about whether:
-     * - The API key is valid
+     * - The API key (or server URL) is valid
      * - The network connection works
      * - The selected model is accessible
      * - Performance is reasonable (response time)
@@ -501,8 +1870,9 @@ export class FreewritingPromptsSettingTab extends PluginSettingTab {
         button.setDisabled(true);
 
         try {
-            const client = this.plugin.promptGenerator.anthropicClient;
-            const result = await client.testApiKey(this.plugin.settings.model);
+            const generator = this.plugin.promptGenerator;
+            const provider = generator.getProvider(this.plugin.settings);
+            const result = await provider.testConnection(generator.getActiveModel(this.plugin.settings));
 
             if (result.success) {
                 // Success - show detailed information
@@ -513,8 +1883,11 @@ export class FreewritingPromptsSettingTab extends PluginSettingTab {
                 new Notice(`✅ ${result.message}${detailText}`, 8000);
             } else {
                 // Error - show detailed error information
-                const errorDetails = result.details ?
-                    `\n\nTroubleshooting:\n• Response time: ${result.details.responseTime}ms\n• Error type: ${result.error}` : '';
+                const details = result.details;
+                const statusText = details?.status !== undefined
+                    ? `\n• HTTP status: ${details.status}${details.apiErrorType ? ` (${details.apiErrorType})` : ''}` : '';
+                const errorDetails = details ?
+                    `\n\nTroubleshooting:\n• Response time: ${details.responseTime}ms\n• Error type: ${result.error}${statusText}` : '';
 
                 new Notice(`❌ ${result.message}${errorDetails}`, 10000);
             }
@@ -528,4 +1901,15 @@ export class FreewritingPromptsSettingTab extends PluginSettingTab {
             button.setDisabled(false);
         }
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Describes the size of the prompt cache for the settings tab.
+ *
+ * @param stats - Number of entries and prompts
+ * @returns Text such as "2 entries with 7 prompts"
+ */
+function formatCacheStats(stats: PromptCacheStats): string {
+    const entries = `${stats.entries} ${stats.entries === 1 ? 'entry' : 'entries'}`;
+    return `${entries} with ${stats.prompts} ${stats.prompts === 1 ? 'prompt' : 'prompts'}`;
+}
@@ -7,27 +7,246 @@
  */
 export type ModelId = string;
 
+/**
+ * Identifier for the LLM backend used to generate prompts.
+ * - 'anthropic': Anthropic's Messages API (Claude)
+ * - 'openai-compatible': Any server implementing OpenAI's chat completions API
+ *   (OpenAI, Ollama, LM Studio, llama.cpp server, etc.)
+ */
+export type ProviderId = 'anthropic' | 'openai-compatible';
+
+/**
+ * The two prompt styles the plugin generates.
+ * Timed prompts are short and immediate, note prompts are more elaborate.
+ */
+export type PromptType = 'timed' | 'note';
+
+/**
+ * How timed prompts advance.
+ * - 'fixed': Every prompt stays for delaySeconds
+ * - 'adaptive': The next prompt appears once the writer pauses typing,
+ *   within the minDelaySeconds and maxDelaySeconds bounds
+ */
+export type PacingMode = 'fixed' | 'adaptive';
+
+/**
+ * What note prompts are based on.
+ * - 'standalone': Prompts stand on their own
+ * - 'context': Prompts build on the selection or the note
+ * - 'vault': Prompts reference note titles, tags, and headings sampled from the vault
+ */
+export type PromptSource = 'standalone' | 'context' | 'vault';
+
+/**
+ * Template used to insert note prompts.
+ * - 'numbered-list': Heading with a numbered list, the original format
+ * - 'task-list': Heading with a checkbox per prompt
+ * - 'callout': An example callout listing the prompts
+ * - 'table': A table with one row per prompt
+ * - 'headings': A heading per prompt with room to write below
+ * - 'custom': The user's own template from noteTemplate
+ */
+export type NoteTemplatePreset = 'numbered-list' | 'task-list' | 'callout' | 'table' | 'headings' | 'custom';
+
+/**
+ * How a timed prompt is written into the note when it appears.
+ * - 'callout': A quote callout, visible and easy to tell apart from the writing
+ * - 'heading': A heading followed by the prompt, splitting the note into sections
+ * - 'comment': An Obsidian comment, hidden in reading view
+ */
+export type PromptLogFormat = 'callout' | 'heading' | 'comment';
+
+/**
+ * Where a sprint summary is written.
+ * - 'note': Appended to the note the sprint was written in
+ * - 'log-file': Appended to a sprint log file, linking to the note
+ */
+export type SprintSummaryTarget = 'note' | 'log-file';
+
+/**
+ * How generated prompts are cached.
+ * - 'reuse': Identical requests within the TTL get the same prompts again
+ * - 'consume-once': Only prompts that were never shown are cached, and each is handed out once
+ * - 'disabled': Every request generates new prompts
+ */
+export type CachePolicy = 'reuse' | 'consume-once' | 'disabled';
+
+/**
+ * Where the prompt history is kept.
+ * - 'plugin-data': Inside the plugin's data.json, invisible in the vault
+ * - 'vault-json': A JSON file in the vault, easy to process with scripts
+ * - 'vault-markdown': A markdown file in the vault, readable and linkable like any note
+ */
+export type HistoryStorage = 'plugin-data' | 'vault-json' | 'vault-markdown';
+
+/**
+ * What happens when the monthly budget is exceeded.
+ * - 'warn': Generation continues with a warning notice
+ * - 'block': Generation stops until the next month or a higher budget
+ */
+export type BudgetAction = 'warn' | 'block';
+
+/**
+ * Model and sampling parameters for one prompt type.
+ * Empty models fall back to the profile's model for the selected provider.
+ */
+export interface ModeParameters {
+    /** Claude model ID for this prompt type, empty to use the Claude model setting */
+    model: ModelId;
+    /** Model name for this prompt type on the OpenAI-compatible server, empty to use the model name setting */
+    openAIModel: ModelId;
+    /** Sampling temperature (0-1 for Claude, 0-2 for OpenAI-compatible servers), null for the model's default */
+    temperature: number | null;
+    /** Nucleus sampling probability mass (0-1), null for the model's default */
+    topP: number | null;
+    /** Output token budget for the prompts (50-2000), doubled for structured output */
+    maxTokens: number;
+}
+
 /**
  * Plugin configuration settings that control prompt generation behavior.
  * These settings are persisted to disk and can be modified through the settings UI.
  */
 export interface FreewritingPromptsSettings {
+    /** Which LLM backend generates the prompts */
+    provider: ProviderId;
     /** Anthropic API key for authenticating with Claude API */
     apiKey: string;
     /** Claude model ID to use for prompt generation (e.g., 'claude-3-5-haiku-latest') */
     model: ModelId; // Changed from AnthropicModel to string to support dynamic models
+    /** Base URL of the OpenAI-compatible server, including the version path (e.g., 'http://localhost:11434/v1') */
+    openAIBaseUrl: string;
+    /** API key for the OpenAI-compatible server (optional for most local servers) */
+    openAIApiKey: string;
+    /** Model name to request from the OpenAI-compatible server (e.g., 'llama3.2') */
+    openAIModel: ModelId;
     /** Number of prompts to generate for timed notifications (1-50) */
     timedCount: number;
     /** Delay in seconds between each timed prompt notification (1-300) */
     delaySeconds: number;
+    /** Whether timed prompts advance on a fixed delay or when the writer pauses typing */
+    pacingMode: PacingMode;
+    /** Adaptive pacing: seconds without typing that count as a pause (1-120) */
+    idleSeconds: number;
+    /** Adaptive pacing: minimum seconds a prompt stays before the next one (1-300) */
+    minDelaySeconds: number;
+    /** Adaptive pacing: maximum seconds a prompt stays, even while typing continues (1-600) */
+    maxDelaySeconds: number;
+    /** Folder vault-aware prompts sample notes from, empty for the whole vault */
+    vaultPromptFolder: string;
+    /** Tag a note needs to be sampled for vault-aware prompts, empty for any note */
+    vaultPromptTag: string;
+    /** Number of notes sampled for vault-aware prompts (1-30) */
+    vaultSampleSize: number;
+    /** Folder new freewriting notes are created in, created if missing */
+    newNoteFolder: string;
+    /** Moment.js format for the file name of new freewriting notes */
+    newNoteFilenamePattern: string;
+    /** Whether a timed session starts in a new freewriting note once it's open */
+    newNoteStartTimed: boolean;
+    /** Number of writing rounds in a sprint (1-12) */
+    sprintRounds: number;
+    /** Minutes of writing per sprint round (1-120) */
+    sprintRoundMinutes: number;
+    /** Minutes of break between sprint rounds (0-60) */
+    sprintBreakMinutes: number;
+    /** Where the summary is written when a sprint ends */
+    sprintSummaryTarget: SprintSummaryTarget;
+    /** Vault path of the sprint log, .md extension added automatically */
+    sprintLogPath: string;
     /** Number of prompts to append to a note (1-20) */
     noteCount: number;
+    /** Approximate tokens of note or selection text sent with context-aware prompts (100-8000) */
+    contextTokenBudget: number;
+    /** Template used to insert note prompts */
+    noteTemplatePreset: NoteTemplatePreset;
+    /** Custom note template with variables and an each block, used by the 'custom' preset */
+    noteTemplate: string;
+    /** Whether to stream responses so prompts appear as soon as each is complete */
+    streamPrompts: boolean;
+    /** Whether to request prompts as validated JSON (tool use / JSON schema) instead of a numbered list */
+    structuredOutput: boolean;
+    /** How often to retry rate-limited, overloaded, or failed requests (0-5, 0 disables retrying) */
+    maxRetries: number;
+    /** Prompts kept ready per prompt type and profile, refilled in the background (0-50, 0 disables prefetching) */
+    promptPoolSize: number;
+    /** How generated prompts are cached and reused */
+    cachePolicy: CachePolicy;
+    /** Minutes cached prompts stay valid (1-1440) */
+    cacheTtlMinutes: number;
+    /** Whether timed prompts appear in the session sidebar view instead of notices */
+    useSessionView: boolean;
+    /** Whether each timed prompt is inserted at the cursor of the note being written in */
+    logTimedPrompts: boolean;
+    /** How logged timed prompts are formatted in the note */
+    promptLogFormat: PromptLogFormat;
     /** System-level instructions that guide the AI's prompt generation behavior */
     systemPrompt: string;
     /** Example prompt that demonstrates the desired style for timed prompts */
     timedExamplePrompt: string;
     /** Example prompt that demonstrates the desired style for note-inserted prompts */
     freewritingExamplePrompt: string;
+    /** Whether prompts come from the offline library instead of the provider */
+    offlineMode: boolean;
+    /** Whether the offline library fills in when the provider is unconfigured or fails */
+    libraryFallback: boolean;
+    /** Whether the prompts bundled with the plugin are part of the offline library */
+    useBuiltInLibrary: boolean;
+    /** Vault path of a markdown or JSON file with additional offline prompts, empty for none */
+    libraryPath: string;
+    /** Comma-separated offline library categories to draw from, empty for all */
+    libraryCategories: string;
+    /** Whether favorite prompts are sent to the model as extra style examples */
+    useFavoritesAsExamples: boolean;
+    /** Whether every generated prompt is appended to the prompt history */
+    historyEnabled: boolean;
+    /** Where the prompt history is stored */
+    historyStorage: HistoryStorage;
+    /** Vault path of the history file for vault storage, extension added automatically */
+    historyFilePath: string;
+    /** Most prompts kept in plugin-data history (100-20000); the oldest are dropped first */
+    historyMaxEntries: number;
+    /** Whether prompts too similar to recently generated ones are dropped and replaced */
+    deduplicatePrompts: boolean;
+    /** Similarity (0.3-1) at or above which a new prompt counts as a repeat */
+    similarityThreshold: number;
+    /** Prices per million tokens used to estimate costs, matched by model ID prefix */
+    modelPrices: ModelPrice[];
+    /** Estimated spending per calendar month before budgetAction applies, in dollars (0 for no budget) */
+    monthlyBudget: number;
+    /** Whether exceeding the monthly budget warns or blocks generation */
+    budgetAction: BudgetAction;
+    /** Model, temperature, top P, and token budget per prompt type */
+    modeParameters: Record<PromptType, ModeParameters>;
+    /** Named bundles of prompt settings; the active one mirrors the fields above */
+    profiles: PromptProfile[];
+    /** ID of the profile whose values the fields above currently hold */
+    activeProfileId: string;
+}
+
+/**
+ * Settings that belong to a prompt profile rather than to the plugin as a whole.
+ */
+export type ProfileField =
+    | 'systemPrompt'
+    | 'timedExamplePrompt'
+    | 'freewritingExamplePrompt'
+    | 'model'
+    | 'openAIModel'
+    | 'timedCount'
+    | 'noteCount'
+    | 'delaySeconds'
+    | 'modeParameters';
+
+/**
+ * A named bundle of system prompt, examples, models, counts, and prompt type parameters.
+ * Lets one vault switch between styles such as "Morning pages" and "Flash fiction".
+ */
+export interface PromptProfile extends Pick<FreewritingPromptsSettings, ProfileField> {
+    /** Stable identifier, used for the profile's commands */
+    id: string;
+    /** Display name shown in settings and command names */
+    name: string;
 }
 
 /**
@@ -37,6 +256,18 @@ export interface FreewritingPromptsSettings {
 export interface FreewritingPromptsData extends FreewritingPromptsSettings {
     /** Optional cached model list with 24-hour TTL to reduce API calls */
     modelCache?: ModelCache;
+    /** Prompt history, when stored in plugin data */
+    history?: PromptHistoryEntry[];
+    /** Prompts the user starred, newest last */
+    favorites?: string[];
+    /** Prompts the user never wants to see again, newest last */
+    blocklist?: string[];
+    /** Prefetched prompts by prompt type and profile */
+    promptPool?: Record<string, PromptPoolEntry>;
+    /** Cached prompts by request parameters */
+    promptCache?: Record<string, PromptCacheEntry>;
+    /** Token usage per day, provider, and model */
+    usage?: UsageRecord[];
 }
 
 /**
@@ -63,6 +294,86 @@ export interface AnthropicRequest {
     messages: AnthropicMessage[];
     /** Optional system prompt that provides context and instructions */
     system?: string;
+    /** Sampling temperature (0-1) */
+    temperature?: number;
+    /** Nucleus sampling probability mass (0-1) */
+    top_p?: number;
+    /** Whether to stream the response as server-sent events */
+    stream?: boolean;
+    /** Tools the model may call */
+    tools?: AnthropicTool[];
+    /** Forces the model to call a specific tool */
+    tool_choice?: { type: 'tool'; name: string };
+}
+
+/**
+ * Tool definition for the Anthropic Messages API.
+ */
+export interface AnthropicTool {
+    /** Tool name the model calls */
+    name: string;
+    /** Description of what the tool is for */
+    description: string;
+    /** JSON schema for the tool input */
+    input_schema: Record<string, unknown>;
+}
+
+/**
+ * Text content block in a Messages API response.
+ */
+export interface AnthropicTextBlock {
+    /** The actual generated text */
+    text: string;
+    /** Content type identifier */
+    type: 'text';
+}
+
+/**
+ * Tool call content block in a Messages API response.
+ */
+export interface AnthropicToolUseBlock {
+    /** Content type identifier */
+    type: 'tool_use';
+    /** Unique identifier for this tool call */
+    id: string;
+    /** Name of the called tool */
+    name: string;
+    /** Tool input generated by the model, expected to match input_schema */
+    input: unknown;
+}
+
+/**
+ * Subset of the server-sent events emitted by the streaming Messages API.
+ * Only the fields the plugin reads are declared.
+ */
+export interface AnthropicStreamEvent {
+    /** Event type (e.g., 'content_block_delta', 'message_stop', 'error') */
+    type: string;
+    /** Incremental content for content_block_delta events */
+    delta?: {
+        /** Delta type, 'text_delta' for generated text, 'input_json_delta' for tool input */
+        type: string;
+        /** Text fragment for text_delta deltas */
+        text?: string;
+        /** JSON fragment for input_json_delta deltas */
+        partial_json?: string;
+    };
+    /** Message metadata for message_start events, including the input token count */
+    message?: {
+        usage?: {
+            input_tokens?: number;
+            output_tokens?: number;
+        };
+    };
+    /** Cumulative token usage for message_delta events */
+    usage?: {
+        output_tokens?: number;
+    };
+    /** Error details for error events */
+    error?: {
+        type: string;
+        message: string;
+    };
 }
 
 /**
@@ -70,13 +381,8 @@ export interface AnthropicRequest {
  * Contains the generated text, metadata, and token usage information.
  */
 export interface AnthropicResponse {
-    /** Array of content blocks containing the generated text */
-    content: Array<{
-        /** The actual generated text */
-        text: string;
-        /** Content type identifier */
-        type: 'text';
-    }>;
+    /** Array of content blocks containing generated text or tool calls */
+    content: Array<AnthropicTextBlock | AnthropicToolUseBlock>;
     /** Unique identifier for this API response */
     id: string;
     /** Model that generated the response */
@@ -99,14 +405,289 @@ export interface AnthropicResponse {
 }
 
 /**
- * Represents a generated writing prompt with its creation timestamp.
- * Used for caching prompts to avoid unnecessary API calls within the cache TTL.
+ * Provider-agnostic description of a prompt generation request.
+ * Each provider translates this into its own wire format.
  */
-export interface GeneratedPrompt {
-    /** The actual prompt text generated by Claude */
+export interface PromptRequest {
+    /** Number of prompts to generate */
+    count: number;
+    /** Model identifier understood by the selected provider */
+    model: ModelId;
+    /** Base system instructions for the AI */
+    systemPrompt: string;
+    /** Example prompt to guide the style */
+    examplePrompt: string;
+    /** Whether this is for 'timed' notifications or 'note' insertion */
+    type: PromptType;
+    /** Whether to request structured JSON output when the model supports it */
+    structuredOutput: boolean;
+    /** Sampling temperature, undefined for the model's default */
+    temperature?: number;
+    /** Nucleus sampling probability mass, undefined for the model's default */
+    topP?: number;
+    /** Output token budget for the prompts, undefined for the prompt type's default */
+    maxTokens?: number;
+    /** Favorite prompts added as extra few-shot examples */
+    favoriteExamples?: string[];
+    /** Prompts the model must not repeat (e.g., blocked prompts) */
+    avoidPrompts?: string[];
+    /** Text the writer has written so far, which the prompts should build on */
+    context?: string;
+    /** Material from the writer's vault the prompts should reference */
+    vaultReferences?: VaultReferences;
+}
+
+/**
+ * Material sampled from the vault for vault-aware prompts.
+ */
+export interface VaultReferences {
+    /** Note titles, referenced as [[Title]] in the prompts */
+    notes: string[];
+    /** Tags including the leading # */
+    tags: string[];
+    /** Headings from the sampled notes */
+    headings: string[];
+}
+
+/**
+ * A single prompt returned by a provider.
+ * Structured output can attach a category and tags; list parsing yields text only.
+ */
+export interface PromptItem {
+    /** The prompt text */
     text: string;
-    /** When this prompt was generated (used for cache expiry) */
-    timestamp: Date;
+    /** Optional short category assigned by the model */
+    category?: string;
+    /** Optional keywords assigned by the model */
+    tags?: string[];
+}
+
+/**
+ * Result of a provider connection test, shown in the settings tab.
+ */
+export interface ConnectionTestResult {
+    /** Whether the provider answered with the expected content */
+    success: boolean;
+    /** Human-readable summary of the outcome */
+    message: string;
+    /** Timing and usage details collected during the test */
+    details?: {
+        /** Model that answered the request */
+        model?: string;
+        /** Round-trip time in milliseconds */
+        responseTime: number;
+        /** Number of tokens in the input prompt */
+        inputTokens?: number;
+        /** Number of tokens generated in the response */
+        outputTokens?: number;
+        /** HTTP status of a failed test, if the server responded */
+        status?: number;
+        /** Error type reported by the API for a failed test (e.g., 'authentication_error') */
+        apiErrorType?: string;
+    };
+    /** Machine-readable error category (e.g., 'UNAUTHORIZED') */
+    error?: string;
+}
+
+/**
+ * Single chat message in the OpenAI chat completions format.
+ */
+export interface OpenAIChatMessage {
+    /** Role identifier indicating who sent the message */
+    role: 'system' | 'user' | 'assistant';
+    /** The actual content/text of the message */
+    content: string;
+}
+
+/**
+ * Request payload for an OpenAI-compatible chat completions endpoint.
+ */
+export interface OpenAIChatRequest {
+    /** Model name understood by the server */
+    model: ModelId;
+    /** Conversation messages, including the system message */
+    messages: OpenAIChatMessage[];
+    /** Maximum number of tokens to generate in the response */
+    max_tokens: number;
+    /** Sampling temperature (0-2) */
+    temperature?: number;
+    /** Nucleus sampling probability mass (0-1) */
+    top_p?: number;
+    /** Whether to stream the response as server-sent events */
+    stream?: boolean;
+    /** Streaming options; include_usage adds a final chunk with token usage */
+    stream_options?: {
+        include_usage: boolean;
+    };
+    /** Requests JSON output matching a schema */
+    response_format?: {
+        type: 'json_schema';
+        json_schema: {
+            name: string;
+            schema: Record<string, unknown>;
+        };
+    };
+}
+
+/**
+ * Single chunk of a streamed OpenAI-compatible chat completion.
+ */
+export interface OpenAIChatStreamChunk {
+    /** Incremental alternatives (the plugin only requests one) */
+    choices?: Array<{
+        /** Incremental message content */
+        delta?: {
+            content?: string | null;
+        };
+        /** Reason the generation stopped, set on the final chunk */
+        finish_reason?: string | null;
+    }>;
+    /** Token usage, sent in a final chunk when include_usage is requested */
+    usage?: {
+        prompt_tokens: number;
+        completion_tokens: number;
+    } | null;
+}
+
+/**
+ * Response structure returned by an OpenAI-compatible chat completions endpoint.
+ * Only the fields the plugin reads are declared; servers may return more.
+ */
+export interface OpenAIChatResponse {
+    /** Unique identifier for this completion */
+    id?: string;
+    /** Model that generated the response */
+    model?: string;
+    /** Generated alternatives (the plugin only requests one) */
+    choices: Array<{
+        /** Position of this choice in the list */
+        index: number;
+        /** The generated assistant message */
+        message: {
+            role: string;
+            /** Generated text, null if the model produced no content */
+            content: string | null;
+        };
+        /** Reason the generation stopped (e.g., 'stop', 'length') */
+        finish_reason: string | null;
+    }>;
+    /** Token usage statistics, omitted by some local servers */
+    usage?: {
+        /** Number of tokens in the input prompt */
+        prompt_tokens: number;
+        /** Number of tokens generated in the response */
+        completion_tokens: number;
+    };
+}
+
+/**
+ * Prompts generated ahead of time for one prompt type and profile.
+ */
+export interface PromptPoolEntry {
+    /** Generation settings the prompts were made with; the pool is stale when they change */
+    signature: string;
+    /** Prompts ready to use, oldest first */
+    prompts: PromptItem[];
+}
+
+/**
+ * Generated prompts cached for one combination of request parameters.
+ * Used to avoid unnecessary API calls within the cache TTL.
+ */
+export interface PromptCacheEntry {
+    /** Cached prompts */
+    prompts: PromptItem[];
+    /** Unix timestamp (milliseconds) when the prompts were generated (used for cache expiry) */
+    generatedAt: number;
+}
+
+/**
+ * Progress of the timed prompts sequence, for status displays.
+ */
+export interface TimedPromptsStatus {
+    /** Whether a sequence is active (including while paused) */
+    isRunning: boolean;
+    /** Whether the sequence is paused */
+    isPaused: boolean;
+    /** Whether prompts are still being generated for the sequence */
+    isGenerating: boolean;
+    /** 1-based number of the prompt on screen, 0 when nothing is running */
+    currentPrompt: number;
+    /** Total prompts in the sequence, 0 when nothing is running */
+    totalPrompts: number;
+    /** Milliseconds until the next prompt (or the end), null while waiting for a prompt to arrive */
+    nextPromptInMs: number | null;
+    /** Adaptive pacing: whether the next prompt is held back because the writer is typing */
+    isWaitingForPause: boolean;
+    /** Why the last generation failed, null if it succeeded or a new sequence started */
+    error: string | null;
+}
+
+/**
+ * A single prompt in the persistent prompt history.
+ * Unlike cached prompts, history entries survive cache expiry and clearing.
+ */
+export interface PromptHistoryEntry {
+    /** Unique entry ID */
+    id: string;
+    /** The prompt text */
+    text: string;
+    /** Whether the prompt was generated for timed notifications or a note */
+    mode: PromptType;
+    /** Provider that generated the prompt */
+    provider: ProviderId;
+    /** Model that generated the prompt */
+    model: ModelId;
+    /** When the prompt was generated, in milliseconds since the epoch */
+    timestamp: number;
+    /** Shared by all prompts generated by the same command run */
+    sessionId: string;
+    /** Optional category from structured output */
+    category?: string;
+    /** Optional tags from structured output */
+    tags?: string[];
+}
+
+/**
+ * Tokens used by one generation request, as reported by the provider.
+ */
+export interface TokenUsage {
+    /** Model the request was sent to */
+    model: ModelId;
+    /** Number of tokens in the input prompt */
+    inputTokens: number;
+    /** Number of tokens generated in the response */
+    outputTokens: number;
+}
+
+/**
+ * Token usage of one model on one day, summed over all requests.
+ */
+export interface UsageRecord {
+    /** Local date in YYYY-MM-DD format */
+    date: string;
+    /** Provider the requests went to */
+    provider: ProviderId;
+    /** Model the requests went to */
+    model: ModelId;
+    /** Number of generation requests */
+    requests: number;
+    /** Number of input tokens */
+    inputTokens: number;
+    /** Number of output tokens */
+    outputTokens: number;
+}
+
+/**
+ * Price of a model, used to estimate costs from token usage.
+ */
+export interface ModelPrice {
+    /** Model ID or ID prefix (e.g., 'claude-3-5-haiku' for every Claude 3.5 Haiku version) */
+    model: string;
+    /** Dollars per million input tokens */
+    inputPerMillion: number;
+    /** Dollars per million output tokens */
+    outputPerMillion: number;
 }
 
 /**
@@ -151,29 +732,81 @@ export interface ModelCache {
 }
 
 /**
- * Hardcoded fallback list of known Claude models.
- * Used when the Models API is unavailable or the API key is not configured.
+ * Claude model family, used to group models in the model picker.
+ */
+export type ModelFamily = 'opus' | 'sonnet' | 'haiku' | 'other';
+
+/**
+ * Relative price of a model compared to the other Claude models.
+ */
+export type ModelCostTier = 'low' | 'medium' | 'high';
+
+/**
+ * Relative response speed of a model compared to the other Claude models.
+ */
+export type ModelSpeed = 'fast' | 'balanced' | 'slow';
+
+/**
+ * Lifecycle status of a model.
+ * - 'current': Available and supported
+ * - 'deprecated': Still available, but scheduled for retirement
+ * - 'retired': No longer available from the API
+ */
+export type ModelStatus = 'current' | 'deprecated' | 'retired';
+
+/**
+ * Metadata of a known Claude model.
+ *
+ * Models fetched from the API are matched to these entries by ID without
+ * the date or "-latest" suffix, so one entry covers every snapshot of a
+ * model.
+ */
+export interface KnownModel {
+    /** Model identifier (e.g., 'claude-haiku-4-5-20251001') */
+    id: string;
+    /** Human-readable model name */
+    displayName: string;
+    /** Model family */
+    family: ModelFamily;
+    /** Release date (YYYY-MM-DD) */
+    releaseDate: string;
+    /** Relative price */
+    costTier: ModelCostTier;
+    /** Relative response speed */
+    speed: ModelSpeed;
+    /** Lifecycle status */
+    status: ModelStatus;
+}
+
+/**
+ * Known Claude models with their metadata.
+ * Models that aren't retired are the fallback list used when the Models API
+ * is unavailable or the API key is not configured. Retired models stay
+ * listed so saved selections of them can be flagged.
  *
  * TODO: Keep this list updated with current models from:
  * https://docs.anthropic.com/en/docs/about-claude/models
  *
  * Prefer "-latest" aliases where available for automatic updates.
  */
-export const ANTHROPIC_MODELS = [
-    // Current generation models (use -latest aliases where available)
-    'claude-sonnet-4-5-20250929',
-    'claude-haiku-4-5-20251001',
-    'claude-opus-4-1-20250805',
+export const ANTHROPIC_MODELS: KnownModel[] = [
+    // Current generation models
+    { id: 'claude-opus-4-5-20251101', displayName: 'Claude Opus 4.5', family: 'opus', releaseDate: '2025-11-24', costTier: 'high', speed: 'slow', status: 'current' },
+    { id: 'claude-sonnet-4-5-20250929', displayName: 'Claude Sonnet 4.5', family: 'sonnet', releaseDate: '2025-09-29', costTier: 'medium', speed: 'balanced', status: 'current' },
+    { id: 'claude-haiku-4-5-20251001', displayName: 'Claude Haiku 4.5', family: 'haiku', releaseDate: '2025-10-15', costTier: 'low', speed: 'fast', status: 'current' },
+    { id: 'claude-opus-4-1-20250805', displayName: 'Claude Opus 4.1', family: 'opus', releaseDate: '2025-08-05', costTier: 'high', speed: 'slow', status: 'current' },
     // Legacy models
-    'claude-sonnet-4-20250514',
-    'claude-3-7-sonnet-latest',
-    'claude-opus-4-20250514',
-    'claude-3-5-haiku-latest',
-    'claude-3-haiku-20240307'
-] as const;
-
-/**
- * Type representing one of the hardcoded fallback model identifiers.
- * This is a union type of all strings in the ANTHROPIC_MODELS array.
- */
-export type AnthropicModel = typeof ANTHROPIC_MODELS[number];
\ No newline at end of file
+    { id: 'claude-sonnet-4-20250514', displayName: 'Claude Sonnet 4', family: 'sonnet', releaseDate: '2025-05-22', costTier: 'medium', speed: 'balanced', status: 'current' },
+    { id: 'claude-opus-4-20250514', displayName: 'Claude Opus 4', family: 'opus', releaseDate: '2025-05-22', costTier: 'high', speed: 'slow', status: 'current' },
+    { id: 'claude-3-haiku-20240307', displayName: 'Claude Haiku 3', family: 'haiku', releaseDate: '2024-03-13', costTier: 'low', speed: 'fast', status: 'current' },
+    // Deprecated models
+    { id: 'claude-3-7-sonnet-latest', displayName: 'Claude Sonnet 3.7', family: 'sonnet', releaseDate: '2025-02-24', costTier: 'medium', speed: 'balanced', status: 'deprecated' },
+    { id: 'claude-3-5-haiku-latest', displayName: 'Claude Haiku 3.5', family: 'haiku', releaseDate: '2024-10-22', costTier: 'low', speed: 'fast', status: 'deprecated' },
+    // Retired models
+    { id: 'claude-3-5-sonnet-latest', displayName: 'Claude Sonnet 3.5', family: 'sonnet', releaseDate: '2024-06-20', costTier: 'medium', speed: 'balanced', status: 'retired' },
+    { id: 'claude-3-opus-latest', displayName: 'Claude Opus 3', family: 'opus', releaseDate: '2024-03-04', costTier: 'high', speed: 'slow', status: 'retired' },
+    { id: 'claude-3-sonnet-20240229', displayName: 'Claude Sonnet 3', family: 'sonnet', releaseDate: '2024-03-04', costTier: 'medium', speed: 'balanced', status: 'retired' },
+    { id: 'claude-2.1', displayName: 'Claude 2.1', family: 'other', releaseDate: '2023-11-21', costTier: 'high', speed: 'slow', status: 'retired' },
+    { id: 'claude-2.0', displayName: 'Claude 2.0', family: 'other', releaseDate: '2023-07-11', costTier: 'high', speed: 'slow', status: 'retired' },
+    { id: 'claude-instant-1.2', displayName: 'Claude Instant 1.2', family: 'other', releaseDate: '2023-08-09', costTier: 'low', speed: 'fast', status: 'retired' }
+];
@@ -0,0 +1,200 @@
+// ABOUTME: Searchable modal for browsing the persistent prompt history
+// ABOUTME: Lets users re-insert past prompts into a note or re-run a past timed session
+
+import { App, Modal, Notice, SearchComponent } from 'obsidian';
+import FreewritingPromptsPlugin from '../main';
+import { NotePromptsCommand } from '../commands/notePrompts';
+import { PromptHistoryEntry } from '../types';
+
+/**
+ * Modal listing past prompts, newest first, filtered as the user types.
+ *
+ * Each entry offers these actions:
+ * - Insert: writes the prompt into the active note at the cursor
+ * - Re-run: replays every prompt of the entry's session as timed prompts,
+ *   without calling the API
+ * - Favorite / Block: feeds the prompt back into future generation
+ *
+ * Rendering is capped so very long histories stay responsive; searching
+ * narrows the list to the entries the user is looking for.
+ */
+export class PromptHistoryModal extends Modal {
+    /** Maximum number of entries rendered at once */
+    private static readonly MAX_RESULTS = 100;
+    /** All history entries, loaded when the modal opens */
+    private entries: PromptHistoryEntry[] = [];
+    /** Container for the result list */
+    private listEl: HTMLElement;
+
+    /**
+     * Creates a new history modal.
+     *
+     * @param app - Obsidian app instance
+     * @param plugin - Plugin instance providing history and commands
+     */
+    constructor(app: App, private plugin: FreewritingPromptsPlugin) {
+        super(app);
+    }
+
+    /**
+     * Builds the search field and loads the history.
+     */
+    onOpen(): void {
+        const { contentEl } = this;
+        this.setTitle('Prompt history');
+        contentEl.addClass('freewriting-history-modal');
+
+        const search = new SearchComponent(contentEl)
+            .setPlaceholder('Search prompts, models, tags...')
+            .onChange(query => this.renderResults(query));
+        this.listEl = contentEl.createDiv({ cls: 'freewriting-history-list' });
+        this.listEl.setText('Loading history...');
+
+        void this.loadEntries().then(() => {
+            this.renderResults(search.getValue());
+            search.inputEl.focus();
+        });
+    }
+
+    /**
+     * Cleans up the modal content.
+     */
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    // MARK: - Private Methods
+
+    /**
+     * Reads the history from the configured store.
+     */
+    private async loadEntries(): Promise<void> {
+        try {
+            this.entries = await this.plugin.historyService.getEntries();
+        } catch (error) {
+            console.error('Failed to load prompt history:', error);
+            new Notice('Could not read the prompt history. Check the history file in settings.');
+            this.entries = [];
+        }
+    }
+
+    /**
+     * Renders the entries matching the current query.
+     *
+     * @param query - Search terms typed by the user
+     */
+    private renderResults(query: string): void {
+        this.listEl.empty();
+
+        const matches = this.plugin.historyService.search(this.entries, query);
+        if (matches.length === 0) {
+            this.listEl.createEl('p', {
+                text: this.entries.length === 0 ? 'No prompts in the history yet.' : 'No prompts match your search.',
+                cls: 'freewriting-history-empty'
+            });
+            return;
+        }
+
+        matches.slice(0, PromptHistoryModal.MAX_RESULTS).forEach(entry => this.renderEntry(entry));
+
+        if (matches.length > PromptHistoryModal.MAX_RESULTS) {
+            this.listEl.createEl('p', {
+                text: `Showing ${PromptHistoryModal.MAX_RESULTS} of ${matches.length} prompts. Refine your search to see more.`,
+                cls: 'freewriting-history-empty'
+            });
+        }
+    }
+
+    /**
+     * Renders a single entry with its metadata and actions.
+     *
+     * @param entry - History entry to render
+     */
+    private renderEntry(entry: PromptHistoryEntry): void {
+        const item = this.listEl.createDiv({ cls: 'freewriting-history-item' });
+        item.createDiv({ text: entry.text, cls: 'freewriting-history-text' });
+
+        const meta = [
+            new Date(entry.timestamp).toLocaleString(),
+            entry.mode === 'timed' ? 'Timed' : 'Note',
+            entry.model,
+            ...(entry.category ? [entry.category] : []),
+            ...(entry.tags ?? []).map(tag => `#${tag}`)
+        ];
+        item.createDiv({ text: meta.join(' · '), cls: 'freewriting-history-meta' });
+
+        const actions = item.createDiv({ cls: 'freewriting-history-actions' });
+        actions.createEl('button', { text: 'Insert' })
+            .addEventListener('click', () => this.insertEntry(entry));
+        actions.createEl('button', { text: 'Re-run' })
+            .addEventListener('click', () => this.rerunSession(entry));
+
+        // Favoriting unblocks and blocking unfavorites, so both labels update together
+        const feedback = this.plugin.feedbackService;
+        const favoriteButton = actions.createEl('button', { text: this.getFavoriteLabel(entry.text) });
+        const blockButton = actions.createEl('button', { text: this.getBlockLabel(entry.text) });
+        const refreshLabels = () => {
+            favoriteButton.setText(this.getFavoriteLabel(entry.text));
+            blockButton.setText(this.getBlockLabel(entry.text));
+        };
+        favoriteButton.addEventListener('click', () => {
+            void feedback.toggleFavorite(entry.text).then(refreshLabels);
+        });
+        blockButton.addEventListener('click', () => {
+            void feedback.toggleBlocked(entry.text).then(refreshLabels);
+        });
+    }
+
+    /**
+     * Label for the favorite button reflecting the prompt's current state.
+     *
+     * @param text - Prompt text
+     * @returns Button label
+     */
+    private getFavoriteLabel(text: string): string {
+        return this.plugin.feedbackService.isFavorite(text) ? '★ Favorite' : '☆ Favorite';
+    }
+
+    /**
+     * Label for the block button reflecting the prompt's current state.
+     *
+     * @param text - Prompt text
+     * @returns Button label
+     */
+    private getBlockLabel(text: string): string {
+        return this.plugin.feedbackService.isBlocked(text) ? 'Unblock' : 'Block';
+    }
+
+    /**
+     * Inserts the prompt into the active note at the cursor.
+     *
+     * @param entry - Entry to insert
+     */
+    private insertEntry(entry: PromptHistoryEntry): void {
+        const { editor, view } = NotePromptsCommand.getExecutionContext(this.app);
+        if (!editor || !view || !NotePromptsCommand.canExecute(editor, view)) {
+            new Notice('Please open a note and place your cursor where you want to insert the prompt.');
+            return;
+        }
+
+        this.plugin.noteCommand.insertPrompts(editor, [entry.text], this.plugin.settings, entry.model);
+        new Notice('Added prompt to your note');
+        this.close();
+    }
+
+    /**
+     * Replays every prompt of the entry's session as timed prompts.
+     *
+     * @param entry - Entry whose session should be replayed
+     */
+    private rerunSession(entry: PromptHistoryEntry): void {
+        if (this.plugin.timedCommand.isRunning()) {
+            new Notice('Timed prompts are already running. Use "Stop timed prompts" to stop them first.');
+            return;
+        }
+
+        const prompts = this.plugin.historyService.getSessionPrompts(this.entries, entry.sessionId);
+        this.plugin.timedCommand.replay(prompts, this.plugin.settings);
+        this.close();
+    }
+}
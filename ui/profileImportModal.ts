@@ -0,0 +1,79 @@
+// ABOUTME: Modal for importing prompt profiles from pasted JSON
+// ABOUTME: Validates the JSON through ProfileService and reports how many profiles were added
+
+import { App, Modal, Notice, Setting, TextAreaComponent } from 'obsidian';
+import FreewritingPromptsPlugin from '../main';
+
+/**
+ * Modal with a text area for pasting exported profiles.
+ *
+ * Profiles are exported to the clipboard, so importing by pasting works the
+ * same way on desktop and mobile and needs no file picker.
+ */
+export class ProfileImportModal extends Modal {
+    /**
+     * Creates a new import modal.
+     *
+     * @param app - Obsidian app instance
+     * @param plugin - Plugin instance providing the profile service
+     * @param onImported - Called after profiles were imported and saved
+     */
+    constructor(
+        app: App,
+        private plugin: FreewritingPromptsPlugin,
+        private onImported: () => void
+    ) {
+        super(app);
+    }
+
+    /**
+     * Builds the text area and import button.
+     */
+    onOpen(): void {
+        const { contentEl } = this;
+        this.setTitle('Import profiles');
+        contentEl.createEl('p', { text: 'Paste profiles exported from this plugin. Profiles with an existing name replace that profile.' });
+
+        const textArea = new TextAreaComponent(contentEl)
+            .setPlaceholder('{ "version": 1, "profiles": [...] }');
+        textArea.inputEl.addClass('freewriting-profile-import');
+        textArea.inputEl.setAttribute('rows', '10');
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Import')
+                .setCta()
+                .onClick(async () => {
+                    await this.importProfiles(textArea.getValue());
+                }));
+    }
+
+    /**
+     * Cleans up the modal content.
+     */
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    // MARK: - Private Methods
+
+    /**
+     * Imports the pasted profiles and closes the modal on success.
+     *
+     * @param json - Pasted JSON document
+     */
+    private async importProfiles(json: string): Promise<void> {
+        let count: number;
+        try {
+            count = this.plugin.profileService.importProfiles(json);
+        } catch (error) {
+            new Notice(`Could not import profiles: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+
+        await this.plugin.saveSettings();
+        new Notice(`Imported ${count} ${count === 1 ? 'profile' : 'profiles'}`);
+        this.onImported();
+        this.close();
+    }
+}
@@ -0,0 +1,284 @@
+// ABOUTME: Sidebar view listing the prompts of the running timed session with a progress ring
+// ABOUTME: Keeps the session visible without covering the editor and offers per-prompt actions
+
+import { ButtonComponent, ItemView, MarkdownView, Notice, WorkspaceLeaf } from 'obsidian';
+import FreewritingPromptsPlugin from '../main';
+import { NotePromptsCommand } from '../commands/notePrompts';
+import { TimedPromptsStatus } from '../types';
+import { describeTimedProgress } from './statusBar';
+
+/** View type identifier registered with Obsidian */
+export const VIEW_TYPE_PROMPT_SESSION = 'freewriting-prompt-session';
+
+/** Radius of the progress ring in SVG units */
+const RING_RADIUS = 16;
+/** Circumference of the progress ring, used for the stroke dash offset */
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+/**
+ * Sidebar view for timed prompt sessions.
+ *
+ * Shows a progress ring, the countdown, playback controls, and the whole
+ * prompt queue with the current prompt highlighted. Each prompt can be
+ * inserted into the most recent note, copied, skipped to, and favorited.
+ *
+ * The list re-renders when the timed command reports a change; the
+ * countdown in the header refreshes every second while the session runs.
+ */
+export class PromptSessionView extends ItemView {
+    /** Header with progress ring, status text, and controls */
+    private headerEl: HTMLElement;
+    /** Status text in the header, refreshed every second for the countdown */
+    private statusEl: HTMLElement;
+    /** Container for the prompt list */
+    private listEl: HTMLElement;
+    /** Removes the status listener from the timed command */
+    private unsubscribe: (() => void) | null = null;
+
+    /**
+     * Creates a new session view.
+     *
+     * @param leaf - Workspace leaf hosting the view
+     * @param plugin - Plugin instance providing the timed command and services
+     */
+    constructor(leaf: WorkspaceLeaf, private plugin: FreewritingPromptsPlugin) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_PROMPT_SESSION;
+    }
+
+    getDisplayText(): string {
+        return 'Prompt session';
+    }
+
+    getIcon(): string {
+        return 'timer';
+    }
+
+    /**
+     * Builds the view and subscribes to session changes.
+     */
+    onOpen(): Promise<void> {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('freewriting-session-view');
+        this.headerEl = container.createDiv({ cls: 'freewriting-session-header' });
+        this.listEl = container.createDiv({ cls: 'freewriting-session-list' });
+
+        const timedCommand = this.plugin.timedCommand;
+        this.unsubscribe = timedCommand.addStatusListener(status => this.render(status));
+        // Refresh the countdown; registerInterval clears it when the view closes
+        this.registerInterval(window.setInterval(() => {
+            const status = timedCommand.getStatus();
+            if (status.isRunning && !status.isPaused) {
+                this.statusEl.setText(this.describeStatus(status));
+            }
+        }, 1000));
+
+        this.render(timedCommand.getStatus());
+        return Promise.resolve();
+    }
+
+    /**
+     * Unsubscribes from session changes.
+     */
+    onClose(): Promise<void> {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        return Promise.resolve();
+    }
+
+    // MARK: - Rendering
+
+    /**
+     * Renders the header and the prompt list.
+     *
+     * @param status - Current timed prompts status
+     */
+    private render(status: TimedPromptsStatus): void {
+        this.renderHeader(status);
+        this.renderList(status);
+    }
+
+    /**
+     * Renders the progress ring, status text, and playback controls.
+     *
+     * @param status - Current timed prompts status
+     */
+    private renderHeader(status: TimedPromptsStatus): void {
+        this.headerEl.empty();
+
+        const progress = status.totalPrompts === 0 ? 0 : status.currentPrompt / status.totalPrompts;
+        this.renderProgressRing(this.headerEl, progress, status.totalPrompts === 0 ? '' : `${status.currentPrompt}/${status.totalPrompts}`);
+
+        this.statusEl = this.headerEl.createDiv({ text: this.describeStatus(status), cls: 'freewriting-session-status' });
+
+        if (!status.isRunning) {
+            return;
+        }
+
+        const timedCommand = this.plugin.timedCommand;
+        const controls = this.headerEl.createDiv({ cls: 'freewriting-session-controls' });
+        new ButtonComponent(controls)
+            .setIcon(status.isPaused ? 'play' : 'pause')
+            .setTooltip(status.isPaused ? 'Resume' : 'Pause')
+            .onClick(() => {
+                if (status.isPaused) {
+                    timedCommand.resume();
+                } else {
+                    timedCommand.pause();
+                }
+            });
+        new ButtonComponent(controls)
+            .setIcon('skip-back')
+            .setTooltip('Previous prompt')
+            .onClick(() => timedCommand.previous());
+        new ButtonComponent(controls)
+            .setIcon('skip-forward')
+            .setTooltip('Next prompt')
+            .onClick(() => timedCommand.next());
+        new ButtonComponent(controls)
+            .setIcon('square')
+            .setTooltip('Stop')
+            .onClick(() => {
+                timedCommand.stop();
+                new Notice('Timed prompts stopped');
+            });
+    }
+
+    /**
+     * Describes the session state in one line.
+     *
+     * @param status - Current timed prompts status
+     * @returns Progress and countdown, or why nothing is running
+     */
+    private describeStatus(status: TimedPromptsStatus): string {
+        if (status.isRunning) {
+            return describeTimedProgress(status);
+        }
+        if (status.isGenerating) {
+            return 'Generating prompts...';
+        }
+        return status.error ?? 'No timed session running';
+    }
+
+    /**
+     * Draws a circular progress indicator.
+     *
+     * @param parent - Element to render into
+     * @param progress - Completed fraction between 0 and 1
+     * @param label - Text shown in the middle of the ring
+     */
+    private renderProgressRing(parent: HTMLElement, progress: number, label: string): void {
+        const ring = parent.createDiv({ cls: 'freewriting-session-ring' });
+        const svg = ring.createSvg('svg', { attr: { viewBox: '0 0 40 40', width: '48', height: '48' } });
+        svg.createSvg('circle', {
+            cls: 'freewriting-session-ring-track',
+            attr: { cx: '20', cy: '20', r: String(RING_RADIUS) }
+        });
+        svg.createSvg('circle', {
+            cls: 'freewriting-session-ring-progress',
+            attr: {
+                cx: '20',
+                cy: '20',
+                r: String(RING_RADIUS),
+                'stroke-dasharray': String(RING_CIRCUMFERENCE),
+                'stroke-dashoffset': String(RING_CIRCUMFERENCE * (1 - Math.min(1, Math.max(0, progress))))
+            }
+        });
+        ring.createDiv({ text: label, cls: 'freewriting-session-ring-label' });
+    }
+
+    /**
+     * Renders every prompt of the session with its actions.
+     *
+     * @param status - Current timed prompts status
+     */
+    private renderList(status: TimedPromptsStatus): void {
+        this.listEl.empty();
+
+        const prompts = this.plugin.timedCommand.getPrompts();
+        if (prompts.length === 0) {
+            this.listEl.createEl('p', {
+                text: 'Start a session with the "Show timed prompts" command. Its prompts will be listed here.',
+                cls: 'freewriting-history-empty'
+            });
+            return;
+        }
+
+        const currentIndex = status.currentPrompt - 1;
+        prompts.forEach((prompt, index) => {
+            const item = this.listEl.createDiv({ cls: 'freewriting-session-item' });
+            item.toggleClass('is-current', index === currentIndex);
+            item.toggleClass('is-past', index < currentIndex);
+            item.createDiv({ text: prompt, cls: 'freewriting-session-text' });
+            this.renderActions(item, prompt, index, index === currentIndex);
+        });
+
+        this.listEl.querySelector('.is-current')?.scrollIntoView({ block: 'nearest' });
+    }
+
+    /**
+     * Renders the insert, copy, skip, and favorite buttons of a prompt.
+     *
+     * @param item - Element of the prompt
+     * @param prompt - Prompt text
+     * @param index - Position of the prompt in the session
+     * @param isCurrent - Whether the prompt is the one on screen
+     */
+    private renderActions(item: HTMLElement, prompt: string, index: number, isCurrent: boolean): void {
+        const actions = item.createDiv({ cls: 'freewriting-history-actions' });
+        actions.createEl('button', { text: 'Insert' })
+            .addEventListener('click', () => this.insertPrompt(prompt));
+        actions.createEl('button', { text: 'Copy' })
+            .addEventListener('click', () => {
+                void navigator.clipboard.writeText(prompt).then(
+                    () => new Notice('Prompt copied'),
+                    () => new Notice('Could not copy the prompt')
+                );
+            });
+
+        const timedCommand = this.plugin.timedCommand;
+        actions.createEl('button', { text: isCurrent ? 'Skip' : 'Show now' })
+            .addEventListener('click', () => {
+                if (isCurrent) {
+                    timedCommand.next();
+                } else {
+                    timedCommand.jumpTo(index);
+                }
+            });
+
+        const feedback = this.plugin.feedbackService;
+        const favoriteButton = actions.createEl('button', {
+            text: feedback.isFavorite(prompt) ? '★ Favorite' : '☆ Favorite'
+        });
+        favoriteButton.addEventListener('click', () => {
+            void feedback.toggleFavorite(prompt).then(isFavorite => {
+                favoriteButton.setText(isFavorite ? '★ Favorite' : '☆ Favorite');
+            });
+        });
+    }
+
+    // MARK: - Actions
+
+    /**
+     * Inserts a prompt into the most recently active note.
+     *
+     * The sidebar has focus while its buttons are clicked, so the active view
+     * isn't a note; the most recent leaf in the main area is used instead.
+     *
+     * @param prompt - Prompt to insert
+     */
+    private insertPrompt(prompt: string): void {
+        const view = this.app.workspace.getMostRecentLeaf()?.view;
+        if (!(view instanceof MarkdownView) || !NotePromptsCommand.canExecute(view.editor, view)) {
+            new Notice('Please open a note and place your cursor where you want to insert the prompt.');
+            return;
+        }
+
+        this.plugin.noteCommand.insertPrompts(view.editor, [prompt], this.plugin.settings);
+        new Notice('Added prompt to your note');
+    }
+}
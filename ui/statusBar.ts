@@ -0,0 +1,231 @@
+// ABOUTME: Status bar item showing the progress of a timed prompt session with a live countdown
+// ABOUTME: Shows a spinner while prompts generate and offers pause, resume, skip, and stop on click
+
+import { Menu, Notice, setIcon } from 'obsidian';
+import { TimedPromptsCommand } from '../commands/timedPrompts';
+import { TimedPromptsStatus } from '../types';
+
+/**
+ * Status bar widget for timed prompt sessions.
+ *
+ * Displays "Prompt 3/10 · next in 0:04" while a session runs, a spinner
+ * while prompts are being generated, and a short error message if
+ * generation fails. It's hidden when no session is active.
+ *
+ * The timed command pushes every state change; while a countdown is
+ * visible, a one-second timer refreshes it. The timer only runs while a
+ * session is counting down, so an idle status bar costs nothing.
+ */
+export class TimedPromptsStatusBar {
+    /** How long a failed generation stays visible in milliseconds */
+    private static readonly ERROR_DISPLAY_MS = 10000;
+    /** Icon element, showing the spinner or the session state */
+    private iconEl: HTMLElement;
+    /** Text element with progress and countdown */
+    private textEl: HTMLElement;
+    /** Interval refreshing the countdown, null when nothing counts down */
+    private tickTimer: number | null = null;
+    /** Timer hiding an error message, null when no error is shown */
+    private errorTimer: number | null = null;
+    /** Error currently shown, so repeated updates don't restart its timer */
+    private shownError: string | null = null;
+    /** Removes the status listener from the timed command */
+    private unsubscribe: () => void;
+
+    /**
+     * Creates the status bar widget and subscribes to the timed command.
+     *
+     * @param el - Status bar item created with Plugin.addStatusBarItem()
+     * @param timedCommand - Timed prompts command whose state is shown
+     */
+    constructor(private el: HTMLElement, private timedCommand: TimedPromptsCommand) {
+        this.el.addClass('freewriting-status-bar', 'mod-clickable');
+        this.el.setAttribute('aria-label', 'Timed prompts: click for controls');
+        this.iconEl = this.el.createSpan({ cls: 'freewriting-status-bar-icon' });
+        this.textEl = this.el.createSpan();
+        this.el.addEventListener('click', (event) => this.openMenu(event));
+
+        this.unsubscribe = this.timedCommand.addStatusListener(status => this.render(status));
+        this.render(this.timedCommand.getStatus());
+    }
+
+    /**
+     * Unsubscribes from the timed command and clears all timers.
+     * Called when the plugin unloads.
+     */
+    destroy(): void {
+        this.unsubscribe();
+        this.stopTicking();
+        this.clearErrorTimer();
+    }
+
+    // MARK: - Private Methods
+
+    /**
+     * Updates the widget to reflect a status.
+     *
+     * @param status - Current timed prompts status
+     */
+    private render(status: TimedPromptsStatus): void {
+        if (status.isRunning) {
+            this.clearErrorTimer();
+            this.shownError = null;
+            this.show(status.isGenerating ? 'loader-2' : status.isPaused ? 'pause' : 'timer', describeTimedProgress(status));
+            this.iconEl.toggleClass('freewriting-status-bar-spinner', status.isGenerating);
+        } else if (status.isGenerating) {
+            this.show('loader-2', 'Generating prompts...');
+            this.iconEl.addClass('freewriting-status-bar-spinner');
+        } else if (status.error) {
+            this.showError(status.error);
+        } else if (this.shownError === null) {
+            this.el.hide();
+        }
+
+        // Only a running, unpaused session has a countdown to refresh
+        if (status.isRunning && !status.isPaused) {
+            this.startTicking();
+        } else {
+            this.stopTicking();
+        }
+    }
+
+    /**
+     * Shows the widget with an icon and text.
+     *
+     * @param icon - Lucide icon ID
+     * @param text - Text next to the icon
+     */
+    private show(icon: string, text: string): void {
+        setIcon(this.iconEl, icon);
+        this.iconEl.removeClass('freewriting-status-bar-spinner');
+        this.textEl.setText(text);
+        this.el.show();
+    }
+
+    /**
+     * Shows a generation error for a few seconds.
+     *
+     * @param error - Error message from the status
+     */
+    private showError(error: string): void {
+        if (this.shownError === error) {
+            return;
+        }
+        this.shownError = error;
+        this.show('alert-triangle', error);
+        this.clearErrorTimer();
+        this.errorTimer = window.setTimeout(() => {
+            this.errorTimer = null;
+            this.shownError = null;
+            this.render(this.timedCommand.getStatus());
+        }, TimedPromptsStatusBar.ERROR_DISPLAY_MS);
+    }
+
+    /**
+     * Opens the session controls next to the status bar item.
+     *
+     * @param event - Click event used to position the menu
+     */
+    private openMenu(event: MouseEvent): void {
+        const status = this.timedCommand.getStatus();
+        if (!status.isRunning) {
+            return;
+        }
+
+        const menu = new Menu();
+        if (status.isPaused) {
+            menu.addItem(item => item
+                .setTitle('Resume')
+                .setIcon('play')
+                .onClick(() => this.timedCommand.resume()));
+        } else {
+            menu.addItem(item => item
+                .setTitle('Pause')
+                .setIcon('pause')
+                .onClick(() => this.timedCommand.pause()));
+        }
+        menu.addItem(item => item
+            .setTitle('Previous prompt')
+            .setIcon('skip-back')
+            .onClick(() => this.timedCommand.previous()));
+        menu.addItem(item => item
+            .setTitle('Next prompt')
+            .setIcon('skip-forward')
+            .onClick(() => this.timedCommand.next()));
+        menu.addSeparator();
+        menu.addItem(item => item
+            .setTitle('Stop')
+            .setIcon('square')
+            .onClick(() => {
+                this.timedCommand.stop();
+                new Notice('Timed prompts stopped');
+            }));
+        menu.showAtMouseEvent(event);
+    }
+
+    /**
+     * Starts refreshing the countdown every second.
+     */
+    private startTicking(): void {
+        if (this.tickTimer === null) {
+            this.tickTimer = window.setInterval(() => this.render(this.timedCommand.getStatus()), 1000);
+        }
+    }
+
+    /**
+     * Stops refreshing the countdown.
+     */
+    private stopTicking(): void {
+        if (this.tickTimer !== null) {
+            window.clearInterval(this.tickTimer);
+            this.tickTimer = null;
+        }
+    }
+
+    /**
+     * Cancels the timer hiding the error message.
+     */
+    private clearErrorTimer(): void {
+        if (this.errorTimer !== null) {
+            window.clearTimeout(this.errorTimer);
+            this.errorTimer = null;
+        }
+    }
+}
+
+/**
+ * Builds the progress text of a running session, e.g. "Prompt 3/10 · next in 0:04".
+ * Shared by the status bar and the session view.
+ *
+ * @param status - Status of a running session
+ * @returns Progress text
+ */
+export function describeTimedProgress(status: TimedPromptsStatus): string {
+    const progress = `Prompt ${status.currentPrompt}/${status.totalPrompts}`;
+    if (status.nextPromptInMs === null) {
+        return `${progress} · waiting for next prompt`;
+    }
+
+    const time = formatTime(status.nextPromptInMs);
+    if (status.isPaused) {
+        return `${progress} · paused (${time} left)`;
+    }
+    if (status.isWaitingForPause) {
+        return `${progress} · next when you pause typing`;
+    }
+    const isLast = status.currentPrompt >= status.totalPrompts && !status.isGenerating;
+    return `${progress} · ${isLast ? 'ends' : 'next'} in ${time}`;
+}
+
+/**
+ * Formats milliseconds as minutes and seconds, rounding up.
+ *
+ * @param ms - Duration in milliseconds
+ * @returns Duration such as "0:04" or "2:30"
+ */
+function formatTime(ms: number): string {
+    const totalSeconds = Math.ceil(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
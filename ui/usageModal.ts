@@ -0,0 +1,186 @@
+// ABOUTME: Modal showing token usage and estimated costs per period, model, and day
+// ABOUTME: Includes the monthly budget status and flags usage of models without a price
+
+import { App, Modal, moment } from 'obsidian';
+import FreewritingPromptsPlugin from '../main';
+import { formatCost, UsageTotals } from '../services/usageService';
+import { UsageRecord } from '../types';
+
+/**
+ * Modal summarizing the recorded token usage.
+ *
+ * Shows three sections:
+ * - Totals for today, this month, and all recorded usage, with the budget
+ * - Usage per model this month
+ * - Usage per day for the last DAYS_SHOWN days
+ *
+ * Costs are estimated from the price table in settings when the modal
+ * opens, so they always reflect the current prices.
+ */
+export class UsageModal extends Modal {
+    /** Number of days listed in the daily breakdown */
+    private static readonly DAYS_SHOWN = 30;
+
+    /**
+     * Creates a new usage modal.
+     *
+     * @param app - Obsidian app instance
+     * @param plugin - Plugin instance providing usage and prices
+     */
+    constructor(app: App, private plugin: FreewritingPromptsPlugin) {
+        super(app);
+    }
+
+    /**
+     * Renders the usage tables.
+     */
+    onOpen(): void {
+        const { contentEl } = this;
+        this.setTitle('Token usage and costs');
+        contentEl.addClass('freewriting-usage-modal');
+
+        const records = this.plugin.usageService.getRecords();
+        if (records.length === 0) {
+            contentEl.createEl('p', {
+                text: 'No usage recorded yet. Usage is recorded for every prompt generation request.',
+                cls: 'freewriting-usage-note'
+            });
+            return;
+        }
+
+        this.renderTotals();
+        this.renderByModel(records);
+        this.renderByDay(records);
+    }
+
+    /**
+     * Cleans up the modal content.
+     */
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    // MARK: - Private Methods
+
+    /**
+     * Renders the totals per period and the budget status.
+     */
+    private renderTotals(): void {
+        const { usageService, settings } = this.plugin;
+        const prices = settings.modelPrices;
+        const monthStart = moment().startOf('month').format('YYYY-MM-DD');
+        const month = usageService.getTotals(prices, monthStart);
+
+        this.contentEl.createEl('h3', { text: 'Totals' });
+        this.renderTable(['Period', 'Requests', 'Input tokens', 'Output tokens', 'Cost'], [
+            ['Today', ...this.formatTotals(usageService.getTotals(prices, moment().format('YYYY-MM-DD')))],
+            ['This month', ...this.formatTotals(month)],
+            ['All time', ...this.formatTotals(usageService.getTotals(prices))]
+        ]);
+
+        if (settings.monthlyBudget > 0) {
+            const percent = Math.round(month.cost / settings.monthlyBudget * 100);
+            this.contentEl.createEl('p', {
+                text: `Monthly budget: ${formatCost(month.cost)} of ${formatCost(settings.monthlyBudget)} used (${percent}%)`,
+                cls: month.cost >= settings.monthlyBudget ? 'freewriting-usage-over-budget' : undefined
+            });
+        }
+
+        if (usageService.getTotals(prices).hasUnpriced) {
+            this.contentEl.createEl('p', {
+                text: 'Some models have no price and count as free. Add their prices under "Usage and costs" in settings.',
+                cls: 'freewriting-usage-note'
+            });
+        }
+    }
+
+    /**
+     * Renders this month's usage per model.
+     *
+     * @param records - All usage records
+     */
+    private renderByModel(records: UsageRecord[]): void {
+        const monthStart = moment().startOf('month').format('YYYY-MM-DD');
+        const byModel = this.group(records.filter(record => record.date >= monthStart), record => record.model);
+
+        this.contentEl.createEl('h3', { text: 'This month by model' });
+        if (byModel.size === 0) {
+            this.contentEl.createEl('p', { text: 'No usage this month.', cls: 'freewriting-usage-note' });
+            return;
+        }
+        this.renderTable(['Model', 'Requests', 'Input tokens', 'Output tokens', 'Cost'],
+            Array.from(byModel.entries()).map(([model, modelRecords]) => [model, ...this.formatTotals(this.total(modelRecords))]));
+    }
+
+    /**
+     * Renders the usage per day, newest first.
+     *
+     * @param records - All usage records
+     */
+    private renderByDay(records: UsageRecord[]): void {
+        const byDay = this.group(records, record => record.date);
+        const days = Array.from(byDay.keys()).sort().reverse().slice(0, UsageModal.DAYS_SHOWN);
+
+        this.contentEl.createEl('h3', { text: 'By day' });
+        this.renderTable(['Date', 'Requests', 'Input tokens', 'Output tokens', 'Cost'],
+            days.map(day => [day, ...this.formatTotals(this.total(byDay.get(day) ?? []))]));
+    }
+
+    /**
+     * Groups records by a key, keeping the order of first appearance.
+     *
+     * @param records - Records to group
+     * @param getKey - Returns the group key of a record
+     * @returns Records by key
+     */
+    private group(records: UsageRecord[], getKey: (record: UsageRecord) => string): Map<string, UsageRecord[]> {
+        const groups = new Map<string, UsageRecord[]>();
+        records.forEach(record => {
+            groups.set(getKey(record), [...(groups.get(getKey(record)) ?? []), record]);
+        });
+        return groups;
+    }
+
+    /**
+     * Sums records with the current prices.
+     *
+     * @param records - Records to sum
+     * @returns Totals with the estimated cost
+     */
+    private total(records: UsageRecord[]): UsageTotals {
+        return this.plugin.usageService.getTotals(this.plugin.settings.modelPrices, undefined, records);
+    }
+
+    /**
+     * Formats totals as table cells.
+     *
+     * @param totals - Totals to format
+     * @returns Requests, input tokens, output tokens, and cost
+     */
+    private formatTotals(totals: UsageTotals): string[] {
+        return [
+            totals.requests.toLocaleString(),
+            totals.inputTokens.toLocaleString(),
+            totals.outputTokens.toLocaleString(),
+            totals.hasUnpriced && totals.cost === 0 ? 'No price' : formatCost(totals.cost)
+        ];
+    }
+
+    /**
+     * Renders a table.
+     *
+     * @param headers - Column headers
+     * @param rows - Cell texts per row
+     */
+    private renderTable(headers: string[], rows: string[][]): void {
+        const table = this.contentEl.createEl('table', { cls: 'freewriting-usage-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        headers.forEach(header => headerRow.createEl('th', { text: header }));
+
+        const body = table.createEl('tbody');
+        rows.forEach(cells => {
+            const row = body.createEl('tr');
+            cells.forEach(cell => row.createEl('td', { text: cell }));
+        });
+    }
+}